@@ -1,12 +1,40 @@
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useLayoutEffect, useRef, useSyncExternalStore } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
 import { supabase, isMockMode } from './services/supabaseClient';
-import { UserProfile, EventConfig, ThemeConfig, UserSegment, SongSuggestion, Photo, ChatMessage, InviteCode as InviteCodeType } from './types';
+import { onMockPersistError } from './services/mockSupabase';
+import { getEventPhase, getEventStart, getTimeLeft, EventPhase } from './services/countdown';
+import { db, NewTimelineMoment } from './services/db';
+import { getPartyHeadcount, getPartySize } from './services/party';
+import { maskProfanity, parseBannedWords, containsProfanity, REACTION_EMOJIS } from './services/chatModeration';
+import { getVideoLimits, DEFAULT_VIDEO_MAX_MB, DEFAULT_VIDEO_MAX_SECONDS, VideoLimits } from './services/videoProcessing';
+import { buildSlides, buildProjectorUrl, generateProjectorToken, getProjectorToken, PROJECTOR_SLIDE_SECONDS, PROJECTOR_REFRESH_SECONDS, Slide } from './services/projector';
+import { generateInviteCode, normalizeInviteCode, getCodeFormat, hasValidChecksum } from './services/inviteCodes';
+import { formatLockout } from './services/authThrottle';
+import { printInvitations } from './services/invitationCards';
+import {
+  readInviteCodeFromUrl, clearInviteCodeFromUrl, buildInviteLink, buildWhatsAppShareUrl, buildWhatsAppUrl,
+  savePendingInviteCode, getPendingInviteCode, clearPendingInviteCode, InviteCodeError, InviteErrorReason
+} from './services/inviteLink';
+import { uploadQueue, UploadStatus } from './services/uploadQueue';
+import { GALLERY_PAGE_SIZE, compareGalleryPhotos, getUploaders, photoFileName, downloadPhoto, Uploader } from './services/gallery';
+import { CHAT_PAGE_SIZE, getCursor, mergeMessages } from './services/chatHistory';
+import { getTableOccupancy, getUnseatedGuests, getTableName, seatsForGuest } from './services/seating';
+import { buildCateringReport, getRequirements, DIETARY_LABELS, EMPTY_DIETARY, DietaryRequirement, NO_TABLE } from './services/catering';
+import { exportRows, exportColumns, readSpreadsheet, ExportColumn, ExportFormat } from './services/spreadsheet';
+import { planGuestImport, buildImportedInvites, ImportPlan, IMPORT_TABLE_CAPACITY } from './services/guestImport';
+import { buildEventStats, isHourlyActivity, ActivityBucket } from './services/stats';
+import { isRsvpLocked, formatRsvpDeadline, buildRsvpReminder, buildInviteReminder } from './services/rsvp';
+import { validateEventConfig, validateThemeConfig, isValidTime, FieldErrors } from './services/validation';
+import { GUEST_SEGMENTS, getSegmentDefinition, getSegmentContent, withSegmentContent } from './services/segments';
+import { getTimelineState, getMomentStart, getScheduledStart, isMomentVisible, sortMoments } from './services/timeline';
+import { UserProfile, EventConfig, ThemeConfig, UserSegment, SongSuggestion, Photo, ChatMessage, InviteCode as InviteCodeType, Guest, Companion, DietaryProfile, SeatingTable, PhotoModerationEntry, InviteEvent, InviteAction, SegmentContent, TimelineMoment, RsvpChange, RsvpStatus, ChatActivityHour } from './types';
 import { 
   Loader2, MapPin, Music, Camera, MessageCircle, Calendar, CheckCircle, 
   XCircle, Upload, Send, Shield, Settings, LogOut, Info, AlertTriangle,
   Plus, Trash2, Database, Wifi, WifiOff, Mail, Lock, Download, Utensils, Users, Image as ImageIcon,
-  Check, X
+  Check, X, Reply, Smile, EyeOff, Eye, MicOff, Mic, ArrowDown,
+  ArrowLeft, Star, ChevronLeft, ChevronRight, Play, Undo2, History, Monitor, Printer, Clock, RefreshCw
 } from 'lucide-react';
 
 // --- Constants & Mocks ---
@@ -38,6 +66,89 @@ const MOCK_EVENT_CONFIG: EventConfig = {
   welcome_message: '¡Estás invitado a la mejor noche del año, Gemma 15!'
 };
 
+const FONT_OPTIONS = [
+  'Inter, sans-serif',
+  "'Playfair Display', serif",
+  "'Pacifico', cursive"
+];
+
+// Pushes a theme into the CSS variables consumed by every component.
+const applyThemeVars = (theme: ThemeConfig) => {
+  const root = document.documentElement;
+  root.style.setProperty('--color-bg', theme.color_bg);
+  root.style.setProperty('--color-card', theme.color_card);
+  root.style.setProperty('--color-text', theme.color_text);
+  root.style.setProperty('--color-primary', theme.color_primary);
+  root.style.setProperty('--color-accent', theme.color_accent);
+  root.style.setProperty('--font-family', theme.font_family);
+};
+
+// Public URL of an object in the 'user_photos' bucket
+const photoUrl = (storagePath: string) => db.photos.publicUrl(storagePath);
+
+// Grid-sized version of a photo (poster frame for videos), falling back to the original for legacy uploads
+const thumbUrl = (photo: Photo) => photoUrl(photo.thumbnail_path || photo.storage_path);
+
+const isVideo = (photo: Photo) => photo.media_type === 'VIDEO';
+
+const formatDuration = (seconds?: number | null) =>
+  seconds ? `${Math.floor(seconds / 60)}:${String(Math.round(seconds % 60)).padStart(2, '0')}` : '';
+
+// Play badge over a video's poster frame in grids
+const VideoBadge = ({ photo }: { photo: Photo }) => (
+  <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+      <div className="bg-black/60 rounded-full p-2"><Play size={16} className="fill-white" /></div>
+      {photo.duration_seconds ? <span className="absolute top-1 left-1 bg-black/60 text-[10px] px-1 rounded">{formatDuration(photo.duration_seconds)}</span> : null}
+  </div>
+);
+
+const PHOTO_STATUS_LABELS: Record<Photo['status'] | 'ALL', string> = {
+  PENDING: 'Pendientes',
+  APPROVED: 'Aprobadas',
+  REJECTED: 'Rechazadas',
+  ALL: 'Todas'
+};
+
+const INVITE_ACTION_LABELS: Record<InviteAction, string> = {
+  CREATED: 'Creado',
+  LABELED: 'Etiqueta',
+  REVOKED: 'Anulado',
+  RESTORED: 'Restaurado',
+  UNBOUND: 'Desvinculado',
+  REASSIGNED: 'Reasignado',
+  ROTATED: 'Rotado'
+};
+
+const RSVP_STATUS_LABELS: Record<RsvpStatus, string> = {
+  CONFIRMED: 'Confirmado',
+  DECLINED: 'No viene',
+  PENDING: 'Sin responder'
+};
+
+const PHOTO_STATUS_NAMES: Record<Photo['status'], string> = {
+  PENDING: 'Pendiente',
+  APPROVED: 'Aprobada',
+  REJECTED: 'Rechazada'
+};
+
+const UPLOAD_STATUS_LABELS: Record<UploadStatus, string> = {
+  QUEUED: 'En cola',
+  PROCESSING: 'Optimizando',
+  UPLOADING: 'Subiendo',
+  SAVING: 'Guardando',
+  DONE: 'Enviada',
+  FAILED: 'Falló'
+};
+
+const EMPTY_MOMENT: NewTimelineMoment = { title: '', description: '', time: '', segments: [] };
+
+// Countdown animation classes per ThemeConfig.motion_level
+const MOTION_CLASSES: Record<ThemeConfig['motion_level'], { tick: string; highlight: string }> = {
+  low: { tick: '', highlight: '' },
+  medium: { tick: 'transition-all duration-300', highlight: 'animate-pulse' },
+  high: { tick: 'transition-all duration-300 animate-pulse', highlight: 'animate-bounce' }
+};
+
 // --- Components ---
 
 const Button = ({ children, onClick, variant = 'primary', className = '', disabled = false, icon: Icon }: any) => {
@@ -81,6 +192,660 @@ const Input = ({ value, onChange, placeholder, type = 'text', className = '', re
   />
 );
 
+const DIETARY_OPTIONS: { key: keyof Omit<DietaryProfile, 'allergies'>; label: string; hint: string }[] = [
+  { key: 'vegetarian', label: 'Vegetariano/a', hint: 'Sin carne' },
+  { key: 'vegan', label: 'Vegano/a', hint: 'Sin productos animales' },
+  { key: 'lactose_free', label: 'Sin Lactosa', hint: 'Intolerancia a la lactosa' },
+  { key: 'kids_menu', label: 'Menú Infantil', hint: 'Para los más chicos' }
+];
+
+// Celiac flag + structured dietary profile. `compact` is used inside cards.
+const DietaryFields = ({ isCeliac, dietary, onChange, compact = false }: {
+  isCeliac: boolean;
+  dietary: DietaryProfile;
+  onChange: (isCeliac: boolean, dietary: DietaryProfile) => void;
+  compact?: boolean;
+}) => {
+  const rows = [
+    { label: 'Soy Celíaco/a', hint: 'Necesito menú sin TACC', checked: isCeliac, toggle: (v: boolean) => onChange(v, dietary) },
+    ...DIETARY_OPTIONS.map(o => ({ label: o.label, hint: o.hint, checked: dietary[o.key], toggle: (v: boolean) => onChange(isCeliac, { ...dietary, [o.key]: v }) }))
+  ];
+
+  if (compact) {
+    return (
+      <div className="space-y-2 text-xs">
+        <div className="flex flex-wrap gap-x-3 gap-y-1">
+          {rows.map(r => (
+            <label key={r.label} className="flex items-center gap-1">
+              <input type="checkbox" checked={r.checked} onChange={(e) => r.toggle(e.target.checked)} className="accent-[var(--color-primary)]" />
+              {r.label}
+            </label>
+          ))}
+        </div>
+        <Input value={dietary.allergies} onChange={(e: any) => onChange(isCeliac, { ...dietary, allergies: e.target.value })} placeholder="Alergias (Ej: maní)" className="text-xs py-2" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white/5 rounded-xl border border-white/10 divide-y divide-white/5">
+      {rows.map((r, i) => (
+        <label key={r.label} className="flex items-center gap-4 p-4 cursor-pointer">
+          {i === 0 ? <Utensils className="text-orange-400" /> : <span className="w-6" />}
+          <div className="flex-1">
+            <span className="font-bold block">{r.label}</span>
+            <span className="text-xs opacity-60">{r.hint}</span>
+          </div>
+          <input type="checkbox" checked={r.checked} onChange={(e) => r.toggle(e.target.checked)} className="w-6 h-6 accent-[var(--color-primary)]" />
+        </label>
+      ))}
+      <div className="p-4">
+        <span className="font-bold block mb-2">Alergias</span>
+        <Input value={dietary.allergies} onChange={(e: any) => onChange(isCeliac, { ...dietary, allergies: e.target.value })} placeholder="Ej: maní, mariscos" className="text-sm py-2" />
+      </div>
+    </div>
+  );
+};
+
+const TEXTAREA_CLASS = "w-full bg-black/20 border border-white/10 rounded-xl px-4 py-3 text-sm text-[var(--color-text)] placeholder-white/30 focus:outline-none focus:border-[var(--color-primary)] transition-colors";
+
+// Guest-facing "Info" card: whatever the guest's segment has configured.
+const SegmentInfoCard = ({ content }: { content: SegmentContent }) => {
+  const checklist = content.checklist.filter(item => item.trim());
+  const schedule = [...content.schedule].sort((a, b) => a.time.localeCompare(b.time));
+  return (
+    <Card title="Info" icon={Info} className="md:col-span-1">
+        <div className="text-xs space-y-4 opacity-90">
+            {content.dress_code && <p><span className="font-bold">Dress code:</span> {content.dress_code}</p>}
+            {schedule.length > 0 && (
+                <ul className="space-y-1">
+                    {schedule.map((item, i) => <li key={i} className="flex gap-2"><span className="font-mono font-bold text-[var(--color-primary)]">{item.time}</span> {item.title}</li>)}
+                </ul>
+            )}
+            {content.rules && <p className="whitespace-pre-line opacity-80">{content.rules}</p>}
+            {checklist.length > 0 && (
+                <div>
+                    <p className="font-bold mb-1">No te olvides</p>
+                    <ul className="space-y-1">
+                        {checklist.map((item, i) => <li key={i} className="flex gap-2"><CheckCircle size={12} className="text-[var(--color-primary)] shrink-0 mt-0.5"/> {item}</li>)}
+                    </ul>
+                </div>
+            )}
+            {content.info_blocks.map((block, i) => (
+                <div key={i}>
+                    <p className="font-bold mb-1">{block.title}</p>
+                    <p className="whitespace-pre-line opacity-80">{block.body}</p>
+                </div>
+            ))}
+        </div>
+    </Card>
+  );
+};
+
+// Admin editor for one segment's SegmentContent. Checklist lines are kept raw
+// while typing; empty ones are dropped when rendered.
+const SegmentContentEditor = ({ content, onChange }: { content: SegmentContent; onChange: (content: SegmentContent) => void }) => {
+  const set = <K extends keyof SegmentContent>(field: K, value: SegmentContent[K]) => onChange({ ...content, [field]: value });
+  const label = (text: string) => <label className="block text-xs uppercase mb-1 opacity-70">{text}</label>;
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+            {label('Horario de llegada')}
+            <Input value={content.time} onChange={(e: any) => set('time', e.target.value)} placeholder="HH:MM" className="text-sm py-2" />
+        </div>
+        <div>
+            {label('Dress code')}
+            <Input value={content.dress_code} onChange={(e: any) => set('dress_code', e.target.value)} className="text-sm py-2" />
+        </div>
+        <div>
+            {label('Reglas')}
+            <textarea value={content.rules} onChange={(e) => set('rules', e.target.value)} rows={4} className={TEXTAREA_CLASS} />
+        </div>
+        <div>
+            {label('Checklist (uno por línea)')}
+            <textarea value={content.checklist.join('\n')} onChange={(e) => set('checklist', e.target.value.split('\n'))} rows={4} className={TEXTAREA_CLASS} />
+        </div>
+        <div className="md:col-span-2">
+            {label('Itinerario')}
+            <div className="space-y-2">
+                {content.schedule.map((item, i) => (
+                    <div key={i} className="flex gap-2">
+                        <Input value={item.time} onChange={(e: any) => set('schedule', content.schedule.map((s, j) => j === i ? { ...s, time: e.target.value } : s))} placeholder="HH:MM" className="text-sm py-2 w-24 shrink-0" />
+                        <Input value={item.title} onChange={(e: any) => set('schedule', content.schedule.map((s, j) => j === i ? { ...s, title: e.target.value } : s))} placeholder="Ej: Entrada en calor" className="text-sm py-2" />
+                        <button onClick={() => set('schedule', content.schedule.filter((_, j) => j !== i))} title="Quitar" className="p-2 rounded bg-white/10 hover:bg-red-500/60 shrink-0"><Trash2 size={14} /></button>
+                    </div>
+                ))}
+                <Button onClick={() => set('schedule', [...content.schedule, { time: '', title: '' }])} variant="ghost" icon={Plus} className="text-xs py-2">Agregar horario</Button>
+            </div>
+        </div>
+        <div className="md:col-span-2">
+            {label('Bloques de información')}
+            <div className="space-y-3">
+                {content.info_blocks.map((block, i) => (
+                    <div key={i} className="bg-black/20 p-3 rounded-xl border border-white/10 space-y-2">
+                        <div className="flex gap-2">
+                            <Input value={block.title} onChange={(e: any) => set('info_blocks', content.info_blocks.map((b, j) => j === i ? { ...b, title: e.target.value } : b))} placeholder="Título (Ej: Estacionamiento)" className="text-sm py-2" />
+                            <button onClick={() => set('info_blocks', content.info_blocks.filter((_, j) => j !== i))} title="Quitar" className="p-2 rounded bg-white/10 hover:bg-red-500/60 shrink-0"><Trash2 size={14} /></button>
+                        </div>
+                        <textarea value={block.body} onChange={(e) => set('info_blocks', content.info_blocks.map((b, j) => j === i ? { ...b, body: e.target.value } : b))} rows={2} className={TEXTAREA_CLASS} />
+                    </div>
+                ))}
+                <Button onClick={() => set('info_blocks', [...content.info_blocks, { title: '', body: '' }])} variant="ghost" icon={Plus} className="text-xs py-2">Agregar bloque</Button>
+            </div>
+        </div>
+    </div>
+  );
+};
+
+// Column chart for the admin overview, per hour or per day depending on the span.
+const ActivityChart = ({ buckets, emptyText }: { buckets: ActivityBucket[]; emptyText: string }) => {
+  if (buckets.length === 0) return <p className="opacity-50 text-sm text-center py-6">{emptyText}</p>;
+  const max = Math.max(1, ...buckets.map(b => b.count));
+  const hourly = isHourlyActivity(buckets);
+  const label = (d: Date) => hourly
+      ? d.toLocaleTimeString('es-AR', { hour: '2-digit', minute: '2-digit' })
+      : d.toLocaleDateString('es-AR', { day: 'numeric', month: 'short' });
+  return (
+    <div>
+        <div className="flex items-end gap-px h-32">
+            {buckets.map(b => (
+                <div key={b.start.getTime()} title={`${label(b.start)}: ${b.count}`} className="flex-1 bg-[var(--color-primary)]/70 hover:bg-[var(--color-primary)] rounded-t min-h-[1px]" style={{ height: `${(b.count / max) * 100}%` }} />
+            ))}
+        </div>
+        <div className="flex justify-between text-[10px] opacity-50 mt-1">
+            <span>{label(buckets[0].start)}</span>
+            <span>{label(buckets[buckets.length - 1].start)}</span>
+        </div>
+    </div>
+  );
+};
+
+// Subscribes to the upload queue itself, so progress updates re-render only this card
+const PhotoUploadCard = ({ userId, videoLimits, prominent = false }: { userId: string; videoLimits: VideoLimits; prominent?: boolean }) => {
+  const uploads = useSyncExternalStore(uploadQueue.subscribe, uploadQueue.getSnapshot);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const active = uploads.filter(u => u.status !== 'DONE' && u.status !== 'FAILED').length;
+  const finished = uploads.filter(u => u.status === 'DONE').length;
+
+  const handleUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+      if (!e.target.files || e.target.files.length === 0) return;
+      const files = Array.from<File>(e.target.files);
+      uploadQueue.enqueue(userId, files);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  return (
+      <Card title="Subí Fotos y Videos" icon={Camera} className={prominent ? 'md:col-span-2 border-[var(--color-primary)]/50' : 'md:col-span-1'}>
+          <div className="flex flex-col items-center justify-center border-2 border-dashed border-white/10 rounded-xl p-4 hover:border-[var(--color-primary)] transition-colors cursor-pointer" onClick={() => fileInputRef.current?.click()}>
+              <input type="file" ref={fileInputRef} className="hidden" accept="image/*,video/*" multiple onChange={handleUpload} />
+              {active > 0 ? (
+                  <div className="text-center">
+                      <Loader2 className="animate-spin mb-2 mx-auto" />
+                      <span className="text-xs">Subiendo {active} {active === 1 ? 'foto' : 'fotos'}... Tocá para sumar más</span>
+                  </div>
+              ) : (
+                  <>
+                      <Upload className="mb-2 opacity-50" />
+                      <p className="text-xs text-center font-bold">Tocá para subir (podés elegir varias)</p>
+                      <p className="text-[10px] opacity-50 text-center">Videos de hasta {videoLimits.maxSeconds}s y {videoLimits.maxMb} MB</p>
+                  </>
+              )}
+          </div>
+          {uploads.length > 0 && (
+              <div className="mt-3 space-y-2 max-h-48 overflow-y-auto pr-1">
+                  {uploads.map(u => (
+                      <div key={u.id} className="bg-white/5 rounded-lg p-2 text-xs">
+                          <div className="flex items-center gap-2">
+                              <span className="flex-1 truncate">{u.name}</span>
+                              <span className={`font-bold ${u.status === 'FAILED' ? 'text-red-400' : u.status === 'DONE' ? 'text-green-400' : 'opacity-60'}`}>
+                                  {u.status === 'QUEUED' && u.attempts > 0 ? `Reintento ${u.attempts}` : UPLOAD_STATUS_LABELS[u.status]}
+                              </span>
+                              {u.status === 'FAILED' && <button onClick={() => uploadQueue.retry(u.id)} className="text-[var(--color-primary)] font-bold">Reintentar</button>}
+                              {(u.status === 'FAILED' || u.status === 'QUEUED') && <button onClick={() => uploadQueue.remove(u.id)} className="opacity-50 hover:opacity-100"><X size={12} /></button>}
+                          </div>
+                          {u.status !== 'DONE' && u.status !== 'FAILED' && (
+                              <div className="h-1 bg-white/10 rounded-full mt-1 overflow-hidden">
+                                  <div className="h-full bg-[var(--color-primary)] transition-all duration-500" style={{ width: `${u.progress}%` }} />
+                              </div>
+                          )}
+                          {u.error && u.status !== 'DONE' && <p className="text-[10px] text-red-300/80 mt-1 truncate">{u.error}</p>}
+                      </div>
+                  ))}
+                  {finished > 0 && <button onClick={uploadQueue.clearFinished} className="text-[10px] opacity-50 hover:opacity-100 w-full">Limpiar enviadas</button>}
+              </div>
+          )}
+      </Card>
+  );
+};
+
+// Lives outside App so incoming messages don't remount it (and wipe the draft,
+// reply target or scroll position).
+const ChatCard = ({ messages, user, isAdmin, bannedWords, hasOlder, loadingOlder, onLoadOlder, onSend, onReact }: {
+  messages: ChatMessage[];
+  user: UserProfile | null;
+  isAdmin: boolean;
+  bannedWords: string[];
+  hasOlder: boolean;
+  loadingOlder: boolean;
+  onLoadOlder: () => void;
+  onSend: (text: string, replyTo: number | null) => Promise<boolean>;
+  onReact: (messageId: number, emoji: string) => void;
+}) => {
+  const [text, setText] = useState('');
+  const [replyTo, setReplyTo] = useState<ChatMessage | null>(null);
+  const [pickerFor, setPickerFor] = useState<number | null>(null);
+  const [unseen, setUnseen] = useState(0);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  // Snapshot of the list before the last render, to tell prepends from appends
+  const prev = useRef({ firstId: 0, lastId: 0, scrollHeight: 0, scrollTop: 0 });
+  const atBottom = useRef(true);
+
+  useLayoutEffect(() => {
+      const el = scrollRef.current;
+      if (!el) return;
+      const first = messages[0]?.id ?? 0;
+      const last = messages[messages.length - 1];
+
+      if (prev.current.lastId === 0) {
+          el.scrollTop = el.scrollHeight;
+      } else if (first !== prev.current.firstId && messages.length > 0 && last?.id === prev.current.lastId) {
+          // Older page prepended: keep the same message under the viewport
+          el.scrollTop = el.scrollHeight - prev.current.scrollHeight + prev.current.scrollTop;
+      } else if (last && last.id !== prev.current.lastId) {
+          if (atBottom.current || last.user_id === user?.user_id) el.scrollTop = el.scrollHeight;
+          else setUnseen(n => n + 1);
+      }
+      prev.current = { firstId: first, lastId: last?.id ?? 0, scrollHeight: el.scrollHeight, scrollTop: el.scrollTop };
+  }, [messages]);
+
+  const handleScroll = () => {
+      const el = scrollRef.current;
+      if (!el) return;
+      prev.current.scrollTop = el.scrollTop;
+      prev.current.scrollHeight = el.scrollHeight;
+      atBottom.current = el.scrollHeight - el.scrollTop - el.clientHeight < 40;
+      if (atBottom.current && unseen > 0) setUnseen(0);
+      if (el.scrollTop < 60 && hasOlder && !loadingOlder) onLoadOlder();
+  };
+
+  const jumpToBottom = () => {
+      if (scrollRef.current) scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+      setUnseen(0);
+  };
+
+  const sendMessage = async () => {
+      if (!text.trim()) return;
+      const msgText = text;
+      const reply = replyTo;
+      setText('');
+      setReplyTo(null);
+
+      const sent = await onSend(msgText, reply?.id ?? null);
+      if (!sent) {
+          setText(msgText);
+          setReplyTo(reply);
+      }
+  };
+
+  const renderText = (msg: ChatMessage) => {
+      // The text of hidden messages never reaches the client; admins read it in the panel
+      if (msg.is_hidden) return <span className="italic opacity-50">Mensaje oculto por moderación</span>;
+      return maskProfanity(msg.text, bannedWords);
+  };
+
+  return (
+      <Card title="Chat Invitados" icon={MessageCircle} className="md:col-span-2 row-span-2 h-[400px] flex flex-col relative">
+          <div ref={scrollRef} onScroll={handleScroll} className="flex-1 overflow-y-auto space-y-3 pr-2 mb-4 scrollbar-thin scrollbar-thumb-white/10">
+              {loadingOlder && <div className="text-center py-2"><Loader2 size={16} className="animate-spin mx-auto opacity-50" /></div>}
+              {!hasOlder && messages.length > 0 && <p className="text-center text-[10px] opacity-30 py-2">Inicio de la conversación</p>}
+              {messages.map((msg) => {
+                  const mine = msg.user_id === user?.user_id;
+                  const quoted = msg.reply_to ? messages.find(m => m.id === msg.reply_to) : null;
+                  const reactions = Object.entries(msg.reactions || {});
+                  return (
+                      <div key={msg.id} className={`group flex gap-3 ${mine ? 'flex-row-reverse' : ''}`}>
+                           <div className="w-8 h-8 rounded-full bg-[var(--color-primary)]/20 flex items-center justify-center text-[10px] font-bold overflow-hidden shrink-0">
+                               {msg.users?.avatar_url ? <img src={msg.users.avatar_url} className="w-full h-full object-cover"/> : (msg.users?.name?.[0] || '?')}
+                           </div>
+                           <div className="max-w-[80%]">
+                               <div className={`p-3 rounded-2xl text-sm ${mine ? 'bg-[var(--color-primary)] text-white rounded-tr-none' : 'bg-white/5 rounded-tl-none'} ${msg.is_hidden ? 'opacity-50' : ''}`}>
+                                   <p className="font-bold text-[10px] opacity-70 mb-1">{msg.users?.name}</p>
+                                   {msg.reply_to && (
+                                       <div className="text-[10px] border-l-2 border-white/40 pl-2 mb-1 opacity-70 truncate">
+                                           {quoted ? <><span className="font-bold">{quoted.users?.name}:</span> {quoted.is_hidden ? '…' : maskProfanity(quoted.text, bannedWords)}</> : 'Mensaje anterior'}
+                                       </div>
+                                   )}
+                                   {renderText(msg)}
+                                   {msg.is_hidden && isAdmin && <p className="text-[10px] mt-1 text-red-300">Oculto: {msg.hidden_reason}</p>}
+                               </div>
+                               <div className={`flex flex-wrap items-center gap-1 mt-1 ${mine ? 'justify-end' : ''}`}>
+                                   {reactions.map(([emoji, users]) => (
+                                       <button key={emoji} onClick={() => onReact(msg.id, emoji)} className={`text-[10px] px-1.5 py-0.5 rounded-full border ${user && users.includes(user.user_id) ? 'border-[var(--color-primary)] bg-[var(--color-primary)]/20' : 'border-white/10 bg-white/5'}`}>
+                                           {emoji} {users.length}
+                                       </button>
+                                   ))}
+                                   {!msg.is_hidden && (
+                                       <span className="opacity-0 group-hover:opacity-60 transition-opacity flex gap-1">
+                                           <button onClick={() => setPickerFor(pickerFor === msg.id ? null : msg.id)} title="Reaccionar"><Smile size={12} /></button>
+                                           <button onClick={() => setReplyTo(msg)} title="Responder"><Reply size={12} /></button>
+                                       </span>
+                                   )}
+                                   {pickerFor === msg.id && (
+                                       <span className="flex gap-1 bg-black/40 rounded-full px-2 py-0.5">
+                                           {REACTION_EMOJIS.map(emoji => (
+                                               <button key={emoji} onClick={() => { onReact(msg.id, emoji); setPickerFor(null); }} className="hover:scale-125 transition">{emoji}</button>
+                                           ))}
+                                       </span>
+                                   )}
+                               </div>
+                           </div>
+                      </div>
+                  );
+              })}
+          </div>
+          {unseen > 0 && (
+              <button onClick={jumpToBottom} className="absolute left-1/2 -translate-x-1/2 bottom-20 bg-[var(--color-primary)] text-white text-xs font-bold px-3 py-1.5 rounded-full shadow-lg flex items-center gap-1">
+                  <ArrowDown size={12} /> {unseen} {unseen === 1 ? 'mensaje nuevo' : 'mensajes nuevos'}
+              </button>
+          )}
+          {replyTo && (
+              <div className="flex items-center gap-2 text-xs bg-white/5 rounded-lg px-3 py-2 mb-2">
+                  <Reply size={12} className="opacity-60" />
+                  <span className="flex-1 truncate opacity-70"><span className="font-bold">{replyTo.users?.name}:</span> {maskProfanity(replyTo.text, bannedWords)}</span>
+                  <button onClick={() => setReplyTo(null)}><X size={12} /></button>
+              </div>
+          )}
+          {user?.is_muted ? (
+              <div className="mt-auto text-xs text-center opacity-60 bg-white/5 rounded-xl p-3">Un administrador silenció tu cuenta en el chat.</div>
+          ) : (
+              <div className="flex gap-2 mt-auto">
+                  <Input value={text} onChange={(e: any) => setText(e.target.value)} placeholder="Escribí un mensaje..." className="text-sm py-2" />
+                  <Button onClick={sendMessage} className="px-3" icon={Send} />
+              </div>
+          )}
+      </Card>
+  );
+};
+
+// Full-screen gallery view. Module-level so paging, filter and the open
+// lightbox survive App re-renders.
+const GalleryView = ({ isAdmin, onBack, onFeaturedChange, showToast }: {
+  isAdmin: boolean;
+  onBack: () => void;
+  onFeaturedChange: () => void;
+  showToast: (msg: string, type?: 'success' | 'error') => void;
+}) => {
+  const [photos, setPhotos] = useState<Photo[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [uploaders, setUploaders] = useState<Uploader[]>([]);
+  const [uploaderFilter, setUploaderFilter] = useState<string | null>(null);
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+
+  // Only the latest request is applied: a page for the previous filter may arrive late
+  const lastRequest = useRef(0);
+
+  const loadPage = async (offset: number) => {
+      const request = ++lastRequest.current;
+      setLoading(true);
+      const { data, error } = await db.photos.listApprovedPage(offset, GALLERY_PAGE_SIZE, uploaderFilter);
+      if (request !== lastRequest.current) return;
+      setLoading(false);
+      if (error) return showToast('Error cargando la galería', 'error');
+      setPhotos(prev => offset === 0 ? data : [...prev, ...data.filter(p => !prev.some(q => q.id === p.id))]);
+      setHasMore(data.length === GALLERY_PAGE_SIZE);
+  };
+
+  useEffect(() => {
+      db.photos.listApprovedUploaders().then(({ data }) => { if (data) setUploaders(getUploaders(data)); });
+  }, []);
+
+  useEffect(() => {
+      setOpenIndex(null);
+      loadPage(0);
+  }, [uploaderFilter]);
+
+  const open = openIndex !== null ? photos[openIndex] : null;
+  const step = (delta: number) => setOpenIndex(i => i === null ? null : (i + delta + photos.length) % photos.length);
+
+  useEffect(() => {
+      if (openIndex === null) return;
+      const onKey = (e: KeyboardEvent) => {
+          if (e.key === 'Escape') setOpenIndex(null);
+          if (e.key === 'ArrowLeft') step(-1);
+          if (e.key === 'ArrowRight') step(1);
+      };
+      window.addEventListener('keydown', onKey);
+      return () => window.removeEventListener('keydown', onKey);
+  }, [openIndex, photos.length]);
+
+  const toggleFeatured = async (photo: Photo) => {
+      const { error } = await db.photos.setFeatured(photo.id, !photo.is_featured);
+      if (error) return showToast('Error actualizando destacada', 'error');
+      setPhotos(prev => prev.map(p => p.id === photo.id ? { ...p, is_featured: !photo.is_featured } : p).sort(compareGalleryPhotos));
+      setOpenIndex(null);
+      onFeaturedChange();
+  };
+
+  const download = async (photo: Photo) => {
+      try {
+          await downloadPhoto(photoUrl(photo.storage_path), photoFileName(photo));
+      } catch (e) {
+          showToast('No se pudo descargar la foto', 'error');
+      }
+  };
+
+  return (
+      <div className="min-h-screen pb-20 p-4 md:p-8 max-w-7xl mx-auto">
+          <header className="flex flex-wrap gap-4 justify-between items-center mb-8">
+              <div className="flex items-center gap-3">
+                  <button onClick={onBack} className="p-2 bg-white/10 rounded-full hover:bg-[var(--color-primary)]"><ArrowLeft size={20} /></button>
+                  <h1 className="text-2xl font-black font-['Pacifico'] text-[var(--color-primary)]">Galería</h1>
+              </div>
+              <select
+                value={uploaderFilter ?? ''}
+                onChange={(e) => setUploaderFilter(e.target.value || null)}
+                className="bg-black/20 border border-white/10 rounded-xl px-4 py-2 text-sm text-[var(--color-text)]"
+              >
+                  <option value="">Todas las fotos</option>
+                  {uploaders.map(u => <option key={u.user_id} value={u.user_id}>{u.name} ({u.count})</option>)}
+              </select>
+          </header>
+
+          {!loading && photos.length === 0 && <p className="opacity-50 text-center py-20">Aún no hay fotos ni videos aprobados.</p>}
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-2">
+              {photos.map((p, i) => (
+                  <button key={p.id} onClick={() => setOpenIndex(i)} className="relative aspect-square rounded-lg overflow-hidden bg-black group">
+                      <img src={thumbUrl(p)} loading="lazy" className="w-full h-full object-cover group-hover:scale-105 transition" />
+                      {isVideo(p) && <VideoBadge photo={p} />}
+                      {p.is_featured && <Star size={16} className="absolute top-2 right-2 text-yellow-400 fill-yellow-400 drop-shadow" />}
+                      <div className="absolute bottom-0 w-full bg-black/60 text-[10px] p-1 truncate">{p.users?.name}</div>
+                  </button>
+              ))}
+          </div>
+          {loading && <Loader2 size={24} className="animate-spin mx-auto mt-6 opacity-50" />}
+          {hasMore && !loading && (
+              <Button onClick={() => loadPage(photos.length)} variant="ghost" className="w-full mt-6 text-sm">Cargar más</Button>
+          )}
+
+          {open && (
+              <div className="fixed inset-0 z-50 bg-black/95 flex flex-col" onClick={() => setOpenIndex(null)}>
+                  <div className="flex justify-between items-center p-4 gap-2" onClick={(e) => e.stopPropagation()}>
+                      <div className="text-sm">
+                          <p className="font-bold">{open.users?.name}</p>
+                          <p className="text-xs opacity-50">{new Date(open.created_at).toLocaleString('es-AR')}</p>
+                      </div>
+                      <div className="flex gap-2">
+                          {isAdmin && (
+                              <button onClick={() => toggleFeatured(open)} title={open.is_featured ? 'Quitar destacada' : 'Destacar'} className="p-2 bg-white/10 rounded-full hover:bg-yellow-500">
+                                  <Star size={20} className={open.is_featured ? 'fill-yellow-400 text-yellow-400' : ''} />
+                              </button>
+                          )}
+                          <button onClick={() => download(open)} title="Descargar" className="p-2 bg-white/10 rounded-full hover:bg-[var(--color-primary)]"><Download size={20} /></button>
+                          <button onClick={() => setOpenIndex(null)} className="p-2 bg-white/10 rounded-full hover:bg-red-500"><X size={20} /></button>
+                      </div>
+                  </div>
+                  <div className="flex-1 flex items-center justify-center relative min-h-0 px-12 pb-8">
+                      {isVideo(open) ? (
+                          <video key={open.id} src={photoUrl(open.storage_path)} poster={open.thumbnail_path ? photoUrl(open.thumbnail_path) : undefined} controls autoPlay playsInline className="max-h-full max-w-full rounded-lg" onClick={(e) => e.stopPropagation()} />
+                      ) : (
+                          <img src={photoUrl(open.storage_path)} className="max-h-full max-w-full object-contain rounded-lg" onClick={(e) => e.stopPropagation()} />
+                      )}
+                      {photos.length > 1 && (
+                          <>
+                              <button onClick={(e) => { e.stopPropagation(); step(-1); }} className="absolute left-2 p-2 bg-white/10 rounded-full hover:bg-white/20"><ChevronLeft size={24} /></button>
+                              <button onClick={(e) => { e.stopPropagation(); step(1); }} className="absolute right-2 p-2 bg-white/10 rounded-full hover:bg-white/20"><ChevronRight size={24} /></button>
+                          </>
+                      )}
+                  </div>
+                  <p className="text-center text-xs opacity-50 pb-4">{openIndex! + 1} / {photos.length}{hasMore ? '+' : ''}</p>
+              </div>
+          )}
+      </div>
+  );
+};
+
+// Slide transitions per ThemeConfig.motion_level
+const PROJECTOR_KEYFRAMES = `
+@keyframes projector-fade { from { opacity: 0 } to { opacity: 1 } }
+@keyframes projector-zoom { from { transform: scale(1) } to { transform: scale(1.08) } }
+`;
+const PROJECTOR_MOTION: Record<ThemeConfig['motion_level'], { slide: React.CSSProperties; media: React.CSSProperties }> = {
+  low: { slide: {}, media: {} },
+  medium: { slide: { animation: 'projector-fade 1s ease-out' }, media: {} },
+  high: {
+    slide: { animation: 'projector-fade 1.2s ease-out' },
+    media: { animation: `projector-zoom ${PROJECTOR_SLIDE_SECONDS}s linear forwards` }
+  }
+};
+
+// Venue screen: no login, gated by the projector token. Cycles through
+// approved photos (featured first) and chat highlights. The feed is polled
+// every PROJECTOR_REFRESH_SECONDS (15 s), so a newly approved photo takes up to
+// that long to be picked up; it then jumps the queue and is shown next.
+const ProjectorView = ({ token, theme, eventConfig }: { token: string; theme: ThemeConfig; eventConfig: EventConfig }) => {
+  const [access, setAccess] = useState<'CHECKING' | 'DENIED' | 'GRANTED'>('CHECKING');
+  const [current, setCurrent] = useState<Slide | null>(null);
+  const [slideKey, setSlideKey] = useState(0);
+  const photos = useRef<Photo[]>([]);
+  const highlights = useRef<ChatMessage[]>([]); // newest first
+  const upNext = useRef<Photo[]>([]);
+  const position = useRef(-1);
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Read from the timer callback, which outlives renders
+  const showChat = useRef(false);
+  showChat.current = !!eventConfig.projector_show_chat;
+  const bannedWords = parseBannedWords(eventConfig.chat_banned_words);
+  const motion = PROJECTOR_MOTION[theme.motion_level] || PROJECTOR_MOTION.medium;
+
+  const advance = () => {
+      if (timer.current) clearTimeout(timer.current);
+      let next: Slide | null = null;
+      const fresh = upNext.current.shift();
+      if (fresh) {
+          next = { kind: 'PHOTO', photo: fresh };
+      } else {
+          const slides = buildSlides(photos.current, highlights.current, showChat.current);
+          if (slides.length > 0) {
+              position.current = (position.current + 1) % slides.length;
+              next = slides[position.current];
+          }
+      }
+      setCurrent(next);
+      setSlideKey(k => k + 1);
+      // Videos advance on 'ended'; this is only their safety net
+      const seconds = next?.kind === 'PHOTO' && isVideo(next.photo)
+          ? Math.max(PROJECTOR_SLIDE_SECONDS, (next.photo.duration_seconds || 0) + 2)
+          : PROJECTOR_SLIDE_SECONDS;
+      timer.current = setTimeout(advance, seconds * 1000);
+  };
+
+  useEffect(() => {
+      let cancelled = false;
+      let loaded = false;
+      let poll: ReturnType<typeof setTimeout> | undefined;
+      // Everything comes through the token-checked feed, so a regenerated or
+      // disabled link stops the screen on the next refresh
+      const refresh = async () => {
+          const { data: feed, error } = await db.config.getProjectorFeed(token);
+          if (cancelled) return;
+          if (!error && !feed) {
+              if (timer.current) clearTimeout(timer.current);
+              return setAccess('DENIED');
+          }
+          if (feed) {
+              const known = new Set(photos.current.map(p => p.id));
+              const approved = new Set(feed.photos.map(p => p.id));
+              // Newly approved photos jump the queue; rejected or deleted ones leave the rotation
+              upNext.current = [
+                  ...upNext.current.filter(p => approved.has(p.id)),
+                  ...(loaded ? feed.photos.filter(p => !known.has(p.id)) : [])
+              ];
+              photos.current = [...feed.photos].sort(compareGalleryPhotos);
+              highlights.current = feed.messages;
+              if (!loaded) {
+                  loaded = true;
+                  setAccess('GRANTED');
+                  advance();
+              }
+          }
+          poll = setTimeout(refresh, PROJECTOR_REFRESH_SECONDS * 1000);
+      };
+      refresh();
+
+      return () => {
+          cancelled = true;
+          clearTimeout(poll);
+          if (timer.current) clearTimeout(timer.current);
+      };
+  }, [token]);
+
+  if (access === 'CHECKING') return (
+      <div className="h-screen w-screen flex items-center justify-center bg-black text-[var(--color-primary)]"><Loader2 size={48} className="animate-spin" /></div>
+  );
+  if (access === 'DENIED') return (
+      <div className="h-screen w-screen flex flex-col items-center justify-center bg-black text-center p-8">
+          <Lock size={48} className="mb-4 opacity-50" />
+          <p className="text-xl font-bold">Link de proyector inválido o vencido</p>
+          <p className="opacity-50 mt-2">Pedile al admin un link nuevo.</p>
+      </div>
+  );
+
+  return (
+      <div className="h-screen w-screen overflow-hidden bg-[var(--color-bg)] text-[var(--color-text)] relative cursor-none">
+          <style>{PROJECTOR_KEYFRAMES}</style>
+          {!current && (
+              <div className="h-full flex flex-col items-center justify-center text-center">
+                  <h1 className="text-7xl font-black font-['Pacifico'] text-[var(--color-primary)] mb-4">Gemma 15</h1>
+                  <p className="text-2xl opacity-70">¡Subí tus fotos y aparecen acá!</p>
+              </div>
+          )}
+          {current?.kind === 'PHOTO' && (
+              <div key={slideKey} className="absolute inset-0 flex items-center justify-center bg-black" style={motion.slide}>
+                  {isVideo(current.photo) ? (
+                      <video src={photoUrl(current.photo.storage_path)} autoPlay muted playsInline onEnded={advance} className="max-h-full max-w-full" />
+                  ) : (
+                      <img src={photoUrl(current.photo.storage_path)} className="max-h-full max-w-full object-contain" style={motion.media} />
+                  )}
+                  <div className="absolute bottom-0 inset-x-0 p-8 bg-gradient-to-t from-black/80 to-transparent flex items-end justify-between">
+                      <p className="text-3xl font-bold text-white">📸 {current.photo.users?.name || 'Invitado'}</p>
+                      {current.photo.is_featured && <Star size={40} className="text-yellow-400 fill-yellow-400" />}
+                  </div>
+              </div>
+          )}
+          {current?.kind === 'CHAT' && (
+              <div key={slideKey} className="absolute inset-0 flex items-center justify-center p-16 bg-gradient-to-br from-[var(--color-primary)] to-[var(--color-accent)]" style={motion.slide}>
+                  <div className="max-w-4xl text-center text-white">
+                      <MessageCircle size={64} className="mx-auto mb-8 opacity-80" />
+                      <p className="text-6xl font-black leading-tight mb-8">“{maskProfanity(current.message.text, bannedWords)}”</p>
+                      <p className="text-3xl opacity-80">— {current.message.users?.name || 'Invitado'}</p>
+                  </div>
+              </div>
+          )}
+      </div>
+  );
+};
+
 // --- Main App Component ---
 
 export default function App() {
@@ -88,17 +853,26 @@ export default function App() {
   const [user, setUser] = useState<UserProfile | null>(null);
   const [isAdmin, setIsAdmin] = useState(false);
   const [loading, setLoading] = useState(true);
-  const [view, setView] = useState<'AUTH' | 'HOME' | 'ADMIN' | 'PROFILE_SETUP'>('AUTH');
+  const [view, setView] = useState<'AUTH' | 'HOME' | 'ADMIN' | 'PROFILE_SETUP' | 'GALLERY'>('AUTH');
+  const [projectorToken] = useState(() => getProjectorToken());
   
   // Data State
   const [eventConfig, setEventConfig] = useState<EventConfig>(MOCK_EVENT_CONFIG);
   const [theme, setTheme] = useState<ThemeConfig>(DEFAULT_THEME);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [publicPhotos, setPublicPhotos] = useState<Photo[]>([]);
+  const messagesChannel = useRef<RealtimeChannel | null>(null);
+  const [timeline, setTimeline] = useState<TimelineMoment[]>([]);
+  const timelineChannel = useRef<RealtimeChannel | null>(null);
+  const [hasOlderMessages, setHasOlderMessages] = useState(false);
+  const [loadingOlderMessages, setLoadingOlderMessages] = useState(false);
+  const uploadsDone = useRef(new Set<string>());
   
   // UI State
-  const [inviteCode, setInviteCode] = useState('');
+  // Prefilled when arriving through an invitation's QR link
+  const [inviteCode, setInviteCode] = useState(() => readInviteCodeFromUrl() || '');
   const [authError, setAuthError] = useState('');
+  const [authErrorReason, setAuthErrorReason] = useState<InviteErrorReason | null>(null);
   const [toast, setToast] = useState<{msg: string, type: 'success'|'error'}|null>(null);
   
   // Auth Fallback State
@@ -106,68 +880,86 @@ export default function App() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [magicLinkSent, setMagicLinkSent] = useState(false);
+  // Guest whose code is already bound to an account, asking for a new login link
+  const [returningGuest, setReturningGuest] = useState(false);
+  // Admin invites log in with a password instead of a magic link
+  const [isAdminCode, setIsAdminCode] = useState(false);
+
+  const [phase, setPhase] = useState<EventPhase>('UPCOMING');
+
+  // Admin State (kept here so the active tab survives App re-renders)
+  const [adminTab, setAdminTab] = useState<'OVERVIEW'|'GUESTS'|'RSVP'|'SEATING'|'CATERING'|'PHOTOS'|'SONGS'|'CHAT'|'AGENDA'|'CONFIG'>('OVERVIEW');
+  const [adminPhotoFilter, setAdminPhotoFilter] = useState<Photo['status'] | 'ALL'>('PENDING');
 
   // --- Effects ---
 
   useEffect(() => {
     const initApp = async () => {
       // A. Load Configs
-      if (isMockMode) {
-        setTheme(DEFAULT_THEME);
-        setEventConfig(MOCK_EVENT_CONFIG);
-      } else {
-        try {
-          const [themeRes, eventRes] = await Promise.all([
-            supabase.from('theme_config').select('*').single(),
-            supabase.from('event_config').select('*').single()
-          ]);
-          if (themeRes.data) setTheme(themeRes.data);
-          if (eventRes.data) setEventConfig(eventRes.data);
-        } catch (e) {
-          console.error("Config fetch error:", e);
-        }
-      }
-
-      // B. Check Session
-      if (!isMockMode) {
-        try {
-          const { data } = await supabase.auth.getSession();
-          if (data?.session) {
-             // Mapped to 'users' table
-             const { data: profile } = await supabase.from('users').select('*').eq('user_id', data.session.user.id).single();
-             if (profile) {
-                loginUser(profile);
-             }
-          }
-        } catch (e) {
-          console.warn("Session check error", e);
-        }
+      const [themeRes, eventRes] = await Promise.all([db.config.getTheme(), db.config.getEvent()]);
+      if (themeRes.data) setTheme(themeRes.data);
+      if (eventRes.data) setEventConfig(eventRes.data);
+      if (themeRes.error || eventRes.error) console.error("Config fetch error:", themeRes.error || eventRes.error);
+
+      // B. Check Session (the projector screen never logs in)
+      if (!projectorToken) {
+        const loggedIn = await restoreSession();
+        // C. Invite deep link: validate it right away
+        const linkCode = readInviteCodeFromUrl();
+        if (!loggedIn && linkCode) await handleAuth(linkCode);
+        clearInviteCodeFromUrl();
       }
       setLoading(false);
     };
 
     initApp();
 
-    if (!isMockMode) {
-      const channel = supabase.channel('public:theme_config')
-        .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'theme_config' }, (payload) => {
-          setTheme(payload.new as ThemeConfig);
-        })
-        .subscribe();
-      return () => { supabase.removeChannel(channel); };
-    }
+    const channel = supabase.channel('public:theme_config')
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'theme_config' }, (payload) => {
+        setTheme(payload.new as ThemeConfig);
+      })
+      .subscribe();
+    const eventChannel = supabase.channel('public:event_config')
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'event_config' }, (payload) => {
+        setEventConfig(payload.new as EventConfig);
+      })
+      .subscribe();
+    return () => {
+      supabase.removeChannel(channel);
+      supabase.removeChannel(eventChannel);
+    };
   }, []);
 
   useEffect(() => {
-    const root = document.documentElement;
-    root.style.setProperty('--color-bg', theme.color_bg);
-    root.style.setProperty('--color-card', theme.color_card);
-    root.style.setProperty('--color-text', theme.color_text);
-    root.style.setProperty('--color-primary', theme.color_primary);
-    root.style.setProperty('--color-accent', theme.color_accent);
-    root.style.setProperty('--font-family', theme.font_family);
+    applyThemeVars(theme);
   }, [theme]);
 
+  useEffect(() => {
+    uploadQueue.setVideoLimits(getVideoLimits(eventConfig));
+  }, [eventConfig.video_max_mb, eventConfig.video_max_seconds]);
+
+  // The offline demo lives in localStorage; say so when it stops fitting there
+  useEffect(() => {
+    if (!isMockMode) return;
+    return onMockPersistError(() => showToast('La demo no pudo guardar en este navegador: los últimos cambios se pierden al recargar', 'error'));
+  }, []);
+
+  // Toast once per finished batch; the list itself lives in PhotoUploadCard
+  useEffect(() => uploadQueue.subscribe(items => {
+    const newlyDone = items.filter(i => i.status === 'DONE' && !uploadsDone.current.has(i.id));
+    newlyDone.forEach(i => uploadsDone.current.add(i.id));
+    const busy = items.some(i => i.status !== 'DONE' && i.status !== 'FAILED');
+    if (newlyDone.length > 0 && !busy) showToast('¡Fotos enviadas! El admin las revisará.');
+  }), []);
+
+  // Re-evaluate the event phase periodically; setPhase bails out while it stays the same
+  useEffect(() => {
+    const updatePhase = () => setPhase(getEventPhase(eventConfig, user?.segment));
+    updatePhase();
+    const interval = setInterval(updatePhase, 30000);
+    return () => clearInterval(interval);
+  }, [eventConfig, user?.segment]);
+
   // --- Helpers ---
 
   const showToast = (msg: string, type: 'success' | 'error' = 'success') => {
@@ -188,37 +980,114 @@ export default function App() {
     }
   };
 
+  // Resolves true when a session was found and the user entered the app
+  const restoreSession = async (): Promise<boolean> => {
+      try {
+        const { data } = await supabase.auth.getSession();
+        if (data?.session) {
+           const userId = data.session.user.id;
+           const { data: profile } = await db.users.getById(userId);
+           if (profile) {
+              clearPendingInviteCode();
+              loginUser(profile);
+              return true;
+           }
+           // Back from the magic link but the signup trigger didn't create the
+           // profile: finish it with the code the guest started with
+           const pendingCode = readInviteCodeFromUrl() || getPendingInviteCode();
+           if (pendingCode) {
+              // Guests can't read 'invites': the database says whether the code is still ours to use
+              const { data: check } = await db.invites.validate(pendingCode);
+              if (check?.status === 'VALID') {
+                  clearPendingInviteCode();
+                  await createProfileAndEnter(userId, { code: pendingCode, segment: check.segment!, is_used: false });
+                  return true;
+              }
+           }
+        }
+      } catch (e) {
+        console.warn("Session check error", e);
+      }
+      return false;
+  };
+
+  const refreshPublicPhotos = async () => {
+      const { data } = await db.photos.listApproved();
+      if (data) setPublicPhotos(data);
+  };
+
   const loadUserData = async (userId: string) => {
-      if (isMockMode) {
-        setMessages([
-            { id: 1, user_id: 'system', text: '¡Bienvenid@s a la demo offline!', created_at: new Date().toISOString(), users: { name: 'Bot', user_id: 'bot', segment: UserSegment.ADULT, is_celiac: false, created_at: '' } }
-        ]);
-        return;
+      uploadQueue.resume(userId);
+      const [chatRes, photosRes, timelineRes] = await Promise.all([db.messages.listBefore(null, CHAT_PAGE_SIZE), db.photos.listApproved(), db.timeline.list()]);
+      if (chatRes.data) {
+          setMessages(chatRes.data);
+          setHasOlderMessages(chatRes.data.length === CHAT_PAGE_SIZE);
       }
+      if (photosRes.data) setPublicPhotos(photosRes.data);
+      if (timelineRes.data) setTimeline(timelineRes.data);
+      if (chatRes.error || photosRes.error || timelineRes.error) console.error("User data load error", chatRes.error || photosRes.error || timelineRes.error);
+
+      // Admins marking a moment as started (or editing the agenda) show up live
+      if (timelineChannel.current) supabase.removeChannel(timelineChannel.current);
+      timelineChannel.current = supabase.channel('public:timeline_moments')
+       .on('postgres_changes', { event: '*', schema: 'public', table: 'timeline_moments' }, async () => {
+         const { data } = await db.timeline.list();
+         if (data) setTimeline(data);
+       })
+       .subscribe();
+
+      if (messagesChannel.current) supabase.removeChannel(messagesChannel.current);
+      messagesChannel.current = supabase.channel('public:messages')
+       .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'messages' }, async (payload) => {
+         const { data: sender } = await db.users.getSummary(payload.new.user_id);
+         setMessages(prev => mergeMessages(prev, [{ ...(payload.new as ChatMessage), users: sender }]));
+       })
+       // Reactions and moderation (hide / unhide) arrive as updates
+       .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'messages' }, (payload) => {
+         setMessages(prev => prev.map(m => m.id === payload.new.id ? { ...m, ...(payload.new as ChatMessage), users: m.users } : m));
+       })
+       .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'messages' }, (payload) => {
+         setMessages(prev => prev.filter(m => m.id !== payload.old.id));
+       })
+       .subscribe();
+  };
 
-      try {
-        // Mapped to 'messages' and 'users'
-        const { data: chatData } = await supabase.from('messages').select('*, users(name, avatar_url)').order('created_at', { ascending: false }).limit(50);
-        if (chatData) setMessages(chatData.reverse() as any);
-        
-        // Mapped to 'photos' and 'users'
-        const { data: photosData } = await supabase.from('photos').select('*, users(name)').eq('status', 'APPROVED').order('created_at', { ascending: false });
-        if (photosData) setPublicPhotos(photosData as any);
-
-        supabase.channel('public:messages')
-         .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'messages' }, async (payload) => {
-           const { data: sender } = await supabase.from('users').select('name, avatar_url').eq('user_id', payload.new.user_id).single();
-           setMessages(prev => [...prev, { ...payload.new, users: sender } as any]);
-         })
-         .subscribe();
-      } catch (e) {
-        console.error("User data load error", e);
+  const loadOlderMessages = async () => {
+      if (loadingOlderMessages || !hasOlderMessages) return;
+      setLoadingOlderMessages(true);
+      const { data, error } = await db.messages.listBefore(getCursor(messages), CHAT_PAGE_SIZE);
+      setLoadingOlderMessages(false);
+      if (error) return showToast('No se pudo cargar el historial', 'error');
+      setHasOlderMessages(data.length === CHAT_PAGE_SIZE);
+      setMessages(prev => mergeMessages(prev, data));
+  };
+
+  const sendChatMessage = async (text: string, replyTo: number | null) => {
+      if (!user) return false;
+      const { error } = await db.messages.send(user.user_id, text, replyTo);
+      // The database rejects posts from muted users (an admin may have muted this one after login)
+      if (error?.code === 'FORBIDDEN') {
+          setUser({ ...user, is_muted: true });
+          showToast('Un administrador silenció tu cuenta en el chat', 'error');
+          return false;
+      }
+      if (error) {
+          showToast('No se pudo enviar el mensaje', 'error');
+          return false;
       }
+      return true;
+  };
+
+  const reactToMessage = async (messageId: number, emoji: string) => {
+      if (!user) return;
+      const { error } = await db.messages.toggleReaction(messageId, emoji);
+      if (error) showToast('No se pudo reaccionar', 'error');
   };
 
   // --- Actions ---
   const handleLogout = async () => {
-    if (!isMockMode) await supabase.auth.signOut();
+    uploadQueue.stop();
+    await supabase.auth.signOut();
     setUser(null);
     setIsAdmin(false);
     setInviteCode('');
@@ -226,36 +1095,48 @@ export default function App() {
     setPassword('');
     setView('AUTH');
     setAuthMode('CODE');
+    setReturningGuest(false);
   };
 
   const validateCode = async (code: string): Promise<InviteCodeType | null> => {
-      if (isMockMode) {
-          if (code === 'ADMIN-SETUP') return { code, segment: UserSegment.ADMIN, is_used: false };
-          return { code, segment: UserSegment.YOUNG, is_used: false };
+      // Typos are caught locally and don't count as failed attempts
+      if (getCodeFormat(code) === 'INVALID') throw new InviteCodeError('El código no tiene el formato correcto (Ej: G15-J-7KQM-4PXC)', 'TYPO');
+      if (!hasValidChecksum(code)) throw new InviteCodeError('El código tiene un error de tipeo. Revisalo en tu invitación.', 'TYPO');
+
+      // The database counts wrong codes and enforces the lockout
+      const { data: check, error } = await db.invites.validate(code);
+      if (error) throw error;
+      switch (check?.status) {
+          case 'VALID': return { code, segment: check.segment!, is_used: false };
+          case 'LOCKED': throw new InviteCodeError(`Demasiados intentos fallidos. Probá de nuevo en ${formatLockout((check.retry_after_seconds ?? 0) * 1000)}.`, 'LOCKED');
+          case 'REVOKED': throw new InviteCodeError('Este código fue anulado. Contactá a los organizadores.', 'REVOKED');
+          case 'USED': throw new InviteCodeError('Este código ya fue activado.', 'USED');
+          default: throw new InviteCodeError(`Código inválido. Te quedan ${check?.remaining_attempts ?? 0} intentos.`, 'INVALID');
       }
-      if (code === 'ADMIN-SETUP') return { code, segment: UserSegment.ADMIN, is_used: false };
-
-      const { data: invite } = await supabase.from('invites').select('*').eq('code', code).single();
-      if (!invite) throw new Error('Código inválido');
-      if (invite.is_used) throw new Error('Este código ya fue activado. Ingresá con tu email.');
-      return invite;
   };
 
-  const handleAuth = async () => {
-    if (!inviteCode) return setAuthError('Ingresá tu código');
+  // `codeOverride` comes from a deep link, before `inviteCode` state has settled
+  const handleAuth = async (codeOverride?: string) => {
+    const rawCode = typeof codeOverride === 'string' ? codeOverride : inviteCode;
+    if (!rawCode) return setAuthError('Ingresá tu código');
     setLoading(true);
     setAuthError('');
+    setAuthErrorReason(null);
+    setReturningGuest(false);
     
     try {
-        const code = inviteCode.toUpperCase();
+        const code = normalizeInviteCode(rawCode);
+        setInviteCode(code);
         const invite = await validateCode(code);
         if (!invite) throw new Error('Error validando código');
 
+        setIsAdminCode(invite.segment === UserSegment.ADMIN);
         setAuthMode('EMAIL_REQUIRED'); 
         setLoading(false);
 
     } catch (err: any) {
         setAuthError(err.message || 'Error de conexión');
+        setAuthErrorReason(err instanceof InviteCodeError ? err.reason : null);
         setLoading(false);
     }
   };
@@ -266,11 +1147,23 @@ export default function App() {
       setAuthError('');
 
       try {
-          const code = inviteCode.toUpperCase();
-          const invite = await validateCode(code); 
+          if (returningGuest) {
+              // Existing account only: never create a new one from a used code
+              const { error } = await supabase.auth.signInWithOtp({
+                  email,
+                  options: { emailRedirectTo: window.location.origin, shouldCreateUser: false }
+              });
+              if (error) throw new Error('No encontramos una cuenta con ese email. Usá el mismo con el que activaste la invitación.');
+              setMagicLinkSent(true);
+              setLoading(false);
+              return;
+          }
+
+          const code = normalizeInviteCode(inviteCode);
+          const invite = await validateCode(code);
           if (!invite) throw new Error('Código inválido');
 
-          if (invite.code === 'ADMIN-SETUP') {
+          if (invite.segment === UserSegment.ADMIN) {
                if (!password) {
                    setAuthError('Ingresá una contraseña');
                    setLoading(false); return;
@@ -293,12 +1186,13 @@ export default function App() {
               const { error } = await supabase.auth.signInWithOtp({ 
                   email,
                   options: {
-                      emailRedirectTo: window.location.origin,
+                      // The code survives the round-trip even if the email is opened on another device
+                      emailRedirectTo: buildInviteLink(code),
                       data: { invite_code: code } 
                   }
               });
               if (error) throw error;
-              localStorage.setItem('pending_invite_code', code);
+              savePendingInviteCode(code);
               setMagicLinkSent(true);
               setLoading(false);
           }
@@ -310,30 +1204,40 @@ export default function App() {
 
   const createProfileAndEnter = async (userId: string, invite: InviteCodeType) => {
       const isAdminLogin = invite.segment === UserSegment.ADMIN;
-      
+
+      // Admin rights are granted by the database for admin invites only
+      if (isAdminLogin) {
+          const { error } = await db.invites.claimAdmin(invite.code);
+          if (error) throw new Error('Este código no es de administrador');
+      }
+
+      const { data: existing } = await db.users.getById(userId);
+
+      if (existing) {
+          await loginUser(existing);
+          return setLoading(false);
+      }
+
+      // The code is bound to this account before the profile exists, so a
+      // code someone else just redeemed never gets a second profile
+      let redeemed = invite;
+      if (!isAdminLogin) {
+          const { data, error } = await db.invites.redeem(invite.code);
+          if (error || !data) throw new Error(error?.code === 'CONFLICT' ? 'Este código ya fue activado.' : 'No pudimos activar tu invitación. Probá de nuevo.');
+          redeemed = data;
+      }
+
       const newProfile: UserProfile = {
           user_id: userId,
-          name: isAdminLogin ? 'Administrador' : '', 
-          segment: invite.segment,
+          name: isAdminLogin ? 'Administrador' : '',
+          segment: redeemed.segment,
           is_celiac: false,
+          table_id: redeemed.table_id ?? null,
           created_at: new Date().toISOString()
       };
-
-      let existing: UserProfile | null = null;
-
-      if (!isMockMode) {
-           // Mapped to 'users'
-           const { data } = await supabase.from('users').select('*').eq('user_id', userId).single();
-           existing = data;
-           
-           if (!existing) {
-               await supabase.from('users').insert(newProfile);
-               if (!isAdminLogin && invite.code !== 'ADMIN-SETUP') {
-                   await supabase.from('invites').update({ is_used: true, used_by: userId }).eq('code', invite.code);
-               }
-           }
-      }
-      await loginUser(existing || newProfile);
+      const { error } = await db.users.create(newProfile);
+      if (error) throw new Error('No pudimos crear tu perfil. Probá de nuevo.');
+      await loginUser(newProfile);
       setLoading(false);
   };
 
@@ -341,30 +1245,24 @@ export default function App() {
   const ProfileSetup = () => {
       const [name, setName] = useState('');
       const [isCeliac, setIsCeliac] = useState(false);
+      const [dietary, setDietary] = useState<DietaryProfile>(EMPTY_DIETARY);
       const [saving, setSaving] = useState(false);
 
       const saveProfile = async () => {
           if (!name.trim()) return showToast('Ingresá tu nombre', 'error');
           setSaving(true);
 
-          if (isMockMode) {
-             const updated = { ...user!, name, is_celiac: isCeliac };
-             setUser(updated);
-             setView('HOME');
-             return;
-          }
-
-          // Mapped to 'users'
-          const { error } = await supabase.from('users').update({
+          const { error } = await db.users.update(user!.user_id, {
               name,
-              is_celiac: isCeliac
-          }).eq('user_id', user!.user_id);
+              is_celiac: isCeliac,
+              dietary
+          });
 
           if (error) {
               showToast('Error guardando perfil', 'error');
               setSaving(false);
           } else {
-              setUser({ ...user!, name, is_celiac: isCeliac });
+              setUser({ ...user!, name, is_celiac: isCeliac, dietary });
               setView('HOME');
               loadUserData(user!.user_id);
           }
@@ -382,14 +1280,7 @@ export default function App() {
                           <Input value={name} onChange={(e: any) => setName(e.target.value)} placeholder="Ej: Juan Pérez" className="text-lg" />
                       </div>
                       
-                      <div className="flex items-center gap-4 bg-white/5 p-4 rounded-xl border border-white/10">
-                          <Utensils className="text-orange-400" />
-                          <div className="flex-1">
-                              <span className="font-bold block">Soy Celíaco/a</span>
-                              <span className="text-xs opacity-60">Necesito menú sin TACC</span>
-                          </div>
-                          <input type="checkbox" checked={isCeliac} onChange={(e) => setIsCeliac(e.target.checked)} className="w-6 h-6 accent-[var(--color-primary)]" />
-                      </div>
+                      <DietaryFields isCeliac={isCeliac} dietary={dietary} onChange={(celiac, diet) => { setIsCeliac(celiac); setDietary(diet); }} />
 
                       <Button onClick={saveProfile} disabled={saving} className="w-full py-4 text-lg">
                           {saving ? <Loader2 className="animate-spin" /> : '¡Listo, a festejar!'}
@@ -402,143 +1293,641 @@ export default function App() {
 
   // --- Admin Panel Component ---
   const AdminPanel = () => {
-      const [activeTab, setActiveTab] = useState<'GUESTS'|'PHOTOS'|'CONFIG'>('GUESTS');
-      const [guests, setGuests] = useState<any[]>([]); // Merged users + invites
+      const activeTab = adminTab;
+      const setActiveTab = setAdminTab;
+      const [guests, setGuests] = useState<Guest[]>([]); // Merged users + invites
       const [loadingData, setLoadingData] = useState(false);
       const [photos, setPhotos] = useState<Photo[]>([]);
+      const [invites, setInvites] = useState<InviteCodeType[]>([]);
+      const [inviteSearch, setInviteSearch] = useState('');
+      const [openInvite, setOpenInvite] = useState<string | null>(null);
+      const [inviteEvents, setInviteEvents] = useState<InviteEvent[]>([]);
+      const [rsvpChanges, setRsvpChanges] = useState<RsvpChange[]>([]);
+      const [chatActivity, setChatActivity] = useState<ChatActivityHour[]>([]);
+      const [showExport, setShowExport] = useState(false);
+      const [hiddenExportColumns, setHiddenExportColumns] = useState<Set<string>>(new Set());
+      const [importPlan, setImportPlan] = useState<ImportPlan | null>(null);
+      const [importing, setImporting] = useState(false);
+      const importInputRef = useRef<HTMLInputElement>(null);
+      const [rsvpHistoryFor, setRsvpHistoryFor] = useState<string | null>(null);
+      const [selectedPhotos, setSelectedPhotos] = useState<Set<number>>(new Set());
+      const [focusedPhoto, setFocusedPhoto] = useState<number | null>(null);
+      const [moderationLog, setModerationLog] = useState<PhotoModerationEntry[]>([]);
+      const [tables, setTables] = useState<SeatingTable[]>([]);
+      const [newTableName, setNewTableName] = useState('');
+      const [newTableCapacity, setNewTableCapacity] = useState(10);
+      const [dragUserId, setDragUserId] = useState<string | null>(null);
+      const [songs, setSongs] = useState<SongSuggestion[]>([]);
+      const [chatLog, setChatLog] = useState<ChatMessage[]>([]);
+      const [bannedWordsDraft, setBannedWordsDraft] = useState(parseBannedWords(eventConfig.chat_banned_words).join(', '));
 
       const [genAmount, setGenAmount] = useState(10);
       const [genSegment, setGenSegment] = useState<UserSegment>(UserSegment.YOUNG);
+      const [genPartySize, setGenPartySize] = useState(1);
       const [generating, setGenerating] = useState(false);
 
-      useEffect(() => {
-          if (activeTab === 'GUESTS' && !isMockMode) fetchGuests();
-          if (activeTab === 'PHOTOS' && !isMockMode) fetchPhotos();
-      }, [activeTab]);
+      const [eventDraft, setEventDraft] = useState<EventConfig>(eventConfig);
+      const [contentSegment, setContentSegment] = useState<UserSegment>(GUEST_SEGMENTS[0].id);
+      const [themeDraft, setThemeDraft] = useState<ThemeConfig>(theme);
+      const [configErrors, setConfigErrors] = useState<FieldErrors<EventConfig & ThemeConfig>>({});
+      const [savingConfig, setSavingConfig] = useState(false);
+      const [projectorToken, setProjectorToken] = useState<string | null>(null);
+      const [projectorTokenDraft, setProjectorTokenDraft] = useState<string | null>(null);
+
+      const [momentDraft, setMomentDraft] = useState<NewTimelineMoment>(EMPTY_MOMENT);
+      const [editingMomentId, setEditingMomentId] = useState<number | null>(null);
+
+      // Live preview: paint the draft theme while editing, restore the saved one on leave
+      useEffect(() => {
+          if (activeTab !== 'CONFIG') return;
+          applyThemeVars(themeDraft);
+          return () => applyThemeVars(theme);
+      }, [activeTab, themeDraft]);
+
+      useEffect(() => {
+          if (activeTab === 'OVERVIEW') fetchOverview();
+          if (activeTab === 'GUESTS' || activeTab === 'SEATING' || activeTab === 'CATERING') {
+              fetchGuests();
+              fetchTables();
+          }
+          if (activeTab === 'GUESTS') fetchInvites();
+          if (activeTab === 'RSVP') {
+              fetchGuests();
+              fetchInvites();
+              fetchRsvpChanges();
+          }
+          if (activeTab === 'PHOTOS') fetchModerationLog();
+          if (activeTab === 'SONGS') fetchSongs();
+          if (activeTab === 'AGENDA') fetchTimeline();
+          if (activeTab === 'CONFIG') fetchProjectorToken();
+          if (activeTab === 'CHAT') {
+              fetchChatLog();
+              fetchGuests();
+          }
+      }, [activeTab]);
+
+      // Overview numbers follow registrations, RSVPs, invites and chat live;
+      // bursts of changes are coalesced into one refetch
+      useEffect(() => {
+          if (activeTab !== 'OVERVIEW') return;
+          let timer: ReturnType<typeof setTimeout> | undefined;
+          const refresh = () => {
+              clearTimeout(timer);
+              timer = setTimeout(fetchOverview, 1000);
+          };
+          const channel = supabase.channel('admin:overview');
+          ['users', 'invites', 'companions', 'seating_tables', 'messages'].forEach(table =>
+              channel.on('postgres_changes', { event: '*', schema: 'public', table }, refresh));
+          channel.subscribe();
+          return () => {
+              clearTimeout(timer);
+              supabase.removeChannel(channel);
+          };
+      }, [activeTab]);
+
+      // Photos feed the pending badge on every tab, live through realtime; a
+      // bulk decision changes many rows at once, so refetches are coalesced too
+      useEffect(() => {
+          fetchPhotos();
+          let timer: ReturnType<typeof setTimeout> | undefined;
+          const channel = supabase.channel('admin:photos')
+            .on('postgres_changes', { event: '*', schema: 'public', table: 'photos' }, () => {
+                clearTimeout(timer);
+                timer = setTimeout(fetchPhotos, 1000);
+            })
+            .subscribe();
+          return () => {
+              clearTimeout(timer);
+              supabase.removeChannel(channel);
+          };
+      }, []);
+
+      const fetchInvites = async () => {
+          const { data, error } = await db.invites.list();
+          if (data) setInvites([...data].sort((a, b) => a.code.localeCompare(b.code)));
+          if (error) showToast('Error cargando códigos: ' + error.message, 'error');
+      };
+
+      const fetchOverview = async () => {
+          fetchGuests();
+          fetchTables();
+          fetchInvites();
+          const { data } = await db.messages.activity();
+          if (data) setChatActivity(data);
+      };
+
+      const fetchRsvpChanges = async () => {
+          const { data, error } = await db.rsvp.listChanges();
+          if (error) return showToast('Error cargando historial: ' + error.message, 'error');
+          setRsvpChanges(data);
+      };
+
+      // Admins can answer for a guest, also after the deadline
+      const setGuestRsvp = async (guest: Guest, status: 'CONFIRMED' | 'DECLINED') => {
+          const { error } = await db.rsvp.setForUser(guest.user_id, status);
+          if (error) return showToast('Error actualizando asistencia: ' + error.message, 'error');
+          fetchGuests();
+          fetchRsvpChanges();
+      };
+
+      const copyReminder = (text: string) => {
+          navigator.clipboard.writeText(text);
+          showToast('Recordatorio copiado');
+      };
+
+      const fetchInviteEvents = async (code: string) => {
+          const { data } = await db.invites.listEvents(code);
+          setInviteEvents(data || []);
+      };
+
+      const toggleInviteDetails = (code: string) => {
+          if (openInvite === code) return setOpenInvite(null);
+          setOpenInvite(code);
+          setInviteEvents([]);
+          fetchInviteEvents(code);
+      };
+
+      // Runs an invite lifecycle action, then refreshes the row, its audit trail and the guest list
+      const runInviteAction = async (code: string, action: () => Promise<{ error: { message: string } | null }>) => {
+          const { error } = await action();
+          if (error) return showToast(error.message, 'error');
+          fetchInvites();
+          fetchGuests();
+          if (openInvite === code) fetchInviteEvents(code);
+      };
+
+      const printInviteCards = async (list: InviteCodeType[]) => {
+          if (list.length === 0) return showToast('No hay códigos para imprimir', 'error');
+          try {
+              await printInvitations(list, eventConfig);
+          } catch (e: any) {
+              showToast(e.message || 'Error generando invitaciones', 'error');
+          }
+      };
+
+      const filteredInvites = invites.filter(i => {
+          const q = inviteSearch.trim().toLowerCase();
+          if (!q) return true;
+          const holder = guests.find(g => g.user_id === i.used_by)?.name || '';
+          return [i.code, i.label || '', holder].some(v => v.toLowerCase().includes(q));
+      });
+
+      const guestName = (userId: string) => guests.find(g => g.user_id === userId)?.name || userId;
+
+      const editInviteLabel = (invite: InviteCodeType) => {
+          const label = prompt('Destinatario / etiqueta del código:', invite.label || '');
+          if (label === null) return;
+          runInviteAction(invite.code, () => db.invites.setLabel(invite.code, label.trim()));
+      };
+
+      const unbindInvite = (invite: InviteCodeType) => {
+          const holder = guests.find(g => g.user_id === invite.used_by)?.name || 'la cuenta actual';
+          if (!confirm(`¿Desvincular ${invite.code} de ${holder}? El código podrá volver a activarse con otro email.`)) return;
+          runInviteAction(invite.code, () => db.invites.unbind(invite.code));
+      };
+
+      const reassignInvite = (invite: InviteCodeType, userId: string) => {
+          if (!userId) return;
+          const name = guests.find(g => g.user_id === userId)?.name || userId;
+          if (!confirm(`¿Reasignar ${invite.code} (y sus acompañantes) a ${name}?`)) return;
+          runInviteAction(invite.code, () => db.invites.reassign(invite.code, userId));
+      };
+
+      // Unused sequential codes (G15-J01...) are easy to guess
+      const legacyInvites = invites.filter(i => getCodeFormat(i.code) === 'LEGACY' && i.segment !== UserSegment.ADMIN && !i.is_used && !i.is_revoked);
+
+      const rotateLegacyInvites = async () => {
+          if (!confirm(`¿Reemplazar ${legacyInvites.length} códigos viejos por códigos seguros? Conservan destinatario, cupo y mesa, pero los viejos quedan anulados: vas a tener que reenviar o reimprimir esas invitaciones.`)) return;
+          const buildRotations = () => {
+              const taken = new Set(invites.map(i => i.code));
+              return legacyInvites.map(invite => {
+                  let newCode = generateInviteCode(invite.segment);
+                  while (taken.has(newCode)) newCode = generateInviteCode(invite.segment);
+                  taken.add(newCode);
+                  return { code: invite.code, new_code: newCode };
+              });
+          };
+          // Same (very rare) collision retry as batchGenerate
+          let { data: rotated, error } = await db.invites.rotate(buildRotations());
+          if (error?.code === 'CONFLICT') ({ data: rotated, error } = await db.invites.rotate(buildRotations()));
+          if (error) return showToast('Error rotando códigos: ' + error.message, 'error');
+          showToast(`${rotated} códigos rotados: reenviá esas invitaciones`);
+          fetchInvites();
+      };
+
+      const fetchGuests = async () => {
+          setLoadingData(true);
+          const { data, error } = await db.guests.list();
+          if (data) setGuests(data);
+          if (error) showToast('Error cargando invitados: ' + error.message, 'error');
+          setLoadingData(false);
+      };
+
+      const fetchTables = async () => {
+          const { data } = await db.tables.list();
+          if (data) setTables(data);
+      };
+
+      const fetchPhotos = async () => {
+          const { data } = await db.photos.listAll();
+          if (data) setPhotos(data);
+      };
+
+      const fetchSongs = async () => {
+          const { data } = await db.songs.listAll();
+          if (data) setSongs(data);
+      };
+
+      const batchGenerate = async () => {
+          setGenerating(true);
+
+          const buildBatch = () => {
+              const codes = new Set<string>();
+              while (codes.size < genAmount) codes.add(generateInviteCode(genSegment));
+              return [...codes].map(code => ({ code, segment: genSegment, is_used: false, party_size: genPartySize }));
+          };
+
+          // Random codes can (very rarely) collide with an existing one: retry once with a fresh batch
+          let { error } = await db.invites.createMany(buildBatch());
+          if (error?.code === 'CONFLICT') ({ error } = await db.invites.createMany(buildBatch()));
+
+          if (error) {
+              showToast('Error generando: ' + error.message, 'error');
+          } else {
+              showToast(`Generados ${genAmount} códigos`);
+              fetchGuests();
+              fetchInvites();
+          }
+          setGenerating(false);
+      };
+
+      const assignTable = async (userId: string, tableId: number | null) => {
+          if (!userId) return;
+          const previous = guests.find(g => g.user_id === userId)?.table_id ?? null;
+          setGuests(prev => prev.map(g => g.user_id === userId ? { ...g, table_id: tableId } : g));
+          const { error } = await db.users.update(userId, { table_id: tableId });
+          if (error) {
+              setGuests(prev => prev.map(g => g.user_id === userId ? { ...g, table_id: previous } : g));
+              showToast('Error al actualizar', 'error');
+          }
+      };
+
+      const createTable = async () => {
+          const name = newTableName.trim();
+          if (!name) return showToast('Ingresá un nombre de mesa', 'error');
+          if (tables.some(t => t.name.toLowerCase() === name.toLowerCase())) return showToast('Ya existe una mesa con ese nombre', 'error');
+          if (newTableCapacity < 1) return showToast('La capacidad debe ser mayor a 0', 'error');
+          const { data, error } = await db.tables.create({ name, capacity: newTableCapacity });
+          if (error || !data) return showToast('Error creando mesa', 'error');
+          setTables(prev => [...prev, data]);
+          setNewTableName('');
+      };
+
+      const updateTableCapacity = async (tableId: number, capacity: number) => {
+          if (!capacity || capacity < 1) return;
+          setTables(prev => prev.map(t => t.id === tableId ? { ...t, capacity } : t));
+          const { error } = await db.tables.update(tableId, { capacity });
+          if (error) showToast('Error al actualizar mesa', 'error');
+      };
+
+      const deleteTable = async (table: SeatingTable) => {
+          if (!confirm(`¿Eliminar ${table.name}? Sus invitados quedan sin mesa.`)) return;
+          const { error } = await db.tables.remove(table.id);
+          if (error) return showToast('Error eliminando mesa', 'error');
+          setTables(prev => prev.filter(t => t.id !== table.id));
+          setGuests(prev => prev.map(g => g.table_id === table.id ? { ...g, table_id: null } : g));
+      };
+
+      const dropOn = (tableId: number | null) => (e: React.DragEvent) => {
+          e.preventDefault();
+          const userId = e.dataTransfer.getData('text/plain') || dragUserId;
+          setDragUserId(null);
+          if (userId) assignTable(userId, tableId);
+      };
+
+      const guestColumns: ExportColumn<Guest>[] = [
+          { key: 'name', label: 'Nombre', value: g => g.name },
+          { key: 'code', label: 'Código', value: g => g.invite?.code || 'N/A' },
+          { key: 'label', label: 'Etiqueta', value: g => g.invite?.label || '' },
+          { key: 'segment', label: 'Segmento', value: g => getSegmentDefinition(g.segment).label },
+          { key: 'rsvp', label: 'RSVP', value: g => g.rsvp_status || 'PENDING' },
+          { key: 'celiac', label: 'Celíaco', value: g => g.is_celiac ? 'SI' : 'NO' },
+          { key: 'diet', label: 'Menú', value: g => getRequirements({ is_celiac: g.is_celiac, dietary: { ...EMPTY_DIETARY, ...g.dietary } }).map(r => DIETARY_LABELS[r]).join(', ') || '-' },
+          { key: 'table', label: 'Mesa', value: g => getTableName(g, tables) || '-' },
+          { key: 'capacity', label: 'Cupo', value: g => getPartyHeadcount(g, g.invite, g.companions).capacity },
+          { key: 'confirmed', label: 'Confirmados', value: g => getPartyHeadcount(g, g.invite, g.companions).confirmed },
+          {
+              key: 'group_celiac', label: 'Celíacos Grupo',
+              value: g => (g.rsvp_status === 'CONFIRMED' && g.is_celiac ? 1 : 0) + g.companions.filter(c => c.rsvp_status === 'CONFIRMED' && c.is_celiac).length
+          },
+          { key: 'companions', label: 'Acompañantes', value: g => g.companions.map(c => `${c.name} (${c.rsvp_status})`).join(' / ') || '-' }
+      ];
+
+      const exportGuests = (format: ExportFormat) =>
+          exportColumns('lista_gemma15', format, guestColumns.filter(c => !hiddenExportColumns.has(c.key)), guests);
+
+      const exportCatering = (format: ExportFormat) => {
+          const headers = ['Nombre', 'Invitado de', 'Mesa', ...Object.values(DIETARY_LABELS)];
+          const rows = report.attendees.map(a => {
+              const reqs = getRequirements(a);
+              return [
+                  a.name,
+                  a.holder,
+                  a.table,
+                  ...(Object.keys(DIETARY_LABELS) as DietaryRequirement[]).map(r =>
+                      r === 'allergies' ? (a.dietary.allergies.trim() || '-') : (reqs.includes(r) ? 'SI' : 'NO'))
+              ];
+          });
+          exportRows('catering_gemma15', format, headers, rows);
+      };
+
+      // Dry run: parse and validate, nothing is written until applyImport
+      const previewImport = async (file: File) => {
+          try {
+              const sheet = await readSpreadsheet(file);
+              setImportPlan(planGuestImport(sheet, invites, tables));
+          } catch (e: any) {
+              showToast('No se pudo leer el archivo: ' + (e?.message || e), 'error');
+          }
+      };
+
+      const applyImport = async () => {
+          if (!importPlan || importPlan.valid.length === 0) return;
+          setImporting(true);
+          const newTables = importPlan.newTables.map(name => ({ name, capacity: IMPORT_TABLE_CAPACITY }));
+          let rows = buildImportedInvites(importPlan, invites);
+          let { error } = await db.invites.importGuests(newTables, rows);
+          // A generated code was taken meanwhile: nothing was written, try new ones
+          if (error?.code === 'CONFLICT') {
+              rows = buildImportedInvites(importPlan, invites);
+              ({ error } = await db.invites.importGuests(newTables, rows));
+          }
+          setImporting(false);
+          if (error) return showToast('Error importando: ' + error.message, 'error');
+          setImportPlan(null);
+          fetchInvites();
+          fetchTables();
+          showToast(`${rows.length} códigos importados`);
+      };
+
+      const report = buildCateringReport(guests, tables);
+      const occupancy = getTableOccupancy(tables, guests);
+      const unseated = getUnseatedGuests(tables, guests);
+
+      const guestBadges = (guest: Guest) => (
+          <>
+              <span className="text-[9px] font-bold bg-white/10 px-1.5 py-0.5 rounded">{getSegmentDefinition(guest.segment).short}</span>
+              {seatsForGuest(guest) > 1 && <span className="text-[9px] font-bold bg-[var(--color-accent)]/30 px-1.5 py-0.5 rounded">+{seatsForGuest(guest) - 1}</span>}
+              {[guest, ...guest.companions.filter(c => c.rsvp_status === 'CONFIRMED')].some(p => getRequirements({ is_celiac: p.is_celiac, dietary: { ...EMPTY_DIETARY, ...p.dietary } }).length > 0) && (
+                  <Utensils size={10} className="text-orange-400" />
+              )}
+          </>
+      );
+      const requirements = Object.keys(DIETARY_LABELS) as DietaryRequirement[];
+
+      const fetchModerationLog = async () => {
+          const { data } = await db.photos.listModerationLog();
+          if (data) setModerationLog(data);
+      };
+
+      const visiblePhotos = adminPhotoFilter === 'ALL' ? photos : photos.filter(p => p.status === adminPhotoFilter);
+
+      const moderatePhotos = async (ids: number[], status: Photo['status']) => {
+          const targets = photos.filter(p => ids.includes(p.id));
+          if (targets.length === 0) return;
+          const { error } = await db.photos.moderate(targets.map(p => p.id), status);
+          if (error) return showToast('Error al moderar: ' + error.message, 'error');
+          const now = new Date().toISOString();
+          setPhotos(prev => prev.map(p => ids.includes(p.id) ? { ...p, status, moderated_by: user!.user_id, moderated_at: now } : p));
+          setSelectedPhotos(new Set());
+          fetchModerationLog();
+      };
+
+      // Puts a photo back to the status it had before the logged decision
+      const revertModeration = (entry: PhotoModerationEntry) => moderatePhotos([entry.photo_id], entry.from_status);
+
+      const togglePhotoSelection = (photoId: number) => {
+          setSelectedPhotos(prev => {
+              const next = new Set(prev);
+              if (next.has(photoId)) next.delete(photoId);
+              else next.add(photoId);
+              return next;
+          });
+      };
+
+      // Triage shortcuts: ←/→ move, space selects, A/R/P approve/reject/back to pending
+      // (the selection when there is one, otherwise the focused photo), Esc clears
+      useEffect(() => {
+          if (activeTab !== 'PHOTOS') return;
+          const onKey = (e: KeyboardEvent) => {
+              if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement || e.metaKey || e.ctrlKey) return;
+              const index = visiblePhotos.findIndex(p => p.id === focusedPhoto);
+              const targets = selectedPhotos.size > 0 ? [...selectedPhotos] : focusedPhoto !== null ? [focusedPhoto] : [];
+              const key = e.key.toLowerCase();
+              if (e.key === 'ArrowRight' || e.key === 'ArrowLeft') {
+                  e.preventDefault();
+                  const next = Math.min(visiblePhotos.length - 1, Math.max(0, index + (e.key === 'ArrowRight' ? 1 : -1)));
+                  setFocusedPhoto(visiblePhotos[next]?.id ?? null);
+              } else if (e.key === ' ' && focusedPhoto !== null) {
+                  e.preventDefault();
+                  togglePhotoSelection(focusedPhoto);
+              } else if (key === 'a' || key === 'r' || key === 'p') {
+                  moderatePhotos(targets, key === 'a' ? 'APPROVED' : key === 'r' ? 'REJECTED' : 'PENDING');
+                  // Keep triaging: move on to the next photo in the list
+                  if (selectedPhotos.size === 0 && index >= 0) setFocusedPhoto(visiblePhotos[index + 1]?.id ?? null);
+              } else if (e.key === 'Escape') {
+                  setSelectedPhotos(new Set());
+              }
+          };
+          window.addEventListener('keydown', onKey);
+          return () => window.removeEventListener('keydown', onKey);
+      }, [activeTab, visiblePhotos, focusedPhoto, selectedPhotos]);
+
+      const toggleFeaturedPhoto = async (photo: Photo) => {
+          const { error } = await db.photos.setFeatured(photo.id, !photo.is_featured);
+          if (error) return showToast('Error actualizando destacada', 'error');
+          setPhotos(prev => prev.map(p => p.id === photo.id ? { ...p, is_featured: !photo.is_featured } : p));
+      };
+
+      const updateEventDraft = (field: keyof EventConfig, value: string | number | null) => {
+          setEventDraft(prev => ({ ...prev, [field]: value }));
+          setConfigErrors(prev => ({ ...prev, [field]: undefined }));
+      };
+
+      const updateThemeDraft = (field: keyof ThemeConfig, value: string) => {
+          setThemeDraft(prev => ({ ...prev, [field]: value }));
+          setConfigErrors(prev => ({ ...prev, [field]: undefined }));
+      };
+
+      const fetchProjectorToken = async () => {
+          const { data, error } = await db.config.getProjectorToken();
+          if (error) return showToast('Error cargando el link del proyector', 'error');
+          setProjectorToken(data);
+          setProjectorTokenDraft(data);
+      };
+
+      const saveConfig = async () => {
+          const errors = { ...validateEventConfig(eventDraft), ...validateThemeConfig(themeDraft) };
+          setConfigErrors(errors);
+          if (Object.keys(errors).length > 0) return;
+
+          setSavingConfig(true);
+          try {
+              // An empty deadline means "no deadline"
+              const event = { ...eventDraft, rsvp_deadline: eventDraft.rsvp_deadline || null };
+              const [eventRes, themeRes, projectorRes] = await Promise.all([
+                  db.config.saveEvent(event),
+                  // Guests pick this up through the 'public:theme_config' channel
+                  db.config.saveTheme(themeDraft),
+                  projectorTokenDraft !== projectorToken ? db.config.saveProjectorToken(projectorTokenDraft) : Promise.resolve({ error: null })
+              ]);
+              if (!projectorRes.error) setProjectorToken(projectorTokenDraft);
+              const error = eventRes.error || themeRes.error || projectorRes.error;
+              if (error) return showToast('Error guardando configuración: ' + error.message, 'error');
+              setEventConfig(event);
+              setTheme(themeDraft);
+              showToast('Configuración guardada');
+          } finally {
+              setSavingConfig(false);
+          }
+      };
+
+      const configField = (label: string, field: keyof EventConfig, placeholder = '', multiline = false) => (
+          <div key={field}>
+              <label className="block text-xs uppercase mb-1 opacity-70">{label}</label>
+              {multiline ? (
+                  <textarea
+                    value={String(eventDraft[field] ?? '')}
+                    onChange={(e) => updateEventDraft(field, e.target.value)}
+                    placeholder={placeholder}
+                    rows={3}
+                    className="w-full bg-black/20 border border-white/10 rounded-xl px-4 py-3 text-sm text-[var(--color-text)] placeholder-white/30 focus:outline-none focus:border-[var(--color-primary)] transition-colors"
+                  />
+              ) : (
+                  <Input value={String(eventDraft[field] ?? '')} onChange={(e: any) => updateEventDraft(field, e.target.value)} placeholder={placeholder} className="text-sm py-2" />
+              )}
+              {configErrors[field] && <p className="text-red-400 text-xs font-bold mt-1">{configErrors[field]}</p>}
+          </div>
+      );
+
+      // Empty means "use the default"
+      const numberField = (label: string, field: 'video_max_mb' | 'video_max_seconds', fallback: number) => (
+          <div key={field}>
+              <label className="block text-xs uppercase mb-1 opacity-70">{label}</label>
+              <Input type="number" value={eventDraft[field] ?? ''} onChange={(e: any) => updateEventDraft(field, e.target.value === '' ? null : Number(e.target.value))} placeholder={String(fallback)} className="text-sm py-2" />
+              {configErrors[field] && <p className="text-red-400 text-xs font-bold mt-1">{configErrors[field]}</p>}
+          </div>
+      );
+
+      const statBox = (label: string, value: number, className = '') => (
+          <div key={label} className="bg-white/5 p-4 rounded-2xl border border-white/10">
+              <p className="text-xs uppercase opacity-60">{label}</p>
+              <p className={`text-3xl font-black ${className}`}>{value}</p>
+          </div>
+      );
+
+      const colorField = (label: string, field: 'color_bg' | 'color_card' | 'color_text' | 'color_primary' | 'color_accent') => (
+          <div key={field}>
+              <label className="block text-xs uppercase mb-1 opacity-70">{label}</label>
+              <div className="flex gap-2 items-center">
+                  <input type="color" value={themeDraft[field].length === 7 ? themeDraft[field] : '#000000'} onChange={(e) => updateThemeDraft(field, e.target.value)} className="w-10 h-10 rounded bg-transparent border border-white/10 shrink-0" />
+                  <Input value={themeDraft[field]} onChange={(e: any) => updateThemeDraft(field, e.target.value)} className="text-sm py-2 font-mono" />
+              </div>
+              {configErrors[field] && <p className="text-red-400 text-xs font-bold mt-1">{configErrors[field]}</p>}
+          </div>
+      );
+
+      const fetchChatLog = async () => {
+          const [{ data }, { data: hidden }] = await Promise.all([db.messages.listRecent(200), db.messages.listHiddenTexts()]);
+          const hiddenText = new Map((hidden || []).map(h => [h.message_id, h.text]));
+          if (data) setChatLog([...data].reverse().map(m => hiddenText.has(m.id) ? { ...m, text: hiddenText.get(m.id)! } : m));
+      };
+
+      const hideMessage = async (msg: ChatMessage) => {
+          const reason = prompt('Motivo para ocultar el mensaje:', 'Contenido inapropiado');
+          if (reason === null) return;
+          const { error } = await db.messages.hide(msg.id, reason || 'Sin motivo');
+          if (error) return showToast('Error ocultando mensaje', 'error');
+          setChatLog(prev => prev.map(m => m.id === msg.id ? { ...m, is_hidden: true, hidden_reason: reason || 'Sin motivo' } : m));
+      };
 
-      const fetchGuests = async () => {
-          setLoadingData(true);
-          // Fetch Users (The source of truth)
-          const { data: users } = await supabase.from('users').select('*');
-          // Fetch Invites (To know who used what code)
-          const { data: invites } = await supabase.from('invites').select('*');
-          
-          if (users) {
-              const inviteMap: any = {};
-              invites?.forEach(i => { if(i.used_by) inviteMap[i.used_by] = i; });
-
-              // Combine: Users + their invite info
-              const combined = users.map(u => ({
-                  ...u,
-                  invite: inviteMap[u.user_id] || null,
-                  // rsvp_status is now directly on the user object
-              })).sort((a, b) => (b.created_at || '').localeCompare(a.created_at || ''));
-              
-              setGuests(combined);
-          }
-          setLoadingData(false);
+      const unhideMessage = async (msg: ChatMessage) => {
+          const { error } = await db.messages.unhide(msg.id);
+          if (error) return showToast('Error mostrando mensaje', 'error');
+          setChatLog(prev => prev.map(m => m.id === msg.id ? { ...m, is_hidden: false, hidden_reason: null } : m));
       };
 
-      const fetchPhotos = async () => {
-          const { data } = await supabase.from('photos').select('*, users(name)').order('created_at', { ascending: false });
-          if (data) setPhotos(data as any);
+      const deleteMessage = async (msg: ChatMessage) => {
+          if (!confirm('¿Eliminar definitivamente este mensaje?')) return;
+          const { error } = await db.messages.remove(msg.id);
+          if (error) return showToast('Error eliminando mensaje', 'error');
+          setChatLog(prev => prev.filter(m => m.id !== msg.id));
       };
 
-      const batchGenerate = async () => {
-          setGenerating(true);
-          const prefix = genSegment === UserSegment.YOUNG ? 'G15-J' : 'G15-A';
-          
-          let startNum = 1;
-          
-          if (!isMockMode) {
-              try {
-                  // Robustly get last code
-                  const { data: lastInvites, error } = await supabase.from('invites')
-                      .select('code')
-                      .like('code', `${prefix}%`)
-                      .order('code', { ascending: false })
-                      .limit(1);
-
-                  if (error) {
-                      showToast('Error leyendo invites: ' + error.message, 'error');
-                      setGenerating(false);
-                      return;
-                  }
+      const toggleMute = async (userId: string, muted: boolean) => {
+          const { error } = await db.users.update(userId, { is_muted: muted });
+          if (error) return showToast('Error actualizando usuario', 'error');
+          setGuests(prev => prev.map(g => g.user_id === userId ? { ...g, is_muted: muted } : g));
+      };
 
-                  if (lastInvites && lastInvites.length > 0) {
-                      const numPart = lastInvites[0].code.replace(prefix, '');
-                      startNum = parseInt(numPart) + 1;
-                  }
-              } catch (e) {
-                  console.error("Gen Error", e);
-              }
-          }
+      const saveBannedWords = async () => {
+          const words = bannedWordsDraft.split(',').map(w => w.trim().toLowerCase()).filter(Boolean).join(', ');
+          const updated = { ...eventConfig, chat_banned_words: words };
+          const { error } = await db.config.saveEvent(updated);
+          if (error) return showToast('Error guardando filtro', 'error');
+          setEventConfig(updated);
+          showToast('Filtro actualizado');
+      };
 
-          const newInvites = [];
-          for (let i = 0; i < genAmount; i++) {
-              const currentNum = startNum + i;
-              const paddedNum = currentNum.toString().padStart(2, '0');
-              const code = `${prefix}${paddedNum}`;
-              
-              newInvites.push({
-                  code: code,
-                  segment: genSegment,
-                  is_used: false
-              });
-          }
+      const fetchTimeline = async () => {
+          const { data, error } = await db.timeline.list();
+          if (error) return showToast('Error cargando agenda', 'error');
+          setTimeline(data);
+      };
 
-          if (!isMockMode) {
-              const { error } = await supabase.from('invites').insert(newInvites);
-              if (error) {
-                  showToast('Error generando: ' + error.message, 'error');
-              } else {
-                  showToast(`Generados ${genAmount} códigos (${prefix}...)`);
-                  fetchGuests();
-              }
-          } else {
-             showToast(`Simulado: ${genAmount} códigos`);
-          }
-          setGenerating(false);
+      const saveMoment = async () => {
+          const draft = { ...momentDraft, title: momentDraft.title.trim(), description: momentDraft.description?.trim() || null };
+          if (!draft.title || !isValidTime(draft.time)) return showToast('Completá el nombre y la hora (HH:MM)', 'error');
+          const { error } = editingMomentId === null
+              ? await db.timeline.create(draft)
+              : await db.timeline.update(editingMomentId, draft);
+          if (error) return showToast('Error guardando momento: ' + error.message, 'error');
+          setMomentDraft(EMPTY_MOMENT);
+          setEditingMomentId(null);
+          fetchTimeline();
       };
 
-      const updateTable = async (userId: string, newTable: string) => {
-          if (!userId) return;
-          const { error } = await supabase.from('users').update({ table: newTable }).eq('user_id', userId);
-          if (!error) {
-              showToast('Mesa actualizada');
-              setGuests(prev => prev.map(g => g.user_id === userId ? { ...g, table: newTable } : g));
-          } else {
-              showToast('Error al actualizar', 'error');
-          }
+      const editMoment = (moment: TimelineMoment) => {
+          setEditingMomentId(moment.id);
+          setMomentDraft({ title: moment.title, description: moment.description || '', time: moment.time, segments: moment.segments });
       };
 
-      const downloadCSV = () => {
-          const headers = ['Nombre', 'Código', 'Segmento', 'RSVP', 'Celíaco', 'Mesa'];
-          const rows = guests.map(g => [
-              g.name,
-              g.invite?.code || 'N/A',
-              g.segment,
-              g.rsvp_status || 'PENDING',
-              g.is_celiac ? 'SI' : 'NO',
-              g.table || '-'
-          ]);
-          
-          const csvContent = "data:text/csv;charset=utf-8," 
-              + [headers.join(','), ...rows.map(e => e.join(','))].join("\n");
-          
-          const encodedUri = encodeURI(csvContent);
-          const link = document.createElement("a");
-          link.setAttribute("href", encodedUri);
-          link.setAttribute("download", "lista_gemma15.csv");
-          document.body.appendChild(link);
-          link.click();
+      const deleteMoment = async (moment: TimelineMoment) => {
+          if (!confirm(`¿Eliminar "${moment.title}" de la agenda?`)) return;
+          const { error } = await db.timeline.remove(moment.id);
+          if (error) return showToast('Error eliminando momento', 'error');
+          fetchTimeline();
       };
 
-      const moderatePhoto = async (photoId: number, status: 'APPROVED' | 'REJECTED') => {
-          await supabase.from('photos').update({ status }).eq('id', photoId);
-          fetchPhotos();
+      // Pushes the moment to every guest's "Ahora" through realtime
+      const setMomentStarted = async (moment: TimelineMoment, started: boolean) => {
+          const { error } = await db.timeline.setStarted(moment.id, started ? new Date().toISOString() : null);
+          if (error) return showToast('Error actualizando agenda', 'error');
+          fetchTimeline();
+      };
+
+      const moderateSong = async (songId: number, status: 'APPROVED' | 'REJECTED') => {
+          const { error } = await db.songs.setStatus(songId, status);
+          if (error) showToast('Error al moderar tema', 'error');
+          fetchSongs();
       };
 
+      const currentMoment = getTimelineState(eventConfig, timeline).current;
+      const stats = buildEventStats({ guests, invites, tables, photos, chatActivity });
+      const pendingGuests = guests.filter(g => g.segment !== UserSegment.ADMIN && (!g.rsvp_status || g.rsvp_status === 'PENDING'));
+      const unredeemedInvites = invites.filter(i => !i.is_used && !i.is_revoked && i.segment !== UserSegment.ADMIN);
+      const visibleRsvpChanges = rsvpHistoryFor ? rsvpChanges.filter(c => c.user_id === rsvpHistoryFor) : rsvpChanges;
+
       return (
           <div className="p-4 md:p-8 bg-black/90 min-h-screen text-[var(--color-text)]">
               <div className="flex justify-between items-center mb-8">
@@ -547,14 +1936,88 @@ export default function App() {
               </div>
 
               <div className="flex gap-4 mb-6 border-b border-white/10 pb-2 overflow-x-auto">
+                  <button onClick={() => setActiveTab('OVERVIEW')} className={`pb-2 px-4 font-bold ${activeTab === 'OVERVIEW' ? 'text-[var(--color-primary)] border-b-2 border-[var(--color-primary)]' : 'opacity-50'}`}>Resumen</button>
                   <button onClick={() => setActiveTab('GUESTS')} className={`pb-2 px-4 font-bold ${activeTab === 'GUESTS' ? 'text-[var(--color-primary)] border-b-2 border-[var(--color-primary)]' : 'opacity-50'}`}>Invitados & Mesas</button>
+                  <button onClick={() => setActiveTab('RSVP')} className={`pb-2 px-4 font-bold ${activeTab === 'RSVP' ? 'text-[var(--color-primary)] border-b-2 border-[var(--color-primary)]' : 'opacity-50'}`}>Confirmaciones</button>
+                  <button onClick={() => setActiveTab('SEATING')} className={`pb-2 px-4 font-bold ${activeTab === 'SEATING' ? 'text-[var(--color-primary)] border-b-2 border-[var(--color-primary)]' : 'opacity-50'}`}>Plano de Mesas</button>
+                  <button onClick={() => setActiveTab('CATERING')} className={`pb-2 px-4 font-bold ${activeTab === 'CATERING' ? 'text-[var(--color-primary)] border-b-2 border-[var(--color-primary)]' : 'opacity-50'}`}>Catering</button>
                   <button onClick={() => setActiveTab('PHOTOS')} className={`pb-2 px-4 font-bold ${activeTab === 'PHOTOS' ? 'text-[var(--color-primary)] border-b-2 border-[var(--color-primary)]' : 'opacity-50'}`}>Fotos ({photos.filter(p => p.status === 'PENDING').length})</button>
+                  <button onClick={() => setActiveTab('SONGS')} className={`pb-2 px-4 font-bold ${activeTab === 'SONGS' ? 'text-[var(--color-primary)] border-b-2 border-[var(--color-primary)]' : 'opacity-50'}`}>Temas ({songs.filter(s => s.status === 'PENDING').length})</button>
+                  <button onClick={() => setActiveTab('CHAT')} className={`pb-2 px-4 font-bold ${activeTab === 'CHAT' ? 'text-[var(--color-primary)] border-b-2 border-[var(--color-primary)]' : 'opacity-50'}`}>Chat</button>
+                  <button onClick={() => setActiveTab('AGENDA')} className={`pb-2 px-4 font-bold ${activeTab === 'AGENDA' ? 'text-[var(--color-primary)] border-b-2 border-[var(--color-primary)]' : 'opacity-50'}`}>Agenda</button>
+                  <button onClick={() => setActiveTab('CONFIG')} className={`pb-2 px-4 font-bold ${activeTab === 'CONFIG' ? 'text-[var(--color-primary)] border-b-2 border-[var(--color-primary)]' : 'opacity-50'}`}>Configuración</button>
               </div>
 
+              {activeTab === 'OVERVIEW' && (
+                  <div className="animate-in fade-in space-y-6">
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                          {statBox('Confirmados', stats.attendance.confirmed, 'text-green-400')}
+                          {statBox('No vienen', stats.attendance.declined, 'text-red-400')}
+                          {statBox('Sin responder', stats.attendance.pending, 'text-yellow-300')}
+                          {statBox('Códigos sin usar', stats.invites.unused, 'text-orange-300')}
+                      </div>
+
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                          <div className="bg-white/5 p-6 rounded-2xl border border-white/10">
+                              <h3 className="font-bold text-lg mb-4 flex items-center gap-2"><Users /> Asistencia por segmento</h3>
+                              <table className="w-full text-sm">
+                                  <thead className="text-xs uppercase opacity-50 text-left">
+                                      <tr><th className="pb-2">Segmento</th><th className="pb-2 text-right">Sí</th><th className="pb-2 text-right">No</th><th className="pb-2 text-right">Pendiente</th></tr>
+                                  </thead>
+                                  <tbody>
+                                      {stats.bySegment.map(({ segment, counts }) => (
+                                          <tr key={segment.id} className="border-t border-white/5">
+                                              <td className="py-2 font-bold">{segment.label}</td>
+                                              <td className="py-2 text-right text-green-400">{counts.confirmed}</td>
+                                              <td className="py-2 text-right text-red-400">{counts.declined}</td>
+                                              <td className="py-2 text-right text-yellow-300">{counts.pending}</td>
+                                          </tr>
+                                      ))}
+                                  </tbody>
+                              </table>
+                              <p className="text-xs opacity-50 mt-4">
+                                  Códigos: {stats.invites.used} usados · {stats.invites.unused} sin usar · {stats.invites.revoked} anulados (de {stats.invites.total})
+                              </p>
+                          </div>
+
+                          <div className="bg-white/5 p-6 rounded-2xl border border-white/10 space-y-4">
+                              <h3 className="font-bold text-lg flex items-center gap-2"><Utensils /> Menú y mesas</h3>
+                              <div className="flex flex-wrap gap-2 text-xs">
+                                  {(Object.keys(DIETARY_LABELS) as DietaryRequirement[]).map(req => (
+                                      <span key={req} className="bg-white/10 px-3 py-1 rounded-full">{DIETARY_LABELS[req]}: <span className="font-bold">{stats.diet[req]}</span></span>
+                                  ))}
+                              </div>
+                              <div className="text-sm">
+                                  <div className="flex justify-between mb-1"><span>Sentados</span><span className="font-bold">{stats.seating.seated} / {stats.seating.seated + stats.seating.unseated}</span></div>
+                                  <div className="h-2 bg-white/10 rounded-full overflow-hidden">
+                                      <div className="h-full bg-green-500" style={{ width: `${(stats.seating.seated / Math.max(1, stats.seating.seated + stats.seating.unseated)) * 100}%` }} />
+                                  </div>
+                              </div>
+                              <div className="flex flex-wrap gap-2 text-xs pt-2 border-t border-white/10">
+                                  <ImageIcon size={14} className="opacity-60" />
+                                  {(Object.keys(stats.photos) as Photo['status'][]).map(status => (
+                                      <span key={status} className="bg-white/10 px-3 py-1 rounded-full">{PHOTO_STATUS_LABELS[status]}: <span className="font-bold">{stats.photos[status]}</span></span>
+                                  ))}
+                              </div>
+                          </div>
+
+                          <div className="bg-white/5 p-6 rounded-2xl border border-white/10">
+                              <h3 className="font-bold text-lg mb-4 flex items-center gap-2"><MessageCircle /> Actividad del chat</h3>
+                              <ActivityChart buckets={stats.chatActivity} emptyText="Todavía no hay mensajes." />
+                          </div>
+
+                          <div className="bg-white/5 p-6 rounded-2xl border border-white/10">
+                              <h3 className="font-bold text-lg mb-4 flex items-center gap-2"><CheckCircle /> Registros (acumulado)</h3>
+                              <ActivityChart buckets={stats.redemptions} emptyText="Nadie usó su código todavía." />
+                          </div>
+                      </div>
+                  </div>
+              )}
+
               {activeTab === 'GUESTS' && (
                   <div className="animate-in fade-in">
                       <div className="bg-white/5 p-6 rounded-2xl mb-8 border border-white/10">
-                          <h3 className="font-bold text-lg mb-4 flex items-center gap-2"><Plus /> Generar Códigos (Incremental)</h3>
+                          <h3 className="font-bold text-lg mb-4 flex items-center gap-2"><Plus /> Generar Códigos</h3>
                           <div className="flex flex-wrap gap-4 items-end">
                                <div>
                                    <label className="block text-xs uppercase mb-1 opacity-70">Cantidad</label>
@@ -567,8 +2030,13 @@ export default function App() {
                                <div>
                                    <label className="block text-xs uppercase mb-1 opacity-70">Segmento</label>
                                    <select value={genSegment} onChange={(e) => setGenSegment(e.target.value as any)} className="bg-black/40 p-3 rounded-xl border border-white/10">
-                                       <option value="YOUNG">Jóvenes (G15-J..)</option>
-                                       <option value="ADULT">Adultos (G15-A..)</option>
+                                       {GUEST_SEGMENTS.map(s => <option key={s.id} value={s.id}>{s.label} (G15-{s.codeLetter}..)</option>)}
+                                   </select>
+                               </div>
+                               <div>
+                                   <label className="block text-xs uppercase mb-1 opacity-70">Personas</label>
+                                   <select value={genPartySize} onChange={(e) => setGenPartySize(Number(e.target.value))} className="bg-black/40 p-3 rounded-xl border border-white/10">
+                                       {[1, 2, 3, 4, 5, 6].map(n => <option key={n} value={n}>{n === 1 ? 'Individual' : `Grupo de ${n}`}</option>)}
                                    </select>
                                </div>
                                <Button onClick={batchGenerate} disabled={generating} variant="primary">
@@ -578,12 +2046,89 @@ export default function App() {
                       </div>
 
                       <div className="flex justify-between items-center mb-4">
-                          <div className="text-sm font-bold opacity-70">
-                              Total Registrados: {guests.length}
+                          <div className="text-sm font-bold opacity-70 flex gap-4">
+                              <span>Total Registrados: {guests.length}</span>
+                              <span className="text-green-400">Personas Confirmadas: {guests.reduce((sum, g) => sum + getPartyHeadcount(g, g.invite, g.companions).confirmed, 0)}</span>
+                          </div>
+                          <div className="flex gap-2">
+                              <input ref={importInputRef} type="file" accept=".csv,.xlsx" className="hidden" onChange={(e) => { const file = e.target.files?.[0]; e.target.value = ''; if (file) previewImport(file); }} />
+                              <Button onClick={() => importInputRef.current?.click()} variant="ghost" icon={Upload} className="text-xs">Importar lista</Button>
+                              <Button onClick={() => setShowExport(!showExport)} variant="secondary" icon={Download} className="text-xs">Exportar</Button>
                           </div>
-                          <Button onClick={downloadCSV} variant="secondary" icon={Download} className="text-xs">Exportar Excel</Button>
                       </div>
 
+                      {showExport && (
+                          <div className="bg-white/5 p-4 rounded-2xl mb-4 border border-white/10">
+                              <p className="text-xs uppercase opacity-70 mb-2">Columnas</p>
+                              <div className="flex flex-wrap gap-x-4 gap-y-2 text-sm mb-4">
+                                  {guestColumns.map(c => (
+                                      <label key={c.key} className="flex items-center gap-1">
+                                          <input
+                                            type="checkbox"
+                                            checked={!hiddenExportColumns.has(c.key)}
+                                            onChange={(e) => {
+                                                const next = new Set(hiddenExportColumns);
+                                                if (e.target.checked) next.delete(c.key); else next.add(c.key);
+                                                setHiddenExportColumns(next);
+                                            }}
+                                            className="accent-[var(--color-primary)]"
+                                          />
+                                          {c.label}
+                                      </label>
+                                  ))}
+                              </div>
+                              <div className="flex gap-2">
+                                  <Button onClick={() => exportGuests('csv')} disabled={hiddenExportColumns.size === guestColumns.length} variant="secondary" className="text-xs">CSV</Button>
+                                  <Button onClick={() => exportGuests('xlsx')} disabled={hiddenExportColumns.size === guestColumns.length} variant="secondary" className="text-xs">Excel (.xlsx)</Button>
+                              </div>
+                          </div>
+                      )}
+
+                      {importPlan && (
+                          <div className="bg-white/5 p-4 rounded-2xl mb-4 border border-white/10">
+                              <div className="flex justify-between items-center mb-3">
+                                  <h3 className="font-bold flex items-center gap-2"><Upload size={18} /> Vista previa de la importación</h3>
+                                  <button onClick={() => setImportPlan(null)} className="opacity-50 hover:opacity-100"><X size={16} /></button>
+                              </div>
+                              {importPlan.missingColumns.length > 0 ? (
+                                  <p className="text-sm text-red-400">
+                                      Faltan las columnas {importPlan.missingColumns.join(', ')}. La primera fila debe tener los títulos: Nombre, Segmento y opcionalmente Personas, Mesa y Código.
+                                  </p>
+                              ) : (
+                                  <>
+                                      <p className="text-sm mb-3">
+                                          <span className="text-green-400 font-bold">{importPlan.valid.length} filas válidas</span>
+                                          {importPlan.rows.length > importPlan.valid.length && <span className="text-red-400 font-bold"> · {importPlan.rows.length - importPlan.valid.length} con errores (se omiten)</span>}
+                                          {importPlan.newTables.length > 0 && <span className="opacity-70"> · Mesas nuevas: {importPlan.newTables.join(', ')}</span>}
+                                      </p>
+                                      <div className="max-h-72 overflow-y-auto rounded-xl border border-white/10 mb-3">
+                                          <table className="w-full text-xs">
+                                              <thead className="bg-white/5 text-left uppercase opacity-70">
+                                                  <tr><th className="p-2">Fila</th><th className="p-2">Nombre</th><th className="p-2">Segmento</th><th className="p-2">Personas</th><th className="p-2">Mesa</th><th className="p-2">Código</th><th className="p-2">Errores</th></tr>
+                                              </thead>
+                                              <tbody>
+                                                  {importPlan.rows.map(row => (
+                                                      <tr key={row.line} className={`border-t border-white/5 ${row.errors.length ? 'bg-red-500/10' : ''}`}>
+                                                          <td className="p-2 opacity-50">{row.line}</td>
+                                                          <td className="p-2">{row.label}</td>
+                                                          <td className="p-2">{row.segment ? getSegmentDefinition(row.segment).short : '-'}</td>
+                                                          <td className="p-2">{row.partySize}</td>
+                                                          <td className="p-2">{row.tableName || '-'}{row.tableName && row.tableId === null && <span className="opacity-50"> (nueva)</span>}</td>
+                                                          <td className="p-2 font-mono">{row.code || <span className="opacity-50">automático</span>}</td>
+                                                          <td className="p-2 text-red-300">{row.errors.join(' · ')}</td>
+                                                      </tr>
+                                                  ))}
+                                              </tbody>
+                                          </table>
+                                      </div>
+                                      <Button onClick={applyImport} disabled={importing || importPlan.valid.length === 0} variant="primary" className="text-sm">
+                                          {importing ? <Loader2 className="animate-spin" /> : `Crear ${importPlan.valid.length} códigos`}
+                                      </Button>
+                                  </>
+                              )}
+                          </div>
+                      )}
+
                       <div className="bg-white/5 rounded-2xl overflow-hidden border border-white/10">
                           <div className="grid grid-cols-12 gap-2 p-4 bg-white/5 font-bold text-xs uppercase opacity-70">
                               <div className="col-span-3">Nombre</div>
@@ -596,62 +2141,692 @@ export default function App() {
                            guests.map(guest => (
                               <div key={guest.user_id} className="grid grid-cols-12 gap-2 p-4 border-b border-white/5 items-center hover:bg-white/5 text-sm">
                                   <div className="col-span-3 font-bold truncate">{guest.name}</div>
-                                  <div className="col-span-2 font-mono text-[var(--color-primary)] text-xs">{guest.invite?.code || 'ADMIN'}</div>
-                                  <div className="col-span-1 opacity-70 text-[10px]">{guest.segment === 'YOUNG' ? 'JOV' : 'ADU'}</div>
+                                  <div className="col-span-2 font-mono text-[var(--color-primary)] text-xs">{guest.invite?.code || (guest.segment === UserSegment.ADMIN ? 'ADMIN' : 'Sin código')}</div>
+                                  <div className="col-span-1 opacity-70 text-[10px]">{getSegmentDefinition(guest.segment).short}</div>
                                   <div className="col-span-2">
                                       {guest.rsvp_status === 'CONFIRMED' && <span className="text-green-400 font-bold text-[10px]">SI</span>}
                                       {guest.rsvp_status === 'DECLINED' && <span className="text-red-400 font-bold text-[10px]">NO</span>}
                                       {(!guest.rsvp_status || guest.rsvp_status === 'PENDING') && <span className="opacity-30 text-[10px]">-</span>}
+                                      {getPartySize(guest.invite) > 1 && (
+                                          <span className="ml-2 text-[10px] opacity-70" title={guest.companions.map(c => `${c.name}: ${c.rsvp_status}`).join('\n')}>
+                                              <Users size={10} className="inline mr-1" />{getPartyHeadcount(guest, guest.invite, guest.companions).confirmed}/{getPartySize(guest.invite)}
+                                          </span>
+                                      )}
                                   </div>
                                   <div className="col-span-4">
-                                      <input 
-                                        type="text" 
-                                        placeholder="Mesa..."
-                                        defaultValue={guest.table || ''}
-                                        onBlur={(e) => updateTable(guest.user_id, e.target.value)}
+                                      <select
+                                        value={guest.table_id ?? ''}
+                                        onChange={(e) => assignTable(guest.user_id, e.target.value ? Number(e.target.value) : null)}
                                         className="w-full bg-black/30 border border-white/10 rounded px-2 py-1 text-xs focus:border-[var(--color-primary)] outline-none"
-                                      />
+                                      >
+                                          <option value="">Sin mesa</option>
+                                          {tables.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                                      </select>
                                   </div>
                               </div>
                            ))}
                       </div>
+
+                      <div className="flex flex-wrap justify-between items-center gap-4 mt-10 mb-4">
+                          <h3 className="font-bold text-lg flex items-center gap-2"><Lock size={18} /> Códigos ({invites.length})</h3>
+                          <div className="flex gap-2 items-center">
+                              <Input value={inviteSearch} onChange={(e: any) => setInviteSearch(e.target.value)} placeholder="Buscar código o destinatario..." className="text-sm py-2 max-w-xs" />
+                              {/* Prints what the search shows, minus revoked ones */}
+                              <Button onClick={() => printInviteCards(filteredInvites.filter(i => !i.is_revoked))} variant="secondary" icon={Printer} className="text-xs shrink-0">Imprimir invitaciones</Button>
+                              {legacyInvites.length > 0 && <Button onClick={rotateLegacyInvites} variant="ghost" icon={RefreshCw} className="text-xs shrink-0 text-yellow-300">Rotar {legacyInvites.length} códigos viejos</Button>}
+                          </div>
+                      </div>
+                      <div className="bg-white/5 rounded-2xl overflow-hidden border border-white/10">
+                          <div className="grid grid-cols-12 gap-2 p-4 bg-white/5 font-bold text-xs uppercase opacity-70">
+                              <div className="col-span-3">Código</div>
+                              <div className="col-span-3">Destinatario</div>
+                              <div className="col-span-3">Estado</div>
+                              <div className="col-span-3 text-right">Acciones</div>
+                          </div>
+                          {filteredInvites.map(invite => {
+                              const holder = guests.find(g => g.user_id === invite.used_by);
+                              const reassignable = guests.filter(g => !g.invite && g.segment !== UserSegment.ADMIN && g.user_id !== invite.used_by);
+                              return (
+                                  <div key={invite.code} className="border-b border-white/5">
+                                      <div className="grid grid-cols-12 gap-2 p-4 items-center hover:bg-white/5 text-sm">
+                                          <button onClick={() => toggleInviteDetails(invite.code)} className="col-span-3 font-mono text-[var(--color-primary)] text-xs text-left flex items-center gap-1">
+                                              {openInvite === invite.code ? <ChevronLeft size={12} className="-rotate-90" /> : <ChevronRight size={12} />}
+                                              {invite.code}
+                                          </button>
+                                          <button onClick={() => editInviteLabel(invite)} className="col-span-3 text-left truncate text-xs hover:text-[var(--color-primary)]" title="Editar destinatario">
+                                              {invite.label || <span className="opacity-30">+ Destinatario</span>}
+                                          </button>
+                                          <div className="col-span-3 text-xs">
+                                              {invite.is_revoked ? <span className="text-red-400 font-bold">Anulado</span>
+                                                : invite.is_used ? <span className="text-green-400">Usado por <span className="font-bold">{holder?.name || 'cuenta desconocida'}</span></span>
+                                                : <span className="opacity-60">Disponible</span>}
+                                              <span className="opacity-40 ml-1">· {getSegmentDefinition(invite.segment).short}{getPartySize(invite) > 1 ? ` · ${getPartySize(invite)}p` : ''}</span>
+                                          </div>
+                                          <div className="col-span-3 flex justify-end gap-2 text-xs">
+                                              {!invite.is_used && !invite.is_revoked && <a href={buildWhatsAppShareUrl(invite.code, invite.label)} target="_blank" rel="noreferrer" className="text-green-400 hover:underline">WhatsApp</a>}
+                                              {!invite.is_used && !invite.is_revoked && <button onClick={() => runInviteAction(invite.code, () => db.invites.revoke(invite.code))} className="text-red-400 hover:underline">Anular</button>}
+                                              {invite.is_revoked && <button onClick={() => runInviteAction(invite.code, () => db.invites.restore(invite.code))} className="hover:underline">Restaurar</button>}
+                                              {invite.is_used && <button onClick={() => unbindInvite(invite)} className="text-yellow-300 hover:underline">Desvincular</button>}
+                                              {!invite.is_revoked && reassignable.length > 0 && (
+                                                  <select value="" onChange={(e) => reassignInvite(invite, e.target.value)} className="bg-black/30 border border-white/10 rounded px-1 text-xs max-w-[110px]">
+                                                      <option value="">Reasignar...</option>
+                                                      {reassignable.map(g => <option key={g.user_id} value={g.user_id}>{g.name || g.user_id}</option>)}
+                                                  </select>
+                                              )}
+                                          </div>
+                                      </div>
+                                      {openInvite === invite.code && (
+                                          <div className="px-8 pb-4 space-y-1 text-xs">
+                                              {inviteEvents.length === 0 && <p className="opacity-40">Sin movimientos registrados.</p>}
+                                              {inviteEvents.map(ev => (
+                                                  <p key={ev.id} className="opacity-70">
+                                                      <span className="opacity-50">{new Date(ev.created_at).toLocaleString('es-AR')}</span> · <span className="font-bold">{INVITE_ACTION_LABELS[ev.action]}</span>
+                                                      {ev.action === 'UNBOUND' && (ev.previous_user_id || ev.details) && <> · {guestName(ev.previous_user_id || ev.details!)}</>}
+                                                      {ev.action === 'REASSIGNED' && ev.details && <> · {ev.previous_user_id && <>{guestName(ev.previous_user_id)} → </>}{guestName(ev.details)}</>}
+                                                      {ev.action !== 'UNBOUND' && ev.action !== 'REASSIGNED' && ev.details && <> · {ev.details}</>}
+                                                      <span className="opacity-50"> por {ev.users?.name || 'Admin'}</span>
+                                                  </p>
+                                              ))}
+                                          </div>
+                                      )}
+                                  </div>
+                              );
+                          })}
+                      </div>
+                  </div>
+              )}
+
+              {activeTab === 'SEATING' && (
+                  <div className="animate-in fade-in space-y-6">
+                      <div className="bg-white/5 p-6 rounded-2xl border border-white/10">
+                          <h3 className="font-bold text-lg mb-4 flex items-center gap-2"><Plus /> Nueva Mesa</h3>
+                          <div className="flex flex-wrap gap-4 items-end">
+                              <div className="flex-1 min-w-[160px]">
+                                  <label className="block text-xs uppercase mb-1 opacity-70">Nombre</label>
+                                  <Input value={newTableName} onChange={(e: any) => setNewTableName(e.target.value)} placeholder="Ej: Mesa 3" className="py-2" />
+                              </div>
+                              <div>
+                                  <label className="block text-xs uppercase mb-1 opacity-70">Capacidad</label>
+                                  <Input type="number" value={newTableCapacity} onChange={(e: any) => setNewTableCapacity(Number(e.target.value))} className="py-2 w-24" />
+                              </div>
+                              <Button onClick={createTable} variant="primary">Crear</Button>
+                          </div>
+                      </div>
+
+                      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                          <div
+                            onDragOver={(e) => e.preventDefault()}
+                            onDrop={dropOn(null)}
+                            className="bg-white/5 p-4 rounded-2xl border border-dashed border-white/20 md:row-span-2"
+                          >
+                              <h4 className="font-bold text-sm mb-3">Sin Mesa ({unseated.reduce((sum, g) => sum + seatsForGuest(g), 0)})</h4>
+                              {unseated.length === 0 && <p className="text-xs opacity-50">Todos los confirmados tienen mesa.</p>}
+                              <div className="space-y-2">
+                                  {unseated.map(g => (
+                                      <div key={g.user_id} draggable onDragStart={(e) => { e.dataTransfer.setData('text/plain', g.user_id); setDragUserId(g.user_id); }} className="flex items-center gap-2 bg-black/30 p-2 rounded-lg text-xs cursor-grab">
+                                          <span className="flex-1 truncate font-bold">{g.name}</span>
+                                          {guestBadges(g)}
+                                      </div>
+                                  ))}
+                              </div>
+                          </div>
+
+                          {occupancy.map(({ table, guests: seated, seats }) => (
+                              <div
+                                key={table.id}
+                                onDragOver={(e) => e.preventDefault()}
+                                onDrop={dropOn(table.id)}
+                                className={`bg-white/5 p-4 rounded-2xl border ${seats > table.capacity ? 'border-red-500' : 'border-white/10'}`}
+                              >
+                                  <div className="flex justify-between items-center mb-3">
+                                      <h4 className="font-bold">{table.name}</h4>
+                                      <button onClick={() => deleteTable(table)} className="opacity-40 hover:opacity-100"><Trash2 size={14} /></button>
+                                  </div>
+                                  <div className="flex items-center gap-2 text-xs mb-3">
+                                      <span className={seats > table.capacity ? 'text-red-400 font-bold' : seats === table.capacity ? 'text-yellow-400 font-bold' : 'opacity-70'}>{seats}/</span>
+                                      <input type="number" defaultValue={table.capacity} onBlur={(e) => updateTableCapacity(table.id, Number(e.target.value))} className="w-12 bg-black/30 border border-white/10 rounded px-1 text-xs" />
+                                      {seats > table.capacity && <span className="text-red-400 flex items-center gap-1"><AlertTriangle size={12} /> Excedida</span>}
+                                  </div>
+                                  <div className="space-y-2 min-h-[40px]">
+                                      {seated.map(g => (
+                                          <div key={g.user_id} draggable onDragStart={(e) => { e.dataTransfer.setData('text/plain', g.user_id); setDragUserId(g.user_id); }} className="flex items-center gap-2 bg-black/30 p-2 rounded-lg text-xs cursor-grab">
+                                              <span className={`flex-1 truncate font-bold ${seatsForGuest(g) === 0 ? 'opacity-40' : ''}`}>{g.name}</span>
+                                              {guestBadges(g)}
+                                          </div>
+                                      ))}
+                                  </div>
+                              </div>
+                          ))}
+                      </div>
+                  </div>
+              )}
+
+              {activeTab === 'CATERING' && (
+                  <div className="animate-in fade-in space-y-6">
+                      <div className="flex justify-between items-center">
+                          <div className="text-sm font-bold opacity-70">Confirmados: {report.totals.total}</div>
+                          <div className="flex gap-2">
+                              <Button onClick={() => exportCatering('csv')} variant="secondary" icon={Download} className="text-xs">CSV</Button>
+                              <Button onClick={() => exportCatering('xlsx')} variant="secondary" icon={Download} className="text-xs">Excel</Button>
+                          </div>
+                      </div>
+                      {loadingData ? <div className="p-8 text-center"><Loader2 className="animate-spin mx-auto"/></div> : (
+                          <>
+                              <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+                                  {requirements.map(r => (
+                                      <div key={r} className="bg-white/5 p-4 rounded-2xl border border-white/10 text-center">
+                                          <div className="text-3xl font-black text-[var(--color-primary)]">{report.totals[r]}</div>
+                                          <div className="text-xs uppercase opacity-70">{DIETARY_LABELS[r]}</div>
+                                      </div>
+                                  ))}
+                              </div>
+
+                              <div className="bg-white/5 rounded-2xl overflow-x-auto border border-white/10">
+                                  <table className="w-full text-sm">
+                                      <thead className="bg-white/5 text-xs uppercase opacity-70">
+                                          <tr>
+                                              <th className="p-3 text-left">Mesa</th>
+                                              <th className="p-3">Total</th>
+                                              {requirements.map(r => <th key={r} className="p-3">{DIETARY_LABELS[r]}</th>)}
+                                          </tr>
+                                      </thead>
+                                      <tbody>
+                                          {report.byTable.map(({ table, counts }) => (
+                                              <tr key={table} className="border-t border-white/5">
+                                                  <td className={`p-3 font-bold ${table === NO_TABLE ? 'opacity-50' : ''}`}>{table}</td>
+                                                  <td className="p-3 text-center">{counts.total}</td>
+                                                  {requirements.map(r => <td key={r} className={`p-3 text-center ${counts[r] ? 'text-orange-300 font-bold' : 'opacity-30'}`}>{counts[r]}</td>)}
+                                              </tr>
+                                          ))}
+                                      </tbody>
+                                  </table>
+                              </div>
+
+                              {report.allergies.length > 0 && (
+                                  <div className="bg-white/5 p-6 rounded-2xl border border-white/10">
+                                      <h3 className="font-bold text-lg mb-4 flex items-center gap-2"><AlertTriangle className="text-orange-400" /> Alergias</h3>
+                                      <ul className="space-y-1 text-sm">
+                                          {report.allergies.map((a, i) => (
+                                              <li key={i}><span className="font-bold">{a.name}</span> <span className="opacity-50">({a.table})</span>: {a.dietary.allergies}</li>
+                                          ))}
+                                      </ul>
+                                  </div>
+                              )}
+                          </>
+                      )}
                   </div>
               )}
 
               {activeTab === 'PHOTOS' && (
-                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 animate-in fade-in">
-                      {photos.length === 0 && <p className="opacity-50 col-span-full text-center py-10">No hay fotos para moderar.</p>}
-                      {photos.map(photo => (
-                          <div key={photo.id} className="relative group rounded-xl overflow-hidden aspect-square bg-black">
-                              <img src={isMockMode ? 'https://via.placeholder.com/300' : `${(import.meta as any).env.VITE_SUPABASE_URL}/storage/v1/object/public/user_photos/${photo.storage_path}`} className="object-cover w-full h-full" />
-                              <div className="absolute inset-0 bg-gradient-to-t from-black via-transparent to-transparent opacity-90 flex flex-col justify-end p-2">
-                                  <p className="text-xs font-bold mb-2">{photo.users?.name}</p>
-                                  <div className="flex gap-2">
-                                      {photo.status === 'PENDING' && (
+                  <div className="animate-in fade-in">
+                      <div className="flex flex-wrap items-center gap-2 mb-4">
+                          {(['PENDING', 'APPROVED', 'REJECTED', 'ALL'] as const).map(status => (
+                              <button
+                                key={status}
+                                onClick={() => { setAdminPhotoFilter(status); setSelectedPhotos(new Set()); setFocusedPhoto(null); }}
+                                className={`px-3 py-1 rounded-full text-xs font-bold ${adminPhotoFilter === status ? 'bg-[var(--color-primary)] text-white' : 'bg-white/10 opacity-70'}`}
+                              >
+                                  {PHOTO_STATUS_LABELS[status]} ({status === 'ALL' ? photos.length : photos.filter(p => p.status === status).length})
+                              </button>
+                          ))}
+                          <div className="ml-auto flex items-center gap-2 text-xs">
+                              {selectedPhotos.size > 0 ? (
+                                  <>
+                                      <span className="font-bold">{selectedPhotos.size} seleccionadas</span>
+                                      <Button onClick={() => moderatePhotos([...selectedPhotos], 'APPROVED')} className="py-1 px-3 text-xs bg-green-600" icon={Check}>Aprobar</Button>
+                                      <Button onClick={() => moderatePhotos([...selectedPhotos], 'REJECTED')} className="py-1 px-3 text-xs bg-red-600" icon={X}>Rechazar</Button>
+                                      <Button onClick={() => setSelectedPhotos(new Set())} variant="ghost" className="py-1 px-3 text-xs">Cancelar</Button>
+                                  </>
+                              ) : (
+                                  visiblePhotos.length > 0 && <Button onClick={() => setSelectedPhotos(new Set(visiblePhotos.map(p => p.id)))} variant="ghost" className="py-1 px-3 text-xs">Seleccionar todas</Button>
+                              )}
+                          </div>
+                      </div>
+                      <p className="text-[10px] opacity-40 mb-4">Atajos: ←/→ moverse · Espacio seleccionar · A aprobar · R rechazar · P volver a pendiente · Esc limpiar selección</p>
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                          {visiblePhotos.length === 0 && <p className="opacity-50 col-span-full text-center py-10">No hay fotos ni videos en esta vista.</p>}
+                          {visiblePhotos.map(photo => (
+                              <div
+                                key={photo.id}
+                                onClick={() => setFocusedPhoto(photo.id)}
+                                className={`relative group rounded-xl overflow-hidden aspect-square bg-black ring-offset-2 ring-offset-black ${selectedPhotos.has(photo.id) ? 'ring-4 ring-[var(--color-primary)]' : focusedPhoto === photo.id ? 'ring-2 ring-white/60' : ''}`}
+                              >
+                                  {isVideo(photo) ? (
+                                      <video src={photoUrl(photo.storage_path)} poster={photo.thumbnail_path ? photoUrl(photo.thumbnail_path) : undefined} controls playsInline preload="none" className="object-cover w-full h-full" />
+                                  ) : (
+                                      <img src={thumbUrl(photo)} loading="lazy" className="object-cover w-full h-full" />
+                                  )}
+                                  {/* Videos keep their playback controls at the bottom, so their actions go on top */}
+                                  <div className={`absolute inset-0 opacity-90 flex flex-col p-2 pointer-events-none [&_button]:pointer-events-auto ${isVideo(photo) ? 'bg-gradient-to-b from-black via-transparent to-transparent justify-start' : 'bg-gradient-to-t from-black via-transparent to-transparent justify-end'}`}>
+                                      <div className="flex items-center gap-2 mb-2">
+                                          <button onClick={(e) => { e.stopPropagation(); togglePhotoSelection(photo.id); }} className={`w-4 h-4 rounded border shrink-0 flex items-center justify-center ${selectedPhotos.has(photo.id) ? 'bg-[var(--color-primary)] border-[var(--color-primary)]' : 'border-white/60 bg-black/40'}`}>
+                                              {selectedPhotos.has(photo.id) && <Check size={12} />}
+                                          </button>
+                                          <p className="text-xs font-bold truncate">{photo.users?.name}</p>
+                                      </div>
+                                      <div className="flex gap-2">
+                                          {photo.status === 'PENDING' && (
+                                              <>
+                                                <button onClick={() => moderatePhotos([photo.id], 'APPROVED')} className="flex-1 bg-green-500 text-white p-2 rounded hover:scale-105 transition"><Check size={16} className="mx-auto"/></button>
+                                                <button onClick={() => moderatePhotos([photo.id], 'REJECTED')} className="flex-1 bg-red-500 text-white p-2 rounded hover:scale-105 transition"><X size={16} className="mx-auto"/></button>
+                                              </>
+                                          )}
+                                          {photo.status === 'APPROVED' && (
+                                              <>
+                                                <span className="text-green-400 text-xs font-bold bg-green-900/50 px-2 py-1 rounded">Aprobada</span>
+                                                <button onClick={() => toggleFeaturedPhoto(photo)} title={photo.is_featured ? 'Quitar destacada' : 'Destacar'} className="ml-auto p-1 rounded bg-white/10 hover:bg-yellow-500">
+                                                    <Star size={14} className={photo.is_featured ? 'fill-yellow-400 text-yellow-400' : ''} />
+                                                </button>
+                                              </>
+                                          )}
+                                          {photo.status === 'REJECTED' && <span className="text-red-400 text-xs font-bold bg-red-900/50 px-2 py-1 rounded">Rechazada</span>}
+                                          {photo.status !== 'PENDING' && (
+                                              <button onClick={() => moderatePhotos([photo.id], 'PENDING')} title="Volver a pendiente" className="p-1 rounded bg-white/10 hover:bg-white/30"><Undo2 size={14} /></button>
+                                          )}
+                                      </div>
+                                  </div>
+                              </div>
+                          ))}
+                      </div>
+
+                      <div className="mt-8 bg-white/5 rounded-2xl border border-white/10 p-4">
+                          <h3 className="font-bold mb-3 flex items-center gap-2"><History size={18} /> Historial de moderación</h3>
+                          {moderationLog.length === 0 && <p className="text-xs opacity-50">Todavía no hay decisiones registradas.</p>}
+                          <div className="space-y-2 max-h-80 overflow-y-auto">
+                              {moderationLog.map(entry => {
+                                  const photo = photos.find(p => p.id === entry.photo_id);
+                                  // Only the latest decision on a photo can be reverted
+                                  const canRevert = photo?.status === entry.to_status && moderationLog.find(e => e.photo_id === entry.photo_id)?.id === entry.id;
+                                  return (
+                                      <div key={entry.id} className="flex items-center gap-3 text-xs bg-black/20 rounded-lg p-2">
+                                          {photo ? <img src={thumbUrl(photo)} className="w-10 h-10 rounded object-cover shrink-0" /> : <div className="w-10 h-10 rounded bg-white/10 shrink-0" />}
+                                          <div className="flex-1 min-w-0">
+                                              <p><span className="font-bold">{entry.users?.name || 'Admin'}</span> · {PHOTO_STATUS_NAMES[entry.from_status]} → {PHOTO_STATUS_NAMES[entry.to_status]}</p>
+                                              <p className="opacity-50">{new Date(entry.created_at).toLocaleString('es-AR')}{photo?.users?.name ? ` · foto de ${photo.users.name}` : ''}</p>
+                                          </div>
+                                          {canRevert && <button onClick={() => revertModeration(entry)} className="flex items-center gap-1 text-[var(--color-primary)] font-bold"><Undo2 size={12} /> Revertir</button>}
+                                      </div>
+                                  );
+                              })}
+                          </div>
+                      </div>
+                  </div>
+              )}
+
+              {activeTab === 'SONGS' && (
+                  <div className="animate-in fade-in">
+                      <div className="flex gap-4 mb-4 text-sm font-bold opacity-70">
+                          <span>Pendientes: {songs.filter(s => s.status === 'PENDING').length}</span>
+                          <span className="text-green-400">Aprobados: {songs.filter(s => s.status === 'APPROVED').length}</span>
+                          <span className="text-red-400">Rechazados: {songs.filter(s => s.status === 'REJECTED').length}</span>
+                      </div>
+                      <div className="bg-white/5 rounded-2xl overflow-hidden border border-white/10">
+                          {songs.length === 0 && <p className="opacity-50 text-center py-10">No hay temas sugeridos.</p>}
+                          {songs.map(song => (
+                              <div key={song.id} className="flex gap-4 p-4 border-b border-white/5 items-center hover:bg-white/5 text-sm">
+                                  <Music size={18} className="text-[var(--color-primary)] shrink-0" />
+                                  <div className="flex-1 min-w-0">
+                                      <a href={song.url} target="_blank" rel="noreferrer" className="font-bold truncate block hover:underline">{song.url}</a>
+                                      {song.comment && <p className="text-xs opacity-70 truncate">{song.comment}</p>}
+                                      <p className="text-[10px] opacity-50">{song.users?.name}</p>
+                                  </div>
+                                  <div className="flex gap-2 shrink-0">
+                                      {song.status === 'PENDING' && (
                                           <>
-                                            <button onClick={() => moderatePhoto(photo.id, 'APPROVED')} className="flex-1 bg-green-500 text-white p-2 rounded hover:scale-105 transition"><Check size={16} className="mx-auto"/></button>
-                                            <button onClick={() => moderatePhoto(photo.id, 'REJECTED')} className="flex-1 bg-red-500 text-white p-2 rounded hover:scale-105 transition"><X size={16} className="mx-auto"/></button>
+                                            <button onClick={() => moderateSong(song.id, 'APPROVED')} className="bg-green-500 text-white p-2 rounded hover:scale-105 transition"><Check size={16} /></button>
+                                            <button onClick={() => moderateSong(song.id, 'REJECTED')} className="bg-red-500 text-white p-2 rounded hover:scale-105 transition"><X size={16} /></button>
                                           </>
                                       )}
-                                      {photo.status === 'APPROVED' && <span className="text-green-400 text-xs font-bold bg-green-900/50 px-2 py-1 rounded">Aprobada</span>}
-                                      {photo.status === 'REJECTED' && <span className="text-red-400 text-xs font-bold bg-red-900/50 px-2 py-1 rounded">Rechazada</span>}
+                                      {song.status === 'APPROVED' && <span className="text-green-400 text-xs font-bold bg-green-900/50 px-2 py-1 rounded">Aprobado</span>}
+                                      {song.status === 'REJECTED' && <span className="text-red-400 text-xs font-bold bg-red-900/50 px-2 py-1 rounded">Rechazado</span>}
+                                  </div>
+                              </div>
+                          ))}
+                      </div>
+                  </div>
+              )}
+
+              {activeTab === 'CHAT' && (
+                  <div className="animate-in fade-in space-y-6">
+                      <div className="bg-white/5 p-6 rounded-2xl border border-white/10">
+                          <h3 className="font-bold text-lg mb-2 flex items-center gap-2"><Shield /> Filtro de Palabras</h3>
+                          <p className="text-xs opacity-60 mb-4">Separadas por coma. Se reemplazan por asteriscos en el chat de todos.</p>
+                          <div className="flex gap-4 items-start">
+                              <textarea
+                                value={bannedWordsDraft}
+                                onChange={(e) => setBannedWordsDraft(e.target.value)}
+                                rows={2}
+                                className="flex-1 bg-black/20 border border-white/10 rounded-xl px-4 py-3 text-sm text-[var(--color-text)] focus:outline-none focus:border-[var(--color-primary)]"
+                              />
+                              <Button onClick={saveBannedWords} variant="primary">Guardar</Button>
+                          </div>
+                      </div>
+
+                      {guests.some(g => g.is_muted) && (
+                          <div className="bg-white/5 p-6 rounded-2xl border border-white/10">
+                              <h3 className="font-bold text-lg mb-4 flex items-center gap-2"><MicOff /> Silenciados</h3>
+                              <div className="flex flex-wrap gap-2">
+                                  {guests.filter(g => g.is_muted).map(g => (
+                                      <button key={g.user_id} onClick={() => toggleMute(g.user_id, false)} className="text-xs bg-red-500/20 text-red-300 px-3 py-1 rounded-full flex items-center gap-1 hover:bg-red-500/40">
+                                          {g.name} <X size={12} />
+                                      </button>
+                                  ))}
+                              </div>
+                          </div>
+                      )}
+
+                      <div className="bg-white/5 rounded-2xl overflow-hidden border border-white/10">
+                          {chatLog.length === 0 && <p className="opacity-50 text-center py-10">No hay mensajes.</p>}
+                          {chatLog.map(msg => {
+                              const author = guests.find(g => g.user_id === msg.user_id);
+                              const flagged = containsProfanity(msg.text, parseBannedWords(eventConfig.chat_banned_words));
+                              return (
+                                  <div key={msg.id} className={`flex gap-4 p-4 border-b border-white/5 items-start hover:bg-white/5 text-sm ${msg.is_hidden ? 'opacity-50' : ''}`}>
+                                      <div className="flex-1 min-w-0">
+                                          <p className="text-xs font-bold opacity-70">
+                                              {msg.users?.name || 'Anónimo'} <span className="opacity-50 font-normal">· {new Date(msg.created_at).toLocaleString('es-AR')}</span>
+                                              {flagged && <span className="ml-2 text-orange-400">Filtrado</span>}
+                                          </p>
+                                          <p className="break-words">{msg.text}</p>
+                                          {msg.is_hidden && <p className="text-xs text-red-300 mt-1">Oculto: {msg.hidden_reason}</p>}
+                                      </div>
+                                      <div className="flex gap-2 shrink-0">
+                                          {msg.is_hidden
+                                              ? <button onClick={() => unhideMessage(msg)} title="Mostrar" className="p-2 rounded bg-white/10 hover:bg-white/20"><Eye size={14} /></button>
+                                              : <button onClick={() => hideMessage(msg)} title="Ocultar" className="p-2 rounded bg-white/10 hover:bg-white/20"><EyeOff size={14} /></button>}
+                                          {author && author.segment !== UserSegment.ADMIN && (
+                                              <button onClick={() => toggleMute(author.user_id, !author.is_muted)} title={author.is_muted ? 'Quitar silencio' : 'Silenciar'} className={`p-2 rounded ${author.is_muted ? 'bg-red-500 text-white' : 'bg-white/10 hover:bg-white/20'}`}>
+                                                  {author.is_muted ? <Mic size={14} /> : <MicOff size={14} />}
+                                              </button>
+                                          )}
+                                          <button onClick={() => deleteMessage(msg)} title="Eliminar" className="p-2 rounded bg-red-500/80 text-white hover:bg-red-600"><Trash2 size={14} /></button>
+                                      </div>
+                                  </div>
+                              );
+                          })}
+                      </div>
+                  </div>
+              )}
+
+              {activeTab === 'RSVP' && (
+                  <div className="animate-in fade-in space-y-6">
+                      <div className="text-sm font-bold opacity-70 flex flex-wrap gap-4">
+                          <span>
+                              {formatRsvpDeadline(eventConfig)
+                                  ? `${isRsvpLocked(eventConfig) ? 'Confirmación cerrada el' : 'Fecha límite:'} ${formatRsvpDeadline(eventConfig)}`
+                                  : 'Sin fecha límite (se configura en Configuración)'}
+                          </span>
+                          <span className="text-yellow-300">Sin responder: {pendingGuests.length}</span>
+                          <span className="text-orange-300">Códigos sin usar: {unredeemedInvites.length}</span>
+                      </div>
+
+                      <div className="bg-white/5 rounded-2xl overflow-hidden border border-white/10">
+                          <h3 className="font-bold p-4 border-b border-white/10">Invitados sin responder</h3>
+                          {pendingGuests.length === 0 && <p className="opacity-50 text-center py-6 text-sm">Todos respondieron.</p>}
+                          {pendingGuests.map(guest => {
+                              const reminder = buildRsvpReminder(guest, guest.invite, eventConfig);
+                              return (
+                                  <div key={guest.user_id} className="flex flex-wrap gap-4 p-4 border-b border-white/5 items-center hover:bg-white/5 text-sm">
+                                      <div className="flex-1 min-w-0">
+                                          <p className="font-bold truncate">{guest.name} <span className="text-[9px] font-bold bg-white/10 px-1.5 py-0.5 rounded ml-1">{getSegmentDefinition(guest.segment).short}</span></p>
+                                          <p className="text-[10px] opacity-50">{guest.invite?.code || 'Sin código'} · Registrado {new Date(guest.created_at).toLocaleDateString('es-AR')}</p>
+                                      </div>
+                                      <div className="flex gap-3 text-xs shrink-0 items-center">
+                                          <button onClick={() => copyReminder(reminder)} className="hover:underline">Copiar recordatorio</button>
+                                          <a href={buildWhatsAppUrl(reminder)} target="_blank" rel="noreferrer" className="text-green-400 hover:underline">WhatsApp</a>
+                                          <button onClick={() => setGuestRsvp(guest, 'CONFIRMED')} title="Marcar confirmado" className="p-2 rounded bg-green-600 text-white hover:bg-green-700"><Check size={14} /></button>
+                                          <button onClick={() => setGuestRsvp(guest, 'DECLINED')} title="Marcar que no viene" className="p-2 rounded bg-red-500/80 text-white hover:bg-red-600"><X size={14} /></button>
+                                      </div>
+                                  </div>
+                              );
+                          })}
+                      </div>
+
+                      <div className="bg-white/5 rounded-2xl overflow-hidden border border-white/10">
+                          <h3 className="font-bold p-4 border-b border-white/10">Códigos nunca usados</h3>
+                          {unredeemedInvites.length === 0 && <p className="opacity-50 text-center py-6 text-sm">Todos los códigos fueron usados.</p>}
+                          {unredeemedInvites.map(invite => {
+                              const reminder = buildInviteReminder(invite, eventConfig);
+                              return (
+                                  <div key={invite.code} className="flex flex-wrap gap-4 p-3 border-b border-white/5 items-center hover:bg-white/5 text-sm">
+                                      <span className="font-mono">{invite.code}</span>
+                                      <span className="flex-1 min-w-0 truncate opacity-70">{invite.label || 'Sin etiqueta'} · {getSegmentDefinition(invite.segment).short}</span>
+                                      <div className="flex gap-3 text-xs shrink-0">
+                                          <button onClick={() => copyReminder(reminder)} className="hover:underline">Copiar recordatorio</button>
+                                          <a href={buildWhatsAppUrl(reminder)} target="_blank" rel="noreferrer" className="text-green-400 hover:underline">WhatsApp</a>
+                                      </div>
+                                  </div>
+                              );
+                          })}
+                      </div>
+
+                      <div className="bg-white/5 rounded-2xl overflow-hidden border border-white/10">
+                          <div className="flex justify-between items-center p-4 border-b border-white/10">
+                              <h3 className="font-bold flex items-center gap-2"><History size={18} /> Historial de cambios</h3>
+                              <select value={rsvpHistoryFor ?? ''} onChange={(e) => setRsvpHistoryFor(e.target.value || null)} className="bg-black/40 p-2 rounded-xl border border-white/10 text-xs">
+                                  <option value="">Todos los invitados</option>
+                                  {guests.filter(g => g.segment !== UserSegment.ADMIN).map(g => <option key={g.user_id} value={g.user_id}>{g.name}</option>)}
+                              </select>
+                          </div>
+                          {visibleRsvpChanges.length === 0 && <p className="opacity-50 text-center py-6 text-sm">Sin cambios registrados.</p>}
+                          {visibleRsvpChanges.map(change => {
+                              const actor = guests.find(g => g.user_id === change.changed_by);
+                              return (
+                                  <div key={change.id} className="flex gap-3 p-3 border-b border-white/5 text-xs items-center">
+                                      <span className="opacity-50 w-32 shrink-0">{new Date(change.created_at).toLocaleString('es-AR')}</span>
+                                      <span className="font-bold flex-1 min-w-0 truncate">{change.subject_name}{change.companion_id ? ' (acompañante)' : ''}</span>
+                                      <span>{RSVP_STATUS_LABELS[change.previous_status]} → <span className="font-bold">{RSVP_STATUS_LABELS[change.status]}</span></span>
+                                      <span className="opacity-50 w-28 truncate text-right">{actor?.segment === UserSegment.ADMIN ? `Admin (${actor.name})` : actor?.name || '-'}</span>
+                                  </div>
+                              );
+                          })}
+                      </div>
+                  </div>
+              )}
+
+              {activeTab === 'AGENDA' && (
+                  <div className="animate-in fade-in space-y-6">
+                      <div className="bg-white/5 p-6 rounded-2xl border border-white/10">
+                          <h3 className="font-bold text-lg mb-4 flex items-center gap-2"><Clock /> {editingMomentId === null ? 'Nuevo momento' : 'Editar momento'}</h3>
+                          <div className="flex flex-wrap gap-4 items-end">
+                              <div className="w-24">
+                                  <label className="block text-xs uppercase mb-1 opacity-70">Hora</label>
+                                  <Input value={momentDraft.time} onChange={(e: any) => setMomentDraft({ ...momentDraft, time: e.target.value })} placeholder="HH:MM" className="text-sm py-2" />
+                              </div>
+                              <div className="flex-1 min-w-[10rem]">
+                                  <label className="block text-xs uppercase mb-1 opacity-70">Momento</label>
+                                  <Input value={momentDraft.title} onChange={(e: any) => setMomentDraft({ ...momentDraft, title: e.target.value })} placeholder="Ej: Vals" className="text-sm py-2" />
+                              </div>
+                              <div className="flex-1 min-w-[10rem]">
+                                  <label className="block text-xs uppercase mb-1 opacity-70">Detalle (opcional)</label>
+                                  <Input value={momentDraft.description || ''} onChange={(e: any) => setMomentDraft({ ...momentDraft, description: e.target.value })} className="text-sm py-2" />
+                              </div>
+                              <div>
+                                  <label className="block text-xs uppercase mb-1 opacity-70">Visible para</label>
+                                  <div className="flex gap-3 text-sm py-2">
+                                      {GUEST_SEGMENTS.map(seg => (
+                                          <label key={seg.id} className="flex items-center gap-1">
+                                              <input
+                                                type="checkbox"
+                                                checked={momentDraft.segments.includes(seg.id)}
+                                                onChange={(e) => setMomentDraft({ ...momentDraft, segments: e.target.checked ? [...momentDraft.segments, seg.id] : momentDraft.segments.filter(id => id !== seg.id) })}
+                                                className="accent-[var(--color-primary)]"
+                                              />
+                                              {seg.label}
+                                          </label>
+                                      ))}
+                                  </div>
+                              </div>
+                              <Button onClick={saveMoment} variant="primary" className="text-sm">{editingMomentId === null ? 'Agregar' : 'Guardar'}</Button>
+                              {editingMomentId !== null && <Button onClick={() => { setEditingMomentId(null); setMomentDraft(EMPTY_MOMENT); }} variant="ghost" className="text-sm">Cancelar</Button>}
+                          </div>
+                          <p className="text-xs opacity-50 mt-2">Sin segmentos marcados lo ven todos. Las horas antes del inicio de la fiesta cuentan como después de medianoche.</p>
+                      </div>
+
+                      <div className="bg-white/5 rounded-2xl overflow-hidden border border-white/10">
+                          {timeline.length === 0 && <p className="opacity-50 text-center py-10">La agenda está vacía.</p>}
+                          {sortMoments(eventConfig, timeline).map(moment => (
+                              <div key={moment.id} className={`flex gap-4 p-4 border-b border-white/5 items-center hover:bg-white/5 text-sm ${currentMoment?.id === moment.id ? 'bg-[var(--color-primary)]/10' : ''}`}>
+                                  <span className="font-mono font-bold w-14 shrink-0">{moment.time}</span>
+                                  <div className="flex-1 min-w-0">
+                                      <p className="font-bold truncate">
+                                          {moment.title}
+                                          {currentMoment?.id === moment.id && <span className="ml-2 text-[10px] bg-[var(--color-primary)] text-white px-1.5 py-0.5 rounded">AHORA</span>}
+                                      </p>
+                                      {moment.description && <p className="text-xs opacity-70 truncate">{moment.description}</p>}
+                                      <p className="text-[10px] opacity-50">
+                                          {moment.segments.length === 0 ? 'Todos' : moment.segments.map(seg => getSegmentDefinition(seg).label).join(', ')}
+                                          {moment.started_at && ` · Empezó ${new Date(moment.started_at).toLocaleTimeString('es-AR', { hour: '2-digit', minute: '2-digit' })}`}
+                                          {!moment.started_at && !getScheduledStart(eventConfig, moment) && ' · Hora inválida'}
+                                      </p>
+                                  </div>
+                                  <div className="flex gap-2 shrink-0">
+                                      {moment.started_at
+                                          ? <button onClick={() => setMomentStarted(moment, false)} title="Volver al horario programado" className="p-2 rounded bg-white/10 hover:bg-white/20"><Undo2 size={14} /></button>
+                                          : <button onClick={() => setMomentStarted(moment, true)} title="Empezar ahora" className="p-2 rounded bg-green-600 text-white hover:bg-green-700"><Play size={14} /></button>}
+                                      <button onClick={() => editMoment(moment)} title="Editar" className="p-2 rounded bg-white/10 hover:bg-white/20"><Settings size={14} /></button>
+                                      <button onClick={() => deleteMoment(moment)} title="Eliminar" className="p-2 rounded bg-red-500/80 text-white hover:bg-red-600"><Trash2 size={14} /></button>
+                                  </div>
+                              </div>
+                          ))}
+                      </div>
+                  </div>
+              )}
+
+              {activeTab === 'CONFIG' && (
+                  <div className="animate-in fade-in space-y-8">
+                      <div className="bg-white/5 p-6 rounded-2xl border border-white/10">
+                          <h3 className="font-bold text-lg mb-4 flex items-center gap-2"><Calendar /> Evento</h3>
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                              {configField('Fecha (ISO con zona horaria)', 'event_date', '2026-03-14T14:00:00-03:00')}
+                              {configField('Mensaje de Bienvenida', 'welcome_message')}
+                              {configField('Lugar', 'location_name')}
+                              {configField('Dirección', 'location_address')}
+                              {configField('Link de Mapa', 'location_maps_url', 'https://maps.app.goo.gl/...')}
+                              {configField('Playlist de Spotify', 'spotify_playlist_url', 'https://open.spotify.com/...')}
+                              {configField('Fecha límite de confirmación (opcional)', 'rsvp_deadline', '2026-03-01T23:59:00-03:00')}
+                              {numberField('Tamaño máximo de video (MB)', 'video_max_mb', DEFAULT_VIDEO_MAX_MB)}
+                              {numberField('Duración máxima de video (segundos)', 'video_max_seconds', DEFAULT_VIDEO_MAX_SECONDS)}
+                          </div>
+                      </div>
+
+                      <div className="bg-white/5 p-6 rounded-2xl border border-white/10">
+                          <h3 className="font-bold text-lg mb-4 flex items-center gap-2"><Info /> Contenido por segmento</h3>
+                          <div className="flex gap-2 mb-4">
+                              {GUEST_SEGMENTS.map(s => (
+                                  <button key={s.id} onClick={() => setContentSegment(s.id)} className={`px-4 py-2 rounded-full text-xs font-bold ${contentSegment === s.id ? 'bg-[var(--color-primary)] text-white' : 'bg-white/10 hover:bg-white/20'}`}>{s.label}</button>
+                              ))}
+                          </div>
+                          <SegmentContentEditor
+                            content={getSegmentContent(eventDraft, contentSegment)}
+                            onChange={(content) => {
+                                setEventDraft(prev => withSegmentContent(prev, contentSegment, content));
+                                setConfigErrors(prev => ({ ...prev, segment_content: undefined }));
+                            }}
+                          />
+                          {configErrors.segment_content && <p className="text-red-400 text-xs font-bold mt-2">{configErrors.segment_content}</p>}
+                      </div>
+
+                      <div className="bg-white/5 p-6 rounded-2xl border border-white/10">
+                          <h3 className="font-bold text-lg mb-4 flex items-center gap-2"><Settings /> Tema</h3>
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                              {colorField('Fondo', 'color_bg')}
+                              {colorField('Tarjetas', 'color_card')}
+                              {colorField('Texto', 'color_text')}
+                              {colorField('Primario', 'color_primary')}
+                              {colorField('Acento', 'color_accent')}
+                              <div>
+                                  <label className="block text-xs uppercase mb-1 opacity-70">Tipografía</label>
+                                  <select value={themeDraft.font_family} onChange={(e) => updateThemeDraft('font_family', e.target.value)} className="w-full bg-black/40 p-3 rounded-xl border border-white/10">
+                                      {!FONT_OPTIONS.includes(themeDraft.font_family) && <option value={themeDraft.font_family}>{themeDraft.font_family}</option>}
+                                      {FONT_OPTIONS.map(f => <option key={f} value={f}>{f}</option>)}
+                                  </select>
+                              </div>
+                              <div>
+                                  <label className="block text-xs uppercase mb-1 opacity-70">Animaciones</label>
+                                  <select value={themeDraft.motion_level} onChange={(e) => updateThemeDraft('motion_level', e.target.value)} className="w-full bg-black/40 p-3 rounded-xl border border-white/10">
+                                      <option value="low">Bajas</option>
+                                      <option value="medium">Medias</option>
+                                      <option value="high">Altas</option>
+                                  </select>
+                              </div>
+                          </div>
+                          <div className="mt-6 p-4 rounded-xl bg-[var(--color-bg)] border border-white/10">
+                              <p className="text-xs uppercase opacity-50 mb-2">Vista previa</p>
+                              <div className="bg-[var(--color-card)] p-4 rounded-xl text-[var(--color-text)]">
+                                  <p className="font-bold text-[var(--color-primary)] mb-2">{eventDraft.welcome_message}</p>
+                                  <div className="flex gap-2">
+                                      <Button variant="primary" className="text-xs">Primario</Button>
+                                      <Button variant="secondary" className="text-xs">Secundario</Button>
+                                      <span className="px-3 py-2 rounded-xl bg-[var(--color-accent)] text-white text-xs font-bold">Acento</span>
                                   </div>
                               </div>
                           </div>
-                      ))}
+                      </div>
+
+                      <div className="bg-white/5 p-6 rounded-2xl border border-white/10">
+                          <h3 className="font-bold text-lg mb-4 flex items-center gap-2"><Monitor /> Proyector</h3>
+                          <p className="text-xs opacity-60 mb-4">Pantalla completa para el salón con las fotos aprobadas. Cualquiera con el link puede verla: regeneralo para revocar el anterior.</p>
+                          {projectorTokenDraft ? (
+                              <div className="flex gap-2 mb-4">
+                                  <Input value={buildProjectorUrl(projectorTokenDraft)} readOnly className="text-xs py-2 font-mono" />
+                                  <Button onClick={() => { navigator.clipboard.writeText(buildProjectorUrl(projectorTokenDraft)); showToast('Link copiado'); }} variant="secondary" className="text-xs shrink-0">Copiar</Button>
+                              </div>
+                          ) : (
+                              <p className="text-xs opacity-50 mb-4">El proyector está desactivado.</p>
+                          )}
+                          {projectorTokenDraft !== projectorToken && <p className="text-xs text-yellow-300 mb-4">Guardá la configuración para aplicar el cambio.</p>}
+                          <div className="flex flex-wrap gap-2 items-center">
+                              <Button onClick={() => setProjectorTokenDraft(generateProjectorToken())} variant="secondary" className="text-xs">{projectorTokenDraft ? 'Regenerar link' : 'Generar link'}</Button>
+                              {projectorTokenDraft && <Button onClick={() => setProjectorTokenDraft(null)} variant="ghost" className="text-xs">Desactivar</Button>}
+                              <label className="flex items-center gap-2 text-sm ml-auto">
+                                  <input type="checkbox" checked={!!eventDraft.projector_show_chat} onChange={(e) => setEventDraft(prev => ({ ...prev, projector_show_chat: e.target.checked }))} />
+                                  Mostrar mensajes del chat
+                              </label>
+                          </div>
+                      </div>
+
+                      {Object.values(configErrors).some(Boolean) && <div className="text-red-400 text-sm font-bold bg-red-500/10 p-2 rounded">Revisá los campos marcados.</div>}
+                      <div className="flex gap-4 justify-end">
+                          <Button onClick={() => { setEventDraft(eventConfig); setThemeDraft(theme); setProjectorTokenDraft(projectorToken); setConfigErrors({}); }} variant="ghost">Descartar</Button>
+                          <Button onClick={saveConfig} disabled={savingConfig} variant="primary">
+                              {savingConfig ? <Loader2 className="animate-spin" /> : 'Guardar'}
+                          </Button>
+                      </div>
                   </div>
               )}
           </div>
       );
   };
 
-  const TableCard = () => (
+  const TableCard = () => {
+    const [table, setTable] = useState<SeatingTable | null>(null);
+    const [tablemates, setTablemates] = useState<UserProfile[]>([]);
+
+    useEffect(() => {
+        if (!user?.table_id) return;
+        db.tables.getById(user.table_id).then(({ data }) => setTable(data));
+        db.users.listByTable(user.table_id).then(({ data }) => {
+            if (data) setTablemates(data.filter(u => u.user_id !== user.user_id));
+        });
+    }, []);
+
+    const tableName = table?.name || user?.table;
+
+    return (
       <Card title="Tu Mesa" icon={Users} className="md:col-span-1 bg-gradient-to-br from-[var(--color-card)] to-[var(--color-accent)]/20">
           <div className="flex flex-col items-center justify-center h-full py-4">
-              {user?.table ? (
+              {tableName ? (
                   <>
-                    <span className="text-4xl font-black text-[var(--color-accent)] animate-bounce font-['Pacifico']">{user.table}</span>
-                    <p className="text-sm opacity-70 mt-2">¡Ahí te esperan tus amigos!</p>
+                    <span className="text-4xl font-black text-[var(--color-accent)] animate-bounce font-['Pacifico']">{tableName}</span>
+                    {tablemates.length > 0 ? (
+                        <div className="mt-3 text-center">
+                            <p className="text-[10px] uppercase font-bold opacity-60 mb-1">Compartís mesa con</p>
+                            <p className="text-xs opacity-80">{tablemates.map(u => u.name.split(' ')[0]).join(', ')}</p>
+                        </div>
+                    ) : (
+                        <p className="text-sm opacity-70 mt-2">¡Ahí te esperan tus amigos!</p>
+                    )}
                   </>
               ) : (
                   <div className="text-center opacity-50">
@@ -662,7 +2837,8 @@ export default function App() {
               )}
           </div>
       </Card>
-  );
+    );
+  };
 
   const GalleryCard = () => (
       <Card title="Momentos" icon={ImageIcon} className="md:col-span-2">
@@ -670,7 +2846,9 @@ export default function App() {
               <div className="flex gap-2 overflow-x-auto pb-2 snap-x">
                   {publicPhotos.slice(0, 10).map(p => (
                       <div key={p.id} className="snap-center shrink-0 w-32 h-32 rounded-lg overflow-hidden relative">
-                           <img src={isMockMode ? 'https://via.placeholder.com/150' : `${(import.meta as any).env.VITE_SUPABASE_URL}/storage/v1/object/public/user_photos/${p.storage_path}`} className="w-full h-full object-cover" />
+                           <img src={thumbUrl(p)} className="w-full h-full object-cover" />
+                           {isVideo(p) && <VideoBadge photo={p} />}
+                           {p.is_featured && <Star size={14} className="absolute top-1 right-1 text-yellow-400 fill-yellow-400 drop-shadow" />}
                            <div className="absolute bottom-0 w-full bg-black/60 text-[8px] p-1 truncate text-center">{p.users?.name}</div>
                       </div>
                   ))}
@@ -680,39 +2858,86 @@ export default function App() {
                   Aún no hay fotos aprobadas. ¡Subí la tuya!
               </div>
           )}
-          <Button variant="ghost" className="w-full mt-2 text-xs">Ver Galería Completa</Button>
+          <Button onClick={() => setView('GALLERY')} variant="ghost" className="w-full mt-2 text-xs">Ver Galería Completa</Button>
       </Card>
   );
 
   const RSVPCard = () => {
-    const updateRsvp = async (status: 'CONFIRMED' | 'DECLINED') => {
+    const [invite, setInvite] = useState<InviteCodeType | null>(null);
+    const [companions, setCompanions] = useState<Companion[]>([]);
+    const [newCompanion, setNewCompanion] = useState('');
+    const [dietDraft, setDietDraft] = useState<{ id: number; isCeliac: boolean; dietary: DietaryProfile } | null>(null);
+
+    useEffect(() => {
         if (!user) return;
+        db.invites.getByUser(user.user_id).then(({ data }) => {
+            if (!data) return;
+            setInvite(data);
+            if (getPartySize(data) > 1) db.companions.listByInvite(data.code).then(res => { if (res.data) setCompanions(res.data); });
+        });
+    }, []);
+
+    const addCompanion = async () => {
+        if (!invite || locked || !newCompanion.trim()) return;
+        const { data, error } = await db.companions.create({ invite_code: invite.code, name: newCompanion.trim() });
+        if (error || !data) return showToast('Error agregando acompañante', 'error');
+        setCompanions(prev => [...prev, data]);
+        setNewCompanion('');
+    };
+
+    const updateCompanion = async (id: number, changes: Partial<Pick<Companion, 'is_celiac' | 'dietary'>>) => {
+        setCompanions(prev => prev.map(c => c.id === id ? { ...c, ...changes } : c));
+        const { error } = await db.companions.update(id, changes);
+        if (error) showToast(`Error de red: ${error.message}`, 'error');
+    };
+
+    const updateCompanionRsvp = async (companion: Companion, status: 'CONFIRMED' | 'DECLINED') => {
+        if (!user || locked) return;
+        setCompanions(prev => prev.map(c => c.id === companion.id ? { ...c, rsvp_status: status } : c));
+        const { error } = await db.rsvp.setForCompanion(companion.id, status);
+        if (error) showToast(`Error de red: ${error.message}`, 'error');
+    };
+
+    const removeCompanion = async (companion: Companion) => {
+        if (!user || locked) return;
+        setCompanions(prev => prev.filter(c => c.id !== companion.id));
+        const { error } = await db.rsvp.removeCompanion(companion.id);
+        if (error) showToast('Error quitando acompañante', 'error');
+    };
+
+    const partySize = getPartySize(invite);
+    const locked = isRsvpLocked(eventConfig);
+    const deadline = formatRsvpDeadline(eventConfig);
+
+    const updateRsvp = async (status: 'CONFIRMED' | 'DECLINED') => {
+        if (!user || locked) return;
         
         // Optimistic update
         const updatedUser = { ...user, rsvp_status: status };
         setUser(updatedUser); 
 
-        if (!isMockMode) {
-            // Update 'users' table instead of 'rsvps'
-            const { error } = await supabase.from('users').update({ 
-                rsvp_status: status,
-                rsvp_updated_at: new Date().toISOString()
-            }).eq('user_id', user.user_id);
-
-            if (error) {
-                console.error("RSVP Error:", error);
-                showToast(`Error de red: ${error.message || 'No se guardó'}`, 'error');
-                // Rollback if needed, but keeping it simple for now
-            } else {
-                showToast('Asistencia actualizada');
-            }
+        // Update 'users' table instead of 'rsvps' (logged in 'rsvp_changes')
+        const { error } = await db.rsvp.setForUser(user.user_id, status);
+
+        if (error) {
+            console.error("RSVP Error:", error);
+            showToast(`Error de red: ${error.message || 'No se guardó'}`, 'error');
+            // Rollback if needed, but keeping it simple for now
+        } else {
+            showToast('Asistencia actualizada');
         }
     };
 
     return (
         <Card title="Asistencia" icon={CheckCircle} className="md:col-span-1">
             <div className="flex flex-col gap-2 h-full justify-center">
-               {user?.rsvp_status === 'CONFIRMED' ? (
+               {locked ? (
+                   <div className={`p-4 rounded-xl text-center ${user?.rsvp_status === 'CONFIRMED' ? 'bg-green-500/20 text-green-300' : 'bg-white/5'}`}>
+                       <Lock className="mx-auto mb-2" />
+                       <p className="font-bold">{user?.rsvp_status === 'CONFIRMED' ? '¡Confirmado!' : user?.rsvp_status === 'DECLINED' ? 'No asistís' : 'Sin respuesta'}</p>
+                       <p className="text-xs opacity-70 mt-1">La confirmación cerró. Para cambiarla hablá con los organizadores.</p>
+                   </div>
+               ) : user?.rsvp_status === 'CONFIRMED' ? (
                    <div className="bg-green-500/20 text-green-300 p-4 rounded-xl text-center">
                        <CheckCircle className="mx-auto mb-2" />
                        <p className="font-bold">¡Confirmado!</p>
@@ -725,130 +2950,220 @@ export default function App() {
                        <Button onClick={() => updateRsvp('DECLINED')} variant="ghost" className="w-full text-xs opacity-50">No puedo :(</Button>
                    </>
                )}
+               {deadline && !locked && <p className="text-[10px] opacity-60 text-center">Podés cambiar tu respuesta hasta el {deadline}</p>}
+               {partySize > 1 && (
+                   <div className="mt-3 pt-3 border-t border-white/10 space-y-2">
+                       <p className="text-[10px] uppercase font-bold opacity-60">Tu grupo ({getPartyHeadcount(user!, invite, companions).confirmed}/{partySize} confirmados)</p>
+                       {companions.map(c => (
+                           <div key={c.id} className="text-xs bg-white/5 rounded-lg p-2">
+                               <div className="flex items-center gap-2">
+                                   <span className="flex-1 truncate font-bold">{c.name}</span>
+                                   <button onClick={() => setDietDraft(dietDraft?.id === c.id ? null : { id: c.id, isCeliac: c.is_celiac, dietary: { ...EMPTY_DIETARY, ...c.dietary } })} title="Menú" className={`p-1 rounded ${getRequirements({ is_celiac: c.is_celiac, dietary: { ...EMPTY_DIETARY, ...c.dietary } }).length > 0 ? 'text-orange-400' : 'opacity-40'}`}><Utensils size={12} /></button>
+                                   <button onClick={() => updateCompanionRsvp(c, 'CONFIRMED')} disabled={locked} className={`p-1 rounded ${c.rsvp_status === 'CONFIRMED' ? 'bg-green-500 text-white' : 'bg-white/10'}`}><Check size={12} /></button>
+                                   <button onClick={() => updateCompanionRsvp(c, 'DECLINED')} disabled={locked} className={`p-1 rounded ${c.rsvp_status === 'DECLINED' ? 'bg-red-500 text-white' : 'bg-white/10'}`}><X size={12} /></button>
+                                   {!locked && <button onClick={() => removeCompanion(c)} className="p-1 rounded opacity-40 hover:opacity-100"><Trash2 size={12} /></button>}
+                               </div>
+                               {dietDraft?.id === c.id && (
+                                   <div className="mt-2 space-y-2">
+                                       <DietaryFields compact isCeliac={dietDraft.isCeliac} dietary={dietDraft.dietary} onChange={(isCeliac, dietary) => setDietDraft({ ...dietDraft, isCeliac, dietary })} />
+                                       <Button onClick={() => { updateCompanion(c.id, { is_celiac: dietDraft.isCeliac, dietary: dietDraft.dietary }); setDietDraft(null); }} className="w-full text-xs py-2">Guardar menú</Button>
+                                   </div>
+                               )}
+                           </div>
+                       ))}
+                       {!locked && companions.length < partySize - 1 && (
+                           <div className="flex gap-2">
+                               <Input value={newCompanion} onChange={(e: any) => setNewCompanion(e.target.value)} placeholder="Nombre del acompañante" className="text-xs py-2" />
+                               <Button onClick={addCompanion} className="px-3" icon={Plus} />
+                           </div>
+                       )}
+                   </div>
+               )}
             </div>
         </Card>
     );
   };
 
-  const PhotoUploadCard = () => {
-    const fileInputRef = useRef<HTMLInputElement>(null);
-    const [uploading, setUploading] = useState(false);
+  const DietCard = () => {
+    const [editing, setEditing] = useState(false);
+    const [isCeliac, setIsCeliac] = useState(user?.is_celiac ?? false);
+    const [dietary, setDietary] = useState<DietaryProfile>({ ...EMPTY_DIETARY, ...user?.dietary });
+    const [saving, setSaving] = useState(false);
 
-    const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-        if (!e.target.files || e.target.files.length === 0) return;
-        const file = e.target.files[0];
-        setUploading(true);
+    const requirements = user ? getRequirements({ is_celiac: user.is_celiac, dietary: { ...EMPTY_DIETARY, ...user.dietary } }) : [];
 
-        if (isMockMode) {
-            setTimeout(() => {
-                 setUploading(false);
-                 showToast('Foto subida (Modo Demo)');
-            }, 1000);
-            return;
-        }
-
-        try {
-            // Sanitize filename
-            const fileExt = file.name.split('.').pop();
-            const cleanName = file.name.replace(/[^a-zA-Z0-9]/g, '_');
-            const fileName = `${user!.user_id}/${Date.now()}_${cleanName}.${fileExt}`;
-            
-            // Upload to 'user_photos' bucket
-            const { error: uploadError } = await supabase.storage.from('user_photos').upload(fileName, file);
-
-            if (uploadError) {
-                console.error("Storage Error:", uploadError);
-                if (uploadError.message.includes('Bucket not found') || uploadError.message.includes('not found')) {
-                    throw new Error('Error: Bucket "user_photos" no encontrado. Verificá Supabase Storage.');
-                }
-                throw uploadError;
-            }
-
-            // Insert into 'photos' table
-            const { error: dbError } = await supabase.from('photos').insert({
-                user_id: user!.user_id,
-                storage_path: fileName,
-                status: 'PENDING',
-                is_featured: false
-            });
-
-            if (dbError) throw dbError;
-
-            showToast('¡Foto enviada! El admin la revisará.');
-        } catch (error: any) {
-            console.error("Upload Logic Error:", error);
-            showToast(error.message || 'Error al subir', 'error');
-        } finally {
-            setUploading(false);
-            if (fileInputRef.current) fileInputRef.current.value = '';
-        }
+    const saveDiet = async () => {
+        if (!user) return;
+        setSaving(true);
+        const { error } = await db.users.update(user.user_id, { is_celiac: isCeliac, dietary });
+        setSaving(false);
+        if (error) return showToast('Error guardando menú', 'error');
+        setUser({ ...user, is_celiac: isCeliac, dietary });
+        showToast('Menú actualizado');
     };
 
     return (
-        <Card title="Subí tu Foto" icon={Camera} className="md:col-span-1">
-            <div className="h-full flex flex-col items-center justify-center border-2 border-dashed border-white/10 rounded-xl p-4 hover:border-[var(--color-primary)] transition-colors cursor-pointer" onClick={() => !uploading && fileInputRef.current?.click()}>
-                <input type="file" ref={fileInputRef} className="hidden" accept="image/*" onChange={handleUpload} />
-                {uploading ? (
-                    <div className="text-center">
-                        <Loader2 className="animate-spin mb-2 mx-auto" />
-                        <span className="text-xs">Subiendo...</span>
+        <Card title="Tu Menú" icon={Utensils} className="md:col-span-1">
+            {editing ? (
+                <div className="space-y-2">
+                    <DietaryFields compact isCeliac={isCeliac} dietary={dietary} onChange={(celiac, diet) => { setIsCeliac(celiac); setDietary(diet); }} />
+                    <div className="flex gap-2">
+                        <Button onClick={() => setEditing(false)} variant="ghost" className="flex-1 text-xs py-2">Cancelar</Button>
+                        <Button onClick={saveDiet} disabled={saving} className="flex-1 text-xs py-2">{saving ? <Loader2 className="animate-spin" size={14} /> : 'Guardar'}</Button>
                     </div>
-                ) : (
-                    <>
-                        <Upload className="mb-2 opacity-50" />
-                        <p className="text-xs text-center font-bold">Tocá para subir</p>
-                        <p className="text-[10px] opacity-50 text-center">Será parte del show</p>
-                    </>
-                )}
-            </div>
+                </div>
+            ) : (
+                <div className="flex flex-col h-full justify-center gap-2">
+                    {requirements.length === 0 ? (
+                        <p className="text-sm opacity-60">Menú estándar</p>
+                    ) : (
+                        <div className="flex flex-wrap gap-1">
+                            {requirements.map(r => (
+                                <span key={r} className="text-[10px] font-bold bg-orange-500/20 text-orange-300 px-2 py-1 rounded-full">
+                                    {r === 'allergies' ? `Alergia: ${user?.dietary?.allergies}` : DIETARY_LABELS[r]}
+                                </span>
+                            ))}
+                        </div>
+                    )}
+                    <Button onClick={() => setEditing(true)} variant="ghost" className="w-full text-xs">Editar</Button>
+                </div>
+            )}
         </Card>
     );
   };
 
-  const ChatCard = () => {
-    const [text, setText] = useState('');
-    const scrollRef = useRef<HTMLDivElement>(null);
+  const CountdownCard = () => {
+    const [now, setNow] = useState(() => new Date());
+    const motion = MOTION_CLASSES[theme.motion_level] || MOTION_CLASSES.medium;
 
     useEffect(() => {
-        if (scrollRef.current) scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
-    }, [messages]);
-    
-    const sendMessage = async () => {
-        if (!text.trim()) return;
-        const msgText = text;
-        setText('');
+        if (phase === 'ENDED') return;
+        const interval = setInterval(() => setNow(new Date()), 1000);
+        return () => clearInterval(interval);
+    }, []);
 
-        if (isMockMode) {
-            setMessages(prev => [...prev, { id: Date.now(), user_id: user!.user_id, text: msgText, created_at: new Date().toISOString(), users: user! }]);
-            return;
-        }
+    const start = getEventStart(eventConfig, user?.segment);
+    const left = getTimeLeft(start, now);
+    const pad = (n: number) => n.toString().padStart(2, '0');
+    const startTime = getSegmentContent(eventConfig, user?.segment).time;
+
+    return (
+        <Card title={phase === 'LIVE' ? 'En curso' : 'Falta poco'} icon={Calendar} className="bg-[var(--color-card)] md:col-span-1">
+             <div className="flex flex-col items-center justify-center h-full text-center">
+                 {phase === 'UPCOMING' && (
+                     <div className="text-3xl font-black text-[var(--color-primary)] font-mono">
+                         {left.days}d {pad(left.hours)}h {pad(left.minutes)}m <span className={`inline-block ${motion.tick}`}>{pad(left.seconds)}s</span>
+                     </div>
+                 )}
+                 {phase === 'TODAY' && (
+                     <>
+                        <div className={`text-3xl font-black text-[var(--color-primary)] font-['Pacifico'] ${motion.highlight}`}>¡Es hoy!</div>
+                        <div className="text-lg font-bold font-mono mt-1">{pad(left.hours)}:{pad(left.minutes)}:{pad(left.seconds)}</div>
+                     </>
+                 )}
+                 {phase === 'LIVE' && <div className={`text-3xl font-black text-[var(--color-accent)] font-['Pacifico'] ${motion.highlight}`}>¡Estamos de fiesta!</div>}
+                 {phase === 'ENDED' && <div className="text-3xl font-black text-[var(--color-primary)] font-['Pacifico']">Terminó</div>}
+                 <p className="text-sm mt-2 opacity-60">
+                     {phase === 'ENDED' ? '¡Gracias por venir! Subí tus fotos.' : `Te esperamos ${startTime} hs`}
+                 </p>
+             </div>
+        </Card>
+    );
+  };
+
+  const TimelineCard = () => {
+    const [now, setNow] = useState(() => new Date());
+
+    useEffect(() => {
+        const interval = setInterval(() => setNow(new Date()), 30000);
+        return () => clearInterval(interval);
+    }, []);
+
+    const visible = timeline.filter(m => isMomentVisible(m, user?.segment));
+    if (visible.length === 0 || phase === 'ENDED') return null;
+    const { current, upcoming } = getTimelineState(eventConfig, visible, now);
+    const timeOf = (moment: TimelineMoment) =>
+        getMomentStart(eventConfig, moment)?.toLocaleTimeString('es-AR', { hour: '2-digit', minute: '2-digit' }) ?? moment.time;
+
+    return (
+        <Card title="Agenda" icon={Clock} className="md:col-span-1">
+            {current && (
+                <div className="mb-3 p-3 rounded-xl bg-[var(--color-primary)]/20 border border-[var(--color-primary)]/40">
+                    <p className="text-[10px] uppercase font-bold text-[var(--color-primary)] flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-[var(--color-primary)] animate-pulse" /> Ahora</p>
+                    <p className="font-bold text-lg">{current.title}</p>
+                    {current.description && <p className="text-xs opacity-70">{current.description}</p>}
+                </div>
+            )}
+            <ul className="text-xs space-y-2">
+                {upcoming.slice(0, current ? 3 : 4).map(m => (
+                    <li key={m.id} className="flex gap-2">
+                        <span className="font-mono font-bold opacity-60 shrink-0">{timeOf(m)}</span>
+                        <span>{m.title}</span>
+                    </li>
+                ))}
+                {upcoming.length === 0 && <li className="opacity-50">No quedan más momentos en la agenda.</li>}
+            </ul>
+        </Card>
+    );
+  };
+
+  const SongCard = () => {
+    const [url, setUrl] = useState('');
+    const [comment, setComment] = useState('');
+    const [sending, setSending] = useState(false);
+    const [mySongs, setMySongs] = useState<SongSuggestion[]>([]);
+
+    useEffect(() => {
+        if (!user) return;
+        db.songs.listByUser(user.user_id).then(({ data }) => { if (data) setMySongs(data); });
+    }, []);
+
+    const sendSuggestion = async () => {
+        if (!url.trim()) return showToast('Pegá el link del tema', 'error');
+        if (!/^https?:\/\//i.test(url.trim())) return showToast('El link tiene que empezar con http', 'error');
+        setSending(true);
 
-        // Mapped to 'messages'
-        await supabase.from('messages').insert({
+        const { data, error } = await db.songs.create({
             user_id: user!.user_id,
-            text: msgText
+            url: url.trim(),
+            comment: comment.trim()
         });
+        if (error || !data) {
+            showToast(`Error: ${error.message || 'No se envió'}`, 'error');
+            setSending(false);
+            return;
+        }
+        setMySongs(prev => [data, ...prev]);
+        showToast('¡Tema enviado! El DJ lo va a revisar.');
+        setUrl('');
+        setComment('');
+        setSending(false);
     };
 
     return (
-        <Card title="Chat Invitados" icon={MessageCircle} className="md:col-span-2 row-span-2 h-[400px] flex flex-col">
-            <div ref={scrollRef} className="flex-1 overflow-y-auto space-y-3 pr-2 mb-4 scrollbar-thin scrollbar-thumb-white/10">
-                {messages.map((msg) => (
-                    <div key={msg.id} className={`flex gap-3 ${msg.user_id === user?.user_id ? 'flex-row-reverse' : ''}`}>
-                         <div className="w-8 h-8 rounded-full bg-[var(--color-primary)]/20 flex items-center justify-center text-[10px] font-bold overflow-hidden shrink-0">
-                             {msg.users?.avatar_url ? <img src={msg.users.avatar_url} className="w-full h-full object-cover"/> : (msg.users?.name?.[0] || '?')}
-                         </div>
-                         <div className={`p-3 rounded-2xl max-w-[80%] text-sm ${msg.user_id === user?.user_id ? 'bg-[var(--color-primary)] text-white rounded-tr-none' : 'bg-white/5 rounded-tl-none'}`}>
-                             <p className="font-bold text-[10px] opacity-70 mb-1">{msg.users?.name}</p>
-                             {msg.text}
-                         </div>
-                    </div>
-                ))}
-            </div>
-            <div className="flex gap-2 mt-auto">
-                <Input value={text} onChange={(e: any) => setText(e.target.value)} placeholder="Escribí un mensaje..." className="text-sm py-2" />
-                <Button onClick={sendMessage} className="px-3" icon={Send} />
+        <Card title="Pedí tu tema" icon={Music} className="md:col-span-1">
+            <div className="space-y-2">
+                <Input value={url} onChange={(e: any) => setUrl(e.target.value)} placeholder="Link de Spotify / YouTube" className="text-sm py-2" />
+                <Input value={comment} onChange={(e: any) => setComment(e.target.value)} placeholder="Comentario (opcional)" className="text-sm py-2" />
+                <Button onClick={sendSuggestion} disabled={sending} className="w-full text-xs" icon={sending ? undefined : Send}>
+                    {sending ? <Loader2 className="animate-spin" size={16} /> : 'Sugerir'}
+                </Button>
             </div>
+            {mySongs.length > 0 && (
+                <ul className="mt-3 space-y-1 text-[10px] max-h-24 overflow-y-auto">
+                    {mySongs.map(s => (
+                        <li key={s.id} className="flex justify-between gap-2">
+                            <span className="truncate opacity-70">{s.comment || s.url}</span>
+                            {s.status === 'PENDING' && <span className="opacity-40 shrink-0">Pendiente</span>}
+                            {s.status === 'APPROVED' && <span className="text-green-400 font-bold shrink-0">Aprobado</span>}
+                            {s.status === 'REJECTED' && <span className="text-red-400 font-bold shrink-0">Rechazado</span>}
+                        </li>
+                    ))}
+                </ul>
+            )}
+            {eventConfig.spotify_playlist_url && (
+                <Button onClick={() => window.open(eventConfig.spotify_playlist_url, '_blank')} variant="ghost" className="w-full mt-2 text-xs">Ver Playlist</Button>
+            )}
         </Card>
     );
   };
@@ -861,8 +3176,17 @@ export default function App() {
     </div>
   );
 
+  if (projectorToken) return <ProjectorView token={projectorToken} theme={theme} eventConfig={eventConfig} />;
   if (view === 'PROFILE_SETUP') return <ProfileSetup />;
   if (view === 'ADMIN') return <AdminPanel />;
+  if (view === 'GALLERY') {
+    return (
+      <>
+        <GalleryView isAdmin={isAdmin} onBack={() => setView('HOME')} onFeaturedChange={refreshPublicPhotos} showToast={showToast} />
+        {toast && <div className={`fixed bottom-4 left-1/2 -translate-x-1/2 px-6 py-3 rounded-full shadow-2xl z-[60] font-bold animate-in fade-in slide-in-from-bottom-5 ${toast.type === 'success' ? 'bg-green-500 text-white' : 'bg-red-500 text-white'}`}>{toast.msg}</div>}
+      </>
+    );
+  }
   
   if (view === 'AUTH') {
     return (
@@ -874,40 +3198,52 @@ export default function App() {
           {authMode === 'CODE' ? (
               <>
                   <p className="text-lg mb-8 opacity-80">Ingresá tu código de invitación</p>
-                  {isMockMode && <div className="mb-4 text-xs bg-yellow-500/20 text-yellow-200 p-2 rounded">⚡ Modo Demo Offline Activo</div>}
+                  {isMockMode && <div className="mb-4 text-xs bg-yellow-500/20 text-yellow-200 p-2 rounded">⚡ Modo Demo Offline Activo · Probá G15-J01 o G15-A01</div>}
                   <div className="space-y-4">
-                    <Input value={inviteCode} onChange={(e: any) => setInviteCode(e.target.value.toUpperCase())} placeholder="CÓDIGO (Ej: G15-J01)" className="text-center text-xl tracking-widest uppercase font-mono" />
-                    {authError && <div className="text-red-400 text-sm font-bold bg-red-500/10 p-2 rounded">{authError}</div>}
-                    <Button onClick={handleAuth} className="w-full py-4 text-lg">Validar Código</Button>
-                    <p className="text-xs opacity-50 mt-4">¿Sos Admin? Usá 'ADMIN-SETUP'</p>
+                    <Input value={inviteCode} onChange={(e: any) => setInviteCode(e.target.value.toUpperCase())} placeholder="CÓDIGO (Ej: G15-J-7KQM-4PXC)" className="text-center text-xl tracking-widest uppercase font-mono" />
+                    {authError && (
+                        <div className="text-red-400 text-sm font-bold bg-red-500/10 p-3 rounded space-y-2">
+                            <p className="flex items-center justify-center gap-2">{authErrorReason === 'LOCKED' ? <Lock size={14} /> : <AlertTriangle size={14} />} {authError}</p>
+                            {authErrorReason === 'USED' && (
+                                <>
+                                    <p className="text-xs font-normal text-[var(--color-text)] opacity-70">Si la activaste vos, te mandamos un link nuevo al mismo email.</p>
+                                    <Button onClick={() => { setReturningGuest(true); setAuthMode('EMAIL_REQUIRED'); setAuthError(''); setAuthErrorReason(null); }} variant="secondary" className="w-full text-sm">Entrar con mi email</Button>
+                                </>
+                            )}
+                            {authErrorReason === 'REVOKED' && <p className="text-xs font-normal text-[var(--color-text)] opacity-70">Si creés que es un error, escribile a quien te invitó.</p>}
+                        </div>
+                    )}
+                    <Button onClick={() => handleAuth()} className="w-full py-4 text-lg">Validar Código</Button>
+                    {isMockMode && <p className="text-xs opacity-50 mt-4">¿Sos Admin? Usá 'ADMIN-SETUP'</p>}
                   </div>
               </>
           ) : (
               // EMAIL REQUIRED
               <>
-                  <p className="text-lg mb-4 opacity-80">Validar Identidad</p>
-                  <p className="text-xs opacity-60 mb-6">Para asegurar tu lugar, necesitamos validar tu email.</p>
+                  <p className="text-lg mb-4 opacity-80">{returningGuest ? 'Volver a entrar' : 'Validar Identidad'}</p>
+                  <p className="text-xs opacity-60 mb-6">{returningGuest ? 'Ingresá el email con el que activaste tu invitación.' : 'Para asegurar tu lugar, necesitamos validar tu email.'}</p>
                   
                   {magicLinkSent ? (
                       <div className="bg-green-500/20 p-4 rounded-xl text-green-200 animate-in zoom-in">
                           <Mail size={40} className="mx-auto mb-2" />
                           <p className="font-bold">¡Revisá tu correo!</p>
                           <p className="text-xs mt-2 opacity-80">Te enviamos un link mágico para entrar sin contraseña.</p>
+                          {isMockMode && <Button onClick={restoreSession} className="mt-4 w-full text-sm">Abrir link (Modo Demo)</Button>}
                           <Button onClick={() => { setMagicLinkSent(false); setAuthMode('CODE'); }} variant="ghost" className="mt-4 text-sm">Volver</Button>
                       </div>
                   ) : (
                       <div className="space-y-4">
                         <Input value={email} onChange={(e: any) => setEmail(e.target.value)} placeholder="tu@email.com" type="email" />
-                        {inviteCode === 'ADMIN-SETUP' && (
+                        {isAdminCode && (
                              <Input value={password} onChange={(e: any) => setPassword(e.target.value)} placeholder="Contraseña Admin" type="password" />
                         )}
                         {authError && <div className="text-red-400 text-sm font-bold bg-red-500/10 p-2 rounded">{authError}</div>}
                         
                         <Button onClick={handleEmailAuth} className="w-full py-4 text-lg">
-                            {inviteCode === 'ADMIN-SETUP' ? 'Entrar' : 'Enviar Link de Acceso'}
+                            {isAdminCode ? 'Entrar' : 'Enviar Link de Acceso'}
                         </Button>
                         
-                        <Button onClick={() => { setAuthMode('CODE'); setAuthError(''); }} variant="ghost" className="w-full text-sm">
+                        <Button onClick={() => { setAuthMode('CODE'); setAuthError(''); setReturningGuest(false); }} variant="ghost" className="w-full text-sm">
                            Cambiar Código
                         </Button>
                       </div>
@@ -942,26 +3278,32 @@ export default function App() {
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4 auto-rows-auto">
-            <Card title="Falta poco" icon={Calendar} className="bg-[var(--color-card)] md:col-span-1">
-                 <div className="flex flex-col items-center justify-center h-full">
-                     <div className="text-3xl font-black text-[var(--color-primary)] font-mono">10d 05h 30m</div>
-                     <p className="text-sm mt-2 opacity-60">Te esperamos {user?.segment === 'ADULT' ? eventConfig.time_adult : eventConfig.time_young} hs</p>
-                 </div>
-            </Card>
+            <CountdownCard />
+            <TimelineCard />
+            {/* During and after the party, photo upload takes the spotlight */}
+            {(phase === 'LIVE' || phase === 'ENDED') && <PhotoUploadCard userId={user.user_id} videoLimits={getVideoLimits(eventConfig)} prominent />}
             <RSVPCard />
             <TableCard />
+            <DietCard />
             <Card title="Ubicación" icon={MapPin} className="md:col-span-1">
                 <p className="font-bold text-lg mb-2">{eventConfig.location_name}</p>
                 <Button onClick={() => window.open(eventConfig.location_maps_url, '_blank')} variant="secondary" className="w-full text-xs">Ver Mapa</Button>
             </Card>
             <GalleryCard />
-            <PhotoUploadCard />
-            <ChatCard />
-            <Card title="Reglas" icon={Info} className="md:col-span-1">
-                 <ul className="text-xs space-y-2 opacity-80">
-                     <li className="flex gap-2"><CheckCircle size={12} className="text-[var(--color-primary)]"/> {user?.segment === 'YOUNG' ? eventConfig.dress_code_young : eventConfig.dress_code_adult}</li>
-                 </ul>
-            </Card>
+            {(phase === 'UPCOMING' || phase === 'TODAY') && <PhotoUploadCard userId={user.user_id} videoLimits={getVideoLimits(eventConfig)} />}
+            <ChatCard
+              messages={messages}
+              user={user}
+              isAdmin={isAdmin}
+              bannedWords={parseBannedWords(eventConfig.chat_banned_words)}
+              hasOlder={hasOlderMessages}
+              loadingOlder={loadingOlderMessages}
+              onLoadOlder={loadOlderMessages}
+              onSend={sendChatMessage}
+              onReact={reactToMessage}
+            />
+            <SongCard />
+            <SegmentInfoCard content={getSegmentContent(eventConfig, user?.segment)} />
         </div>
 
         {toast && <div className={`fixed bottom-4 left-1/2 -translate-x-1/2 px-6 py-3 rounded-full shadow-2xl z-50 font-bold animate-in fade-in slide-in-from-bottom-5 ${toast.type === 'success' ? 'bg-green-500 text-white' : 'bg-red-500 text-white'}`}>{toast.msg}</div>}
@@ -0,0 +1,8 @@
+// Wrong invite codes are counted by the database (validate_invite_code), per
+// IP address, so clearing storage or scripting requests doesn't reset the
+// lockout. This module only formats the wait.
+
+export const formatLockout = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  return seconds >= 60 ? `${Math.ceil(seconds / 60)} min` : `${seconds} s`;
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { buildCateringReport, EMPTY_DIETARY, getRequirements, NO_TABLE } from './catering';
+import { guest, table } from './testFixtures';
+
+describe('getRequirements', () => {
+  it('lists every need, ignoring blank allergies', () => {
+    expect(getRequirements({ is_celiac: true, dietary: { ...EMPTY_DIETARY, vegan: true, allergies: '  ' } })).toEqual(['celiac', 'vegan']);
+    expect(getRequirements({ is_celiac: false, dietary: { ...EMPTY_DIETARY, kids_menu: true, allergies: 'maní' } })).toEqual(['kids_menu', 'allergies']);
+  });
+});
+
+describe('buildCateringReport', () => {
+  const tables = [table(1, 'Mesa 10'), table(2)];
+
+  it('counts confirmed holders and companions per table', () => {
+    const report = buildCateringReport([
+      guest('Ana', {
+        table_id: 1,
+        is_celiac: true,
+        companions: [
+          { id: 1, invite_code: 'X', name: 'Leo', rsvp_status: 'CONFIRMED', is_celiac: false, dietary: { ...EMPTY_DIETARY, allergies: 'nueces' }, created_at: '2025-01-01T00:00:00Z' },
+          { id: 2, invite_code: 'X', name: 'Mia', rsvp_status: 'DECLINED', is_celiac: true, created_at: '2025-01-01T00:00:00Z' }
+        ]
+      }),
+      guest('Bruno', { table_id: 2, dietary: { ...EMPTY_DIETARY, vegetarian: true } }),
+      guest('Carla'),
+      guest('Dario', { rsvp_status: 'DECLINED', is_celiac: true })
+    ], tables);
+
+    expect(report.totals).toMatchObject({ total: 4, celiac: 1, vegetarian: 1, allergies: 1 });
+    expect(report.byTable.map(t => [t.table, t.counts.total])).toEqual([['Mesa 2', 1], ['Mesa 10', 2], [NO_TABLE, 1]]);
+    expect(report.allergies.map(a => [a.name, a.holder])).toEqual([['Leo', 'Ana']]);
+  });
+});
@@ -0,0 +1,98 @@
+import { DietaryProfile, Guest, SeatingTable } from '../types';
+import { getTableName } from './seating';
+
+// Catering report: aggregates the dietary needs of everyone confirmed
+// (invite holders and their companions), overall and per table.
+
+export const EMPTY_DIETARY: DietaryProfile = {
+  vegetarian: false,
+  vegan: false,
+  lactose_free: false,
+  kids_menu: false,
+  allergies: ''
+};
+
+export type DietaryRequirement = 'celiac' | 'vegetarian' | 'vegan' | 'lactose_free' | 'kids_menu' | 'allergies';
+
+export const DIETARY_LABELS: Record<DietaryRequirement, string> = {
+  celiac: 'Sin TACC',
+  vegetarian: 'Vegetariano',
+  vegan: 'Vegano',
+  lactose_free: 'Sin Lactosa',
+  kids_menu: 'Menú Infantil',
+  allergies: 'Alergias'
+};
+
+export interface Attendee {
+  name: string;
+  table: string;
+  holder: string; // Name of the invite holder the attendee came with
+  is_celiac: boolean;
+  dietary: DietaryProfile;
+}
+
+export type RequirementCounts = Record<DietaryRequirement, number> & { total: number };
+
+export interface CateringReport {
+  totals: RequirementCounts;
+  byTable: { table: string; counts: RequirementCounts }[];
+  allergies: Attendee[];
+  attendees: Attendee[];
+}
+
+export const NO_TABLE = 'Sin mesa';
+
+export const getRequirements = (attendee: Pick<Attendee, 'is_celiac' | 'dietary'>): DietaryRequirement[] => {
+  const d = attendee.dietary;
+  const reqs: DietaryRequirement[] = [];
+  if (attendee.is_celiac) reqs.push('celiac');
+  if (d.vegetarian) reqs.push('vegetarian');
+  if (d.vegan) reqs.push('vegan');
+  if (d.lactose_free) reqs.push('lactose_free');
+  if (d.kids_menu) reqs.push('kids_menu');
+  if (d.allergies.trim()) reqs.push('allergies');
+  return reqs;
+};
+
+const emptyCounts = (): RequirementCounts => ({
+  total: 0, celiac: 0, vegetarian: 0, vegan: 0, lactose_free: 0, kids_menu: 0, allergies: 0
+});
+
+const addTo = (counts: RequirementCounts, attendee: Attendee) => {
+  counts.total++;
+  getRequirements(attendee).forEach(r => counts[r]++);
+};
+
+export const getConfirmedAttendees = (guests: Guest[], tables: SeatingTable[] = []): Attendee[] =>
+  guests.flatMap(g => {
+    const table = getTableName(g, tables) || NO_TABLE;
+    const people: Attendee[] = [];
+    if (g.rsvp_status === 'CONFIRMED') {
+      people.push({ name: g.name, table, holder: g.name, is_celiac: g.is_celiac, dietary: { ...EMPTY_DIETARY, ...g.dietary } });
+    }
+    g.companions.filter(c => c.rsvp_status === 'CONFIRMED').forEach(c => {
+      people.push({ name: c.name, table, holder: g.name, is_celiac: c.is_celiac, dietary: { ...EMPTY_DIETARY, ...c.dietary } });
+    });
+    return people;
+  });
+
+export const buildCateringReport = (guests: Guest[], tables: SeatingTable[] = []): CateringReport => {
+  const attendees = getConfirmedAttendees(guests, tables);
+  const totals = emptyCounts();
+  const byTable = new Map<string, RequirementCounts>();
+
+  attendees.forEach(a => {
+    addTo(totals, a);
+    if (!byTable.has(a.table)) byTable.set(a.table, emptyCounts());
+    addTo(byTable.get(a.table)!, a);
+  });
+
+  return {
+    totals,
+    byTable: [...byTable.entries()]
+      .map(([table, counts]) => ({ table, counts }))
+      .sort((a, b) => a.table === NO_TABLE ? 1 : b.table === NO_TABLE ? -1 : a.table.localeCompare(b.table, 'es', { numeric: true })),
+    allergies: attendees.filter(a => a.dietary.allergies.trim()),
+    attendees
+  };
+};
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { ChatMessage } from '../types';
+import { getCursor, mergeMessages } from './chatHistory';
+
+const message = (id: number, created_at: string): ChatMessage => ({ id, user_id: 'u1', text: `#${id}`, created_at });
+
+describe('mergeMessages', () => {
+  it('orders by time, then id, and drops duplicates', () => {
+    const current = [message(3, '2025-01-01T10:00:00Z'), message(5, '2025-01-01T11:00:00Z')];
+    const older = [message(1, '2025-01-01T09:00:00Z'), message(2, '2025-01-01T10:00:00Z'), message(3, '2025-01-01T10:00:00Z')];
+    expect(mergeMessages(current, older).map(m => m.id)).toEqual([1, 2, 3, 5]);
+  });
+
+  it('returns the same list when nothing is new', () => {
+    const current = [message(1, '2025-01-01T09:00:00Z')];
+    expect(mergeMessages(current, [message(1, '2025-01-01T09:00:00Z')])).toBe(current);
+  });
+});
+
+describe('getCursor', () => {
+  it('points at the oldest loaded message', () => {
+    expect(getCursor([])).toBeNull();
+    expect(getCursor([message(4, '2025-01-01T09:00:00Z'), message(9, '2025-01-01T10:00:00Z')])).toEqual({ created_at: '2025-01-01T09:00:00Z', id: 4 });
+  });
+});
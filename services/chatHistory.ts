@@ -0,0 +1,27 @@
+import { ChatMessage } from '../types';
+
+// Cursor pagination helpers for the chat history.
+
+export const CHAT_PAGE_SIZE = 30;
+
+// Messages are ordered by (created_at, id); the cursor is the oldest loaded message.
+export interface ChatCursor {
+  created_at: string;
+  id: number;
+}
+
+export const compareMessages = (a: Pick<ChatMessage, 'created_at' | 'id'>, b: Pick<ChatMessage, 'created_at' | 'id'>) => {
+  const byTime = new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+  return byTime !== 0 ? byTime : a.id - b.id;
+};
+
+export const getCursor = (messages: ChatMessage[]): ChatCursor | null =>
+  messages.length > 0 ? { created_at: messages[0].created_at, id: messages[0].id } : null;
+
+// Merges a page (or a realtime insert) into the loaded list, dropping duplicates by id.
+export const mergeMessages = (current: ChatMessage[], incoming: ChatMessage[]): ChatMessage[] => {
+  const known = new Set(current.map(m => m.id));
+  const fresh = incoming.filter(m => !known.has(m.id));
+  if (fresh.length === 0) return current;
+  return [...current, ...fresh].sort(compareMessages);
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_BANNED_WORDS, containsProfanity, maskProfanity, parseBannedWords, toggleReaction } from './chatModeration';
+
+describe('parseBannedWords', () => {
+  it('falls back to the defaults only when the list was never set', () => {
+    expect(parseBannedWords(null)).toBe(DEFAULT_BANNED_WORDS);
+    expect(parseBannedWords(undefined)).toBe(DEFAULT_BANNED_WORDS);
+    expect(parseBannedWords('')).toEqual([]);
+    expect(parseBannedWords(' Feo , ,MALO ')).toEqual(['feo', 'malo']);
+  });
+});
+
+describe('maskProfanity', () => {
+  it('masks whole words regardless of case and accents', () => {
+    expect(maskProfanity('Qué FEÓ día', ['feo'])).toBe('Qué *** día');
+    expect(maskProfanity('feote y feo.', ['feo'])).toBe('feote y ***.');
+  });
+
+  it('leaves the text alone without banned words', () => {
+    expect(maskProfanity('feo', [])).toBe('feo');
+    expect(containsProfanity('todo bien', ['feo'])).toBe(false);
+    expect(containsProfanity('muy feo', ['feo'])).toBe(true);
+  });
+});
+
+describe('toggleReaction', () => {
+  it('adds and removes the user without touching the original map', () => {
+    const reactions = { '❤️': ['ana'] };
+    expect(toggleReaction(reactions, '❤️', 'bruno')).toEqual({ '❤️': ['ana', 'bruno'] });
+    expect(toggleReaction(reactions, '🔥', 'ana')).toEqual({ '❤️': ['ana'], '🔥': ['ana'] });
+    expect(reactions).toEqual({ '❤️': ['ana'] });
+  });
+
+  it('drops an emoji once nobody reacts with it', () => {
+    expect(toggleReaction({ '❤️': ['ana'] }, '❤️', 'ana')).toEqual({});
+    expect(toggleReaction(null, '🎉', 'ana')).toEqual({ '🎉': ['ana'] });
+  });
+});
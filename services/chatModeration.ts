@@ -0,0 +1,33 @@
+import { ChatMessage } from '../types';
+
+// Chat moderation helpers: reactions, profanity masking and muting rules.
+
+export const REACTION_EMOJIS = ['❤️', '😂', '🔥', '👏', '🎉'];
+
+// Used when EventConfig.chat_banned_words has never been set.
+export const DEFAULT_BANNED_WORDS = ['boludo', 'pelotudo', 'forro', 'mierda', 'puto', 'concha'];
+
+// Parses the comma-separated list stored in EventConfig.chat_banned_words.
+export const parseBannedWords = (raw?: string | null): string[] =>
+  raw == null
+    ? DEFAULT_BANNED_WORDS
+    : raw.split(',').map(w => w.trim().toLowerCase()).filter(Boolean);
+
+// Replaces every banned word (whole word, case and accent insensitive) with asterisks.
+export const maskProfanity = (text: string, bannedWords: string[]): string => {
+  if (bannedWords.length === 0) return text;
+  const normalize = (value: string) => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+  const banned = new Set(bannedWords.map(normalize));
+  return text.replace(/[\p{L}\p{N}]+/gu, word => banned.has(normalize(word)) ? '*'.repeat(word.length) : word);
+};
+
+export const containsProfanity = (text: string, bannedWords: string[]) => maskProfanity(text, bannedWords) !== text;
+
+// Returns the updated reactions map after `userId` toggles `emoji`.
+export const toggleReaction = (reactions: ChatMessage['reactions'], emoji: string, userId: string): Record<string, string[]> => {
+  const next = { ...(reactions || {}) };
+  const users = next[emoji] || [];
+  next[emoji] = users.includes(userId) ? users.filter(id => id !== userId) : [...users, userId];
+  if (next[emoji].length === 0) delete next[emoji];
+  return next;
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { EventConfig, UserSegment } from '../types';
+import { getEventDayTime, getEventPhase, getEventStart, getTimeLeft } from './countdown';
+
+const config = {
+  id: 1,
+  event_date: '2025-11-15T21:00:00-03:00',
+  time_young: '21:00',
+  time_adult: '22:30'
+} as EventConfig;
+
+describe('getEventDayTime', () => {
+  it('keeps the offset of event_date', () => {
+    expect(getEventDayTime(config, '23:15')?.toISOString()).toBe('2025-11-16T02:15:00.000Z');
+  });
+
+  it('returns null for invalid times', () => {
+    expect(getEventDayTime(config, '')).toBeNull();
+    expect(getEventDayTime(config, '25:99')).toBeNull();
+  });
+});
+
+describe('getEventStart', () => {
+  it('uses each segment arrival time', () => {
+    expect(getEventStart(config, UserSegment.YOUNG).toISOString()).toBe('2025-11-16T00:00:00.000Z');
+    expect(getEventStart(config, UserSegment.ADULT).toISOString()).toBe('2025-11-16T01:30:00.000Z');
+  });
+
+  it('falls back to event_date without a valid time', () => {
+    expect(getEventStart({ ...config, time_adult: '' }, UserSegment.ADULT).toISOString()).toBe('2025-11-16T00:00:00.000Z');
+  });
+});
+
+describe('getEventPhase', () => {
+  const at = (iso: string) => new Date(iso);
+
+  it('follows the event day in the event timezone', () => {
+    // 2025-11-14 22:00 in Buenos Aires is already the 15th in UTC
+    expect(getEventPhase(config, UserSegment.YOUNG, at('2025-11-15T01:00:00Z'))).toBe('UPCOMING');
+    expect(getEventPhase(config, UserSegment.YOUNG, at('2025-11-15T03:00:00Z'))).toBe('TODAY');
+    expect(getEventPhase(config, UserSegment.YOUNG, at('2025-11-16T00:00:00Z'))).toBe('LIVE');
+    expect(getEventPhase(config, UserSegment.YOUNG, at('2025-11-16T08:00:00Z'))).toBe('ENDED');
+  });
+
+  it('is segment specific', () => {
+    const now = at('2025-11-16T01:00:00Z');
+    expect(getEventPhase(config, UserSegment.YOUNG, now)).toBe('LIVE');
+    expect(getEventPhase(config, UserSegment.ADULT, now)).toBe('TODAY');
+  });
+});
+
+describe('getTimeLeft', () => {
+  it('splits the remaining time and never goes negative', () => {
+    const start = new Date('2025-11-16T00:00:00Z');
+    expect(getTimeLeft(start, new Date('2025-11-14T22:58:30Z'))).toEqual({ days: 1, hours: 1, minutes: 1, seconds: 30 });
+    expect(getTimeLeft(start, new Date('2025-11-17T00:00:00Z'))).toEqual({ days: 0, hours: 0, minutes: 0, seconds: 0 });
+  });
+});
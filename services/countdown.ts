@@ -0,0 +1,73 @@
+import { EventConfig, UserSegment } from '../types';
+import { getSegmentContent } from './segments';
+
+// Countdown engine: resolves the segment-specific start time of the party
+// and which phase of the event we are in.
+
+export type EventPhase = 'UPCOMING' | 'TODAY' | 'LIVE' | 'ENDED';
+
+// How long the party lasts after each segment's start time.
+export const EVENT_DURATION_HOURS = 8;
+
+const OFFSET_RE = /(Z|[+-]\d{2}:\d{2})$/;
+
+// Offset of the event's timezone ('-03:00', 'Z') or null when event_date has none.
+const getEventOffset = (eventDate: string): string | null => eventDate.match(OFFSET_RE)?.[1] ?? null;
+
+const offsetToMinutes = (offset: string) => {
+  if (offset === 'Z') return 0;
+  const sign = offset.startsWith('-') ? -1 : 1;
+  const [h, m] = offset.slice(1).split(':').map(Number);
+  return sign * (h * 60 + m);
+};
+
+// Calendar day (YYYY-MM-DD) of an instant, as seen from the event's timezone.
+const dayInEventZone = (instant: Date, offset: string | null) => {
+  if (offset === null) {
+    const pad = (n: number) => n.toString().padStart(2, '0');
+    return `${instant.getFullYear()}-${pad(instant.getMonth() + 1)}-${pad(instant.getDate())}`;
+  }
+  return new Date(instant.getTime() + offsetToMinutes(offset) * 60000).toISOString().slice(0, 10);
+};
+
+// Combines the day of `event_date` with an HH:MM time, keeping the event's offset.
+// Null when `time` is not a valid time.
+export const getEventDayTime = (config: EventConfig, time: string): Date | null => {
+  const offset = getEventOffset(config.event_date);
+  const day = config.event_date.slice(0, 10);
+  const date = new Date(`${day}T${time}:00${offset ?? ''}`);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// The segment's arrival time on the event day.
+export const getEventStart = (config: EventConfig, segment?: UserSegment): Date =>
+  getEventDayTime(config, getSegmentContent(config, segment).time) ?? new Date(config.event_date);
+
+export const getEventPhase = (config: EventConfig, segment: UserSegment | undefined, now: Date = new Date()): EventPhase => {
+  const start = getEventStart(config, segment);
+  const end = start.getTime() + EVENT_DURATION_HOURS * 3600000;
+
+  if (now.getTime() >= end) return 'ENDED';
+  if (now.getTime() >= start.getTime()) return 'LIVE';
+
+  const offset = getEventOffset(config.event_date);
+  if (dayInEventZone(now, offset) === dayInEventZone(start, offset)) return 'TODAY';
+  return 'UPCOMING';
+};
+
+export interface TimeLeft {
+  days: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+}
+
+export const getTimeLeft = (start: Date, now: Date = new Date()): TimeLeft => {
+  const total = Math.max(0, Math.floor((start.getTime() - now.getTime()) / 1000));
+  return {
+    days: Math.floor(total / 86400),
+    hours: Math.floor((total % 86400) / 3600),
+    minutes: Math.floor((total % 3600) / 60),
+    seconds: total % 60
+  };
+};
@@ -0,0 +1,222 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { UserSegment } from '../types';
+import { memoryStorage } from './testFixtures';
+
+// createDb against a fresh offline mock per test
+const loadDb = async () => {
+  vi.resetModules();
+  const [{ createMockClient }, { createDb, toDataError }] = await Promise.all([import('./mockSupabase'), import('./db')]);
+  const client = createMockClient();
+  return { client, db: createDb(client), toDataError };
+};
+
+// Signs up `email` and gives it a profile (admins claim the demo admin invite
+// first); returns its user_id
+const signIn = async (client: SupabaseClient, email: string, segment = UserSegment.YOUNG) => {
+  const { data } = await client.auth.signUp({ email, password: 'secreto' });
+  const userId = data.user!.id;
+  if (segment === UserSegment.ADMIN) await client.rpc('claim_admin_invite', { p_code: 'ADMIN-SETUP' });
+  await client.from('users').insert({ user_id: userId, name: email.split('@')[0], segment, is_celiac: false });
+  return userId;
+};
+
+// Query builder that accepts any chain and settles with `outcome`
+const settledQuery = (outcome: Promise<unknown>): any =>
+  new Proxy({}, { get: (_, prop) => prop === 'then' ? outcome.then.bind(outcome) : () => settledQuery(outcome) });
+
+// The same client, with every query on `table` failing
+const failingOn = (client: SupabaseClient, table: string) =>
+  ({ ...client, from: (name: string) => name === table ? settledQuery(Promise.resolve({ data: null, error: { message: 'boom' } })) : client.from(name) }) as unknown as SupabaseClient;
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', memoryStorage());
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('toDataError', () => {
+  it('maps PostgREST and Postgres codes to DataError codes', async () => {
+    const { toDataError } = await loadDb();
+    expect(toDataError({ message: '', code: 'PGRST116' }).code).toBe('NOT_FOUND');
+    expect(toDataError({ message: '', code: 'P0002' }).code).toBe('NOT_FOUND');
+    expect(toDataError({ message: '', code: '23505' }).code).toBe('CONFLICT');
+    expect(toDataError({ message: '', code: '55000' }).code).toBe('CONFLICT');
+    expect(toDataError({ message: '', code: '42501' }).code).toBe('FORBIDDEN');
+    expect(toDataError({ message: 'Bucket not found' }).code).toBe('BUCKET_NOT_FOUND');
+    expect(toDataError({ message: 'timeout' })).toMatchObject({ code: 'UNKNOWN', message: 'timeout' });
+  });
+});
+
+describe('createDb', () => {
+  it('returns null for a missing row and an error for a failed query', async () => {
+    const { client, db } = await loadDb();
+    expect(await db.users.getById('nadie')).toEqual({ data: null, error: null });
+
+    const { createDb } = await import('./db');
+    const broken = createDb({ ...client, from: () => settledQuery(Promise.reject(new Error('offline'))) } as unknown as SupabaseClient);
+    const { error } = await broken.users.list();
+    expect(error).toMatchObject({ code: 'UNKNOWN', message: 'offline' });
+  });
+
+  it('lists guests with their invite and companions, newest first', async () => {
+    const { client, db } = await loadDb();
+    const ana = await signIn(client, 'ana@example.com');
+    await client.from('invites').update({ is_used: true, used_by: ana }).eq('code', 'G15-A01');
+    await client.from('companions').insert({ invite_code: 'G15-A01', name: 'Pepe', rsvp_status: 'PENDING', is_celiac: false });
+
+    const { data } = await db.guests.list();
+    expect(data![0]).toMatchObject({ user_id: ana, invite: { code: 'G15-A01' }, companions: [{ name: 'Pepe' }] });
+    expect(data!.find(g => g.user_id === 'bot')).toMatchObject({ invite: null, companions: [] });
+  });
+
+  it('fails the guest list when invites or companions fail to load', async () => {
+    const { client } = await loadDb();
+    const { createDb } = await import('./db');
+    for (const table of ['invites', 'companions']) {
+      const { data, error } = await createDb(failingOn(client, table)).guests.list();
+      expect(data).toBeNull();
+      expect(error?.message).toBe('boom');
+    }
+  });
+
+  it('reports a post from a muted guest as FORBIDDEN', async () => {
+    const { client, db } = await loadDb();
+    const ana = await signIn(client, 'ana@example.com');
+    expect((await db.messages.send(ana, 'hola', null)).error).toBeNull();
+
+    await client.from('users').update({ is_muted: true }).eq('user_id', ana);
+    expect((await db.users.getById(ana)).data?.is_muted).toBeFalsy(); // Guests can't mute (or unmute) themselves
+
+    await signIn(client, 'admin@example.com', UserSegment.ADMIN);
+    await db.users.update(ana, { is_muted: true });
+    await client.auth.signInWithPassword({ email: 'ana@example.com', password: 'secreto' });
+    expect((await db.messages.send(ana, 'hola', null)).error?.code).toBe('FORBIDDEN');
+  });
+
+  it('records the previous holder of a reassigned code and refuses to revoke a used one', async () => {
+    const { client, db } = await loadDb();
+    const ana = await signIn(client, 'ana@example.com');
+    const bruno = await signIn(client, 'bruno@example.com');
+    await client.from('invites').update({ is_used: true, used_by: ana }).eq('code', 'G15-J01');
+    await signIn(client, 'admin@example.com', UserSegment.ADMIN);
+
+    expect((await db.invites.reassign('G15-J01', bruno)).error).toBeNull();
+    const { data: events } = await db.invites.listEvents('G15-J01');
+    expect(events![0]).toMatchObject({ action: 'REASSIGNED', details: bruno, previous_user_id: ana });
+
+    const revoked = await db.invites.revoke('G15-J01');
+    expect(revoked.error).toMatchObject({ code: 'CONFLICT', message: expect.stringMatching(/ya fue usado/) });
+    expect((await db.invites.revoke('G15-J02')).error).toBeNull();
+  });
+
+  it('redeems a code for one account only', async () => {
+    const { client, db } = await loadDb();
+    await client.auth.signUp({ email: 'ana@example.com', password: 'secreto' });
+    const { data: invite } = await db.invites.redeem('G15-A01');
+    expect(invite).toMatchObject({ code: 'G15-A01', segment: UserSegment.ADULT, party_size: 2, is_used: true });
+    expect((await db.invites.validate('G15-A01')).data?.status).toBe('VALID'); // Still ours, e.g. back from the magic link
+
+    await client.auth.signUp({ email: 'bruno@example.com', password: 'secreto' });
+    expect((await db.invites.validate('G15-A01')).data?.status).toBe('USED');
+    expect((await db.invites.redeem('G15-A01')).error?.code).toBe('CONFLICT');
+    expect((await db.invites.redeem('ADMIN-SETUP')).error?.code).toBe('FORBIDDEN');
+  });
+
+  it('counts wrong codes, redeemed ones included, and locks the client out', async () => {
+    const { client, db } = await loadDb();
+    await client.auth.signUp({ email: 'ana@example.com', password: 'secreto' });
+    for (let i = 0; i < 4; i++) await db.invites.validate(`G15-J9${i}`);
+    expect((await db.invites.redeem('G15-J99')).error?.code).toBe('NOT_FOUND');
+    expect((await db.invites.validate('G15-J01')).data).toMatchObject({ status: 'LOCKED', retry_after_seconds: 30 });
+  });
+
+  it('logs every RSVP change in the database, with the status it replaced', async () => {
+    const { client, db } = await loadDb();
+    const ana = await signIn(client, 'ana@example.com');
+    await db.invites.redeem('G15-A01');
+    const { data: pepe } = await db.companions.create({ invite_code: 'G15-A01', name: 'Pepe' });
+
+    await db.rsvp.setForUser(ana, 'CONFIRMED');
+    await db.rsvp.setForUser(ana, 'CONFIRMED');
+    await db.rsvp.setForCompanion(pepe!.id, 'CONFIRMED');
+    await db.rsvp.removeCompanion(pepe!.id);
+    const forged = await client.from('rsvp_changes').insert({ user_id: ana, subject_name: 'x', previous_status: 'PENDING', status: 'DECLINED' });
+    expect(forged.error?.code).toBe('42501');
+
+    await signIn(client, 'admin@example.com', UserSegment.ADMIN);
+    const { data: changes } = await db.rsvp.listChanges();
+    expect(changes!.map(c => [c.subject_name, c.previous_status, c.status, c.changed_by])).toEqual([
+      ['Pepe', 'CONFIRMED', 'DECLINED', ana],
+      ['Pepe', 'PENDING', 'CONFIRMED', ana],
+      ['ana', 'PENDING', 'CONFIRMED', ana]
+    ]);
+    expect(changes!.every(c => c.user_id === ana)).toBe(true);
+  });
+
+  it('unseats the guests of a removed table', async () => {
+    const { client, db } = await loadDb();
+    const ana = await signIn(client, 'ana@example.com');
+    await signIn(client, 'admin@example.com', UserSegment.ADMIN);
+    await db.users.update(ana, { table_id: 1 });
+    await db.invites.createMany([{ code: 'G15-A99', segment: UserSegment.ADULT, is_used: false, table_id: 1 }]);
+
+    expect((await db.tables.remove(1)).error).toBeNull();
+    expect((await db.tables.list()).data!.map(t => t.id)).toEqual([2]);
+    expect((await db.users.getById(ana)).data?.table_id).toBeNull();
+    expect((await db.invites.list()).data!.find(i => i.code === 'G15-A99')?.table_id).toBeNull();
+  });
+
+  it('keeps guests out of admin-only operations', async () => {
+    const { client, db } = await loadDb();
+    await signIn(client, 'ana@example.com');
+    expect((await db.invites.revoke('G15-J01')).error?.code).toBe('FORBIDDEN');
+    expect((await db.messages.activity()).error?.code).toBe('FORBIDDEN');
+  });
+
+  it('lets guests upload pending photos but not moderate or feature them', async () => {
+    const { client, db } = await loadDb();
+    const ana = await signIn(client, 'ana@example.com');
+    const photo = { user_id: ana, storage_path: 'ana/1.jpg', thumbnail_path: null, media_type: 'IMAGE' as const, duration_seconds: null };
+    expect((await db.photos.create(photo)).error).toBeNull();
+    expect((await db.photos.create({ ...photo, user_id: 'bot' })).error?.code).toBe('FORBIDDEN');
+
+    const [{ id }] = (await db.photos.listAll()).data!;
+    await db.photos.setFeatured(id, true);
+    expect((await db.photos.moderate([id], 'APPROVED')).error?.code).toBe('FORBIDDEN');
+    expect((await db.photos.listAll()).data![0]).toMatchObject({ status: 'PENDING', is_featured: false });
+  });
+
+  it('keeps one row per uploaded file when the create is retried', async () => {
+    const { client, db } = await loadDb();
+    const ana = await signIn(client, 'ana@example.com');
+    const photo = { user_id: ana, storage_path: 'ana/1.jpg', thumbnail_path: null, media_type: 'IMAGE' as const, duration_seconds: null };
+    expect((await db.photos.create(photo)).error).toBeNull();
+    expect((await db.photos.create(photo)).error).toBeNull();
+    expect((await db.photos.listAll()).data).toHaveLength(1);
+  });
+
+  it('only grants admin rights through an admin invite', async () => {
+    const { client, db } = await loadDb();
+    const bruno = await signIn(client, 'bruno@example.com');
+    await client.auth.signUp({ email: 'ana@example.com', password: 'secreto' });
+    const ana = (await client.auth.getUser()).data.user!.id;
+
+    const selfPromoted = await db.users.create({ user_id: ana, name: 'Ana', segment: UserSegment.ADMIN, is_celiac: false, created_at: '' });
+    expect(selfPromoted.error?.code).toBe('FORBIDDEN');
+    expect((await db.invites.claimAdmin('G15-J01')).error?.code).toBe('FORBIDDEN');
+
+    expect((await db.users.create({ user_id: ana, name: 'Ana', segment: UserSegment.YOUNG, is_celiac: false, created_at: '' })).error).toBeNull();
+    await db.users.update(ana, { segment: UserSegment.ADMIN, table_id: 1 });
+    await db.users.update(bruno, { name: 'Hackeado' });
+    const { data: profile } = await db.users.getById(ana);
+    expect([profile?.segment, profile?.table_id ?? null]).toEqual([UserSegment.YOUNG, null]);
+    expect((await db.users.getById(bruno)).data?.name).toBe('bruno');
+
+    expect((await db.invites.claimAdmin('ADMIN-SETUP')).error).toBeNull();
+    expect((await db.users.update(bruno, { table_id: 1 })).error).toBeNull();
+    expect((await db.users.getById(bruno)).data?.table_id).toBe(1);
+  });
+});
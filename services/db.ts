@@ -0,0 +1,355 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from './supabaseClient';
+import { ChatCursor } from './chatHistory';
+import { ImportedInvite } from './guestImport';
+import {
+  UserProfile, UserSummary, InviteCode, Photo, ChatMessage, SongSuggestion,
+  EventConfig, ThemeConfig, Guest, Companion, SeatingTable, PhotoModerationEntry, InviteEvent, InviteAction, TimelineMoment,
+  RsvpChange, RsvpStatus, HiddenMessageText, ProjectorFeed, InviteCodeCheck, InviteRotation, ChatActivityHour
+} from '../types';
+
+// Typed data-access layer. Every function maps to one table operation (or one
+// database function, where the server has to enforce a rule) and returns `{ data, error }` with a normalized DataError instead of raw
+// PostgREST / Storage errors. Build one with `createDb(client)` to run the
+// same logic against the real client, the offline mock or a test double.
+
+export type DataErrorCode = 'NOT_FOUND' | 'CONFLICT' | 'FORBIDDEN' | 'BUCKET_NOT_FOUND' | 'UNKNOWN';
+
+export class DataError extends Error {
+  constructor(message: string, public code: DataErrorCode = 'UNKNOWN', public cause?: unknown) {
+    super(message);
+    this.name = 'DataError';
+  }
+}
+
+export type DataResult<T> = { data: T; error: null } | { data: null; error: DataError };
+
+type RawError = { message: string; code?: string } | null;
+
+export const toDataError = (raw: NonNullable<RawError>): DataError => {
+  if (raw.code === 'PGRST116' || raw.code === 'P0002') return new DataError('No encontrado', 'NOT_FOUND', raw);
+  if (raw.code === '55000') return new DataError('El registro cambió y la operación ya no aplica', 'CONFLICT', raw);
+  if (raw.code === '42501') return new DataError('No tenés permiso para hacer esto', 'FORBIDDEN', raw);
+  if (raw.code === '23505') return new DataError('Ya existe un registro con esos datos', 'CONFLICT', raw);
+  if (/bucket not found/i.test(raw.message)) return new DataError('Bucket "user_photos" no encontrado. Verificá Supabase Storage.', 'BUCKET_NOT_FOUND', raw);
+  return new DataError(raw.message || 'Error de conexión', 'UNKNOWN', raw);
+};
+
+const ok = <T>(data: T): DataResult<T> => ({ data, error: null });
+const fail = <T>(error: DataError): DataResult<T> => ({ data: null, error });
+
+// Wraps a PostgREST call; `fallback` is returned when the query yields no data.
+const run = async <T>(query: PromiseLike<{ data: any; error: RawError }>, fallback: T): Promise<DataResult<T>> => {
+  try {
+    const { data, error } = await query;
+    if (error) return fail(toDataError(error));
+    return ok((data ?? fallback) as T);
+  } catch (e: any) {
+    return fail(new DataError(e?.message || 'Error de conexión', 'UNKNOWN', e));
+  }
+};
+
+// Like `run` for `.single()` lookups: a missing row is `null`, not an error.
+const runMaybe = async <T>(query: PromiseLike<{ data: any; error: RawError }>): Promise<DataResult<T | null>> => {
+  const result = await run<T | null>(query, null);
+  if (result.error?.code === 'NOT_FOUND') return ok(null);
+  return result;
+};
+
+// Fraction (0-1) of a file's bytes sent so far
+export type UploadProgress = (fraction: number) => void;
+
+// fetch, which supabase-js uses, can't report upload progress; XHR can. Sends
+// `file` to a signed upload URL the way storage-js' uploadToSignedUrl does.
+const sendWithProgress = (signedUrl: string, file: Blob, onProgress: UploadProgress) =>
+  new Promise<{ data: null; error: RawError }>(resolve => {
+    const body = new FormData();
+    body.append('cacheControl', '3600');
+    body.append('', file);
+    const xhr = new XMLHttpRequest();
+    xhr.open('PUT', signedUrl);
+    xhr.setRequestHeader('x-upsert', 'true');
+    xhr.upload.onprogress = e => { if (e.lengthComputable) onProgress(e.loaded / e.total); };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) return resolve({ data: null, error: null });
+      let message = xhr.statusText;
+      try { message = JSON.parse(xhr.responseText).message || message; } catch { /* not JSON */ }
+      resolve({ data: null, error: { message } });
+    };
+    xhr.onerror = () => resolve({ data: null, error: { message: 'Error de conexión' } });
+    xhr.send(body);
+  });
+
+export type NewCompanion = Pick<Companion, 'invite_code' | 'name'>;
+export type NewPhoto = Pick<Photo, 'user_id' | 'storage_path' | 'thumbnail_path' | 'media_type' | 'duration_seconds'>;
+export type NewSongSuggestion = Pick<SongSuggestion, 'user_id' | 'url' | 'comment'>;
+export type NewTimelineMoment = Pick<TimelineMoment, 'title' | 'description' | 'time' | 'segments'>;
+export type ModerationStatus = 'APPROVED' | 'REJECTED';
+
+export const PHOTO_BUCKET = 'user_photos';
+
+export const createDb = (client: SupabaseClient) => {
+  const users = {
+    getById: (userId: string) =>
+      runMaybe<UserProfile>(client.from('users').select('*').eq('user_id', userId).single()),
+    getSummary: (userId: string) =>
+      runMaybe<UserSummary>(client.from('users').select('name, avatar_url').eq('user_id', userId).single()),
+    list: () => run<UserProfile[]>(client.from('users').select('*'), []),
+    listByTable: (tableId: number) =>
+      run<UserProfile[]>(client.from('users').select('*').eq('table_id', tableId), []),
+    create: (profile: UserProfile) => run<null>(client.from('users').insert(profile), null),
+    update: (userId: string, changes: Partial<Omit<UserProfile, 'user_id'>>) =>
+      run<null>(client.from('users').update(changes).eq('user_id', userId), null)
+  };
+
+  // One transaction per action: the change and its 'invite_events' row (with
+  // the previous holder) are written together
+  const inviteAction = (
+    code: string, changes: Partial<InviteCode>, action: InviteAction, details: string | null = null, onlyUnused = false
+  ) =>
+    run<null>(client.rpc('invite_action', {
+      p_code: code, p_action: action, p_changes: changes, p_details: details, p_only_unused: onlyUnused
+    }), null);
+
+  const invites = {
+    // Login check: the database counts wrong codes per IP and locks out guessers
+    validate: (code: string) =>
+      run<InviteCodeCheck | null>(client.rpc('validate_invite_code', { p_code: code }), null),
+    // Binds a guest code to the signed-in account (checked like `validate`) and
+    // returns the invite; CONFLICT when someone else already redeemed it
+    redeem: (code: string) => run<InviteCode | null>(client.rpc('redeem_invite', { p_code: code }), null),
+    getByUser: (userId: string) =>
+      runMaybe<InviteCode>(client.from('invites').select('*').eq('used_by', userId).single()),
+    list: () => run<InviteCode[]>(client.from('invites').select('*'), []),
+    // All or nothing, with a CREATED event per code; CONFLICT when a code already exists
+    createMany: (rows: InviteCode[]) =>
+      run<null>(client.rpc('create_invites', {
+        p_invites: rows.map(({ code, segment, party_size, label, table_id }) => ({ code, segment, party_size, label, table_id }))
+      }), null),
+    // Guest list import: creates `newTables` and the invites in one transaction
+    importGuests: (newTables: Pick<SeatingTable, 'name' | 'capacity'>[], rows: ImportedInvite[]) =>
+      run<null>(client.rpc('import_guests', {
+        p_tables: newTables,
+        p_invites: rows.map(({ code, segment, party_size, label, table_id, table_name }) => ({ code, segment, party_size, label, table_id, table_name }))
+      }), null),
+    // Grants the signed-in account admin rights; FORBIDDEN unless `code` is an admin invite
+    claimAdmin: (code: string) => run<null>(client.rpc('claim_admin_invite', { p_code: code }), null),
+
+    // Admin lifecycle actions; each one is recorded in 'invite_events'
+    setLabel: (code: string, label: string) =>
+      inviteAction(code, { label: label || null }, 'LABELED', label || null),
+    // Only unused codes: a redeemed one has to be unbound first
+    revoke: async (code: string): Promise<DataResult<null>> => {
+      const result = await inviteAction(code, { is_revoked: true }, 'REVOKED', null, true);
+      if (result.error?.code === 'CONFLICT') return fail(new DataError('El código ya fue usado: desvinculalo antes de revocarlo', 'CONFLICT', result.error));
+      return result;
+    },
+    restore: (code: string) => inviteAction(code, { is_revoked: false }, 'RESTORED'),
+    // Frees the code so it can be redeemed again (e.g. the guest lost access to their email)
+    unbind: (code: string) => inviteAction(code, { is_used: false, used_by: null }, 'UNBOUND'),
+    // Moves the code (and its companions) to another registered account
+    reassign: (code: string, userId: string) =>
+      inviteAction(code, { is_used: true, used_by: userId, is_revoked: false }, 'REASSIGNED', userId),
+    // Swaps unused legacy codes for new ones in one transaction; returns how many were rotated
+    rotate: (rotations: InviteRotation[]) =>
+      run<number>(client.rpc('rotate_invite_codes', { p_rotations: rotations }), 0),
+    listEvents: (code: string) =>
+      run<InviteEvent[]>(
+        client.from('invite_events').select('*, users(name)').eq('invite_code', code).order('created_at', { ascending: false }).order('id', { ascending: false }),
+        []
+      )
+  };
+
+  const companions = {
+    list: () => run<Companion[]>(client.from('companions').select('*').order('id', { ascending: true }), []),
+    listByInvite: (inviteCode: string) =>
+      run<Companion[]>(client.from('companions').select('*').eq('invite_code', inviteCode).order('id', { ascending: true }), []),
+    create: (companion: NewCompanion) =>
+      run<Companion | null>(client.from('companions').insert({ ...companion, rsvp_status: 'PENDING', is_celiac: false }).select().single(), null),
+    update: (id: number, changes: Partial<Pick<Companion, 'name' | 'rsvp_status' | 'is_celiac' | 'dietary'>>) =>
+      run<null>(client.from('companions').update(changes).eq('id', id), null),
+    remove: (id: number) => run<null>(client.from('companions').delete().eq('id', id), null)
+  };
+
+  const tables = {
+    list: () => run<SeatingTable[]>(client.from('seating_tables').select('*').order('id', { ascending: true }), []),
+    getById: (id: number) => runMaybe<SeatingTable>(client.from('seating_tables').select('*').eq('id', id).single()),
+    create: (table: Pick<SeatingTable, 'name' | 'capacity'>) =>
+      run<SeatingTable | null>(client.from('seating_tables').insert(table).select().single(), null),
+    update: (id: number, changes: Partial<Pick<SeatingTable, 'name' | 'capacity'>>) =>
+      run<null>(client.from('seating_tables').update(changes).eq('id', id), null),
+    // Guests seated there are unseated by the table_id foreign keys (on delete set null)
+    remove: (id: number) => run<null>(client.from('seating_tables').delete().eq('id', id), null)
+  };
+
+  // Every change lands in 'rsvp_changes', written by database triggers in
+  // the same statement (with the status it replaced)
+  const rsvp = {
+    setForUser: (userId: string, status: RsvpStatus) =>
+      users.update(userId, { rsvp_status: status, rsvp_updated_at: new Date().toISOString() }),
+    setForCompanion: (companionId: number, status: RsvpStatus) => companions.update(companionId, { rsvp_status: status }),
+    // A confirmed companion leaving the party is logged as declining
+    removeCompanion: (companionId: number) => companions.remove(companionId),
+    // Newest first
+    listChanges: () =>
+      run<RsvpChange[]>(client.from('rsvp_changes').select('*').order('created_at', { ascending: false }).order('id', { ascending: false }), [])
+  };
+
+  const guests = {
+    // Users (the source of truth) merged with the invite each one redeemed and
+    // that invite's companions, newest first
+    list: async (): Promise<DataResult<Guest[]>> => {
+      const [usersRes, invitesRes, companionsRes] = await Promise.all([users.list(), invites.list(), companions.list()]);
+      // A partial list would show guests without their invite or party
+      const error = usersRes.error || invitesRes.error || companionsRes.error;
+      if (error) return fail(error);
+      const inviteByUser = new Map<string, InviteCode>();
+      invitesRes.data!.forEach(i => { if (i.used_by) inviteByUser.set(i.used_by, i); });
+      const companionsByInvite = new Map<string, Companion[]>();
+      companionsRes.data!.forEach(c => companionsByInvite.set(c.invite_code, [...(companionsByInvite.get(c.invite_code) || []), c]));
+      return ok(usersRes.data!
+        .map(u => {
+          const invite = inviteByUser.get(u.user_id) || null;
+          return { ...u, invite, companions: invite ? companionsByInvite.get(invite.code) || [] : [] };
+        })
+        .sort((a, b) => (b.created_at || '').localeCompare(a.created_at || '')));
+    }
+  };
+
+  const photos = {
+    // Featured photos first, then newest first
+    listApproved: (limit = 10) =>
+      run<Photo[]>(
+        client.from('photos').select('*, users(name)').eq('status', 'APPROVED')
+          .order('is_featured', { ascending: false }).order('created_at', { ascending: false }).limit(limit),
+        []
+      ),
+    // One page of the full gallery, optionally restricted to one uploader
+    listApprovedPage: (offset: number, limit: number, userId: string | null = null) => {
+      let query = client.from('photos').select('*, users(name)').eq('status', 'APPROVED');
+      if (userId) query = query.eq('user_id', userId);
+      return run<Photo[]>(
+        query.order('is_featured', { ascending: false }).order('created_at', { ascending: false }).range(offset, offset + limit - 1),
+        []
+      );
+    },
+    // Uploader of every approved photo, to build the gallery filter
+    listApprovedUploaders: () =>
+      run<Pick<Photo, 'user_id' | 'users'>[]>(client.from('photos').select('user_id, users(name)').eq('status', 'APPROVED'), []),
+    listAll: () =>
+      run<Photo[]>(client.from('photos').select('*, users(name)').order('created_at', { ascending: false }), []),
+    // Idempotent per storage_path: a retry after a lost response doesn't add a second row
+    create: (photo: NewPhoto) =>
+      run<null>(
+        client.from('photos').upsert({ ...photo, status: 'PENDING', is_featured: false }, { onConflict: 'storage_path', ignoreDuplicates: true }),
+        null
+      ),
+    // Applies one decision to many photos and logs every actual change (so it
+    // can be reverted) in a single transaction
+    moderate: (photoIds: number[], status: Photo['status']) =>
+      run<null>(client.rpc('moderate_photos', { p_photo_ids: photoIds, p_status: status }), null),
+    listModerationLog: (limit = 50) =>
+      run<PhotoModerationEntry[]>(
+        client.from('photo_moderation_log').select('*, users(name)').order('created_at', { ascending: false }).order('id', { ascending: false }).limit(limit),
+        []
+      ),
+    setFeatured: (photoId: number, isFeatured: boolean) =>
+      run<null>(client.from('photos').update({ is_featured: isFeatured }).eq('id', photoId), null),
+    // Overwrites: retries of an upload reuse its path. With `onProgress` the
+    // file goes through a signed upload URL so the bytes sent can be reported
+    // (over XHR where the URL is http(s); elsewhere, e.g. offline, once done).
+    upload: async (path: string, file: Blob, onProgress?: UploadProgress): Promise<DataResult<null>> => {
+      const bucket = client.storage.from(PHOTO_BUCKET);
+      if (!onProgress) return run<null>(bucket.upload(path, file, { upsert: true }).then(r => ({ ...r, data: null })), null);
+      const signed = await run<{ signedUrl: string; token: string } | null>(bucket.createSignedUploadUrl(path, { upsert: true }), null);
+      if (signed.error) return fail(signed.error);
+      const { signedUrl, token } = signed.data!;
+      if (typeof XMLHttpRequest !== 'undefined' && /^https?:/.test(signedUrl)) return run<null>(sendWithProgress(signedUrl, file, onProgress), null);
+      const result = await run<null>(bucket.uploadToSignedUrl(path, token, file, { upsert: true }).then(r => ({ ...r, data: null })), null);
+      if (!result.error) onProgress(1);
+      return result;
+    },
+    removeFiles: (paths: string[]) => run<null>(client.storage.from(PHOTO_BUCKET).remove(paths).then(r => ({ ...r, data: null })), null),
+    publicUrl: (path: string) => client.storage.from(PHOTO_BUCKET).getPublicUrl(path).data.publicUrl
+  };
+
+  const messages = {
+    // Messages per hour, counted in the database, for the admin activity chart
+    activity: () => run<ChatActivityHour[]>(client.rpc('chat_activity'), []),
+    // Latest `limit` messages, returned oldest first for display
+    listRecent: (limit = 50) => messages.listBefore(null, limit),
+    // Page of `limit` messages strictly older than `cursor`, oldest first
+    listBefore: async (cursor: ChatCursor | null, limit = 50): Promise<DataResult<ChatMessage[]>> => {
+      let query = client.from('messages').select('*, users(name, avatar_url)');
+      if (cursor) {
+        query = query.or(`created_at.lt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.lt.${cursor.id})`);
+      }
+      const result = await run<ChatMessage[]>(
+        query.order('created_at', { ascending: false }).order('id', { ascending: false }).limit(limit),
+        []
+      );
+      return result.error ? fail(result.error) : ok([...result.data].reverse());
+    },
+    // FORBIDDEN when the author is muted
+    send: (userId: string, text: string, replyTo: number | null = null) =>
+      run<null>(client.from('messages').insert({ user_id: userId, text, reply_to: replyTo }), null),
+    // Toggles the signed-in user's reaction atomically; returns the new reactions map
+    toggleReaction: (messageId: number, emoji: string) =>
+      run<ChatMessage['reactions']>(client.rpc('toggle_reaction', { p_message_id: messageId, p_emoji: emoji }), null),
+    // Hiding moves the text to 'hidden_message_texts' (admins only) and blanks it in 'messages'
+    hide: (messageId: number, reason: string) =>
+      run<null>(client.rpc('hide_message', { p_message_id: messageId, p_reason: reason }), null),
+    unhide: (messageId: number) => run<null>(client.rpc('unhide_message', { p_message_id: messageId }), null),
+    listHiddenTexts: () => run<HiddenMessageText[]>(client.from('hidden_message_texts').select('message_id, text'), []),
+    remove: (messageId: number) => run<null>(client.from('messages').delete().eq('id', messageId), null)
+  };
+
+  const songs = {
+    listAll: () =>
+      run<SongSuggestion[]>(client.from('song_suggestions').select('*, users(name)').order('created_at', { ascending: false }), []),
+    listByUser: (userId: string) =>
+      run<SongSuggestion[]>(client.from('song_suggestions').select('*').eq('user_id', userId).order('created_at', { ascending: false }), []),
+    create: (suggestion: NewSongSuggestion) =>
+      run<SongSuggestion | null>(client.from('song_suggestions').insert({ ...suggestion, status: 'PENDING' }).select().single(), null),
+    setStatus: (songId: number, status: ModerationStatus) =>
+      run<null>(client.from('song_suggestions').update({ status }).eq('id', songId), null)
+  };
+
+  const timeline = {
+    list: () => run<TimelineMoment[]>(client.from('timeline_moments').select('*').order('time', { ascending: true }), []),
+    create: (moment: NewTimelineMoment) =>
+      run<TimelineMoment | null>(client.from('timeline_moments').insert({ ...moment, started_at: null }).select().single(), null),
+    update: (id: number, changes: Partial<NewTimelineMoment>) =>
+      run<null>(client.from('timeline_moments').update(changes).eq('id', id), null),
+    remove: (id: number) => run<null>(client.from('timeline_moments').delete().eq('id', id), null),
+    // Guests get the change through the 'public:timeline_moments' channel; null
+    // goes back to the scheduled time
+    setStarted: (id: number, startedAt: string | null) =>
+      run<null>(client.from('timeline_moments').update({ started_at: startedAt }).eq('id', id), null)
+  };
+
+  const config = {
+    getEvent: () => runMaybe<EventConfig>(client.from('event_config').select('*').single()),
+    getTheme: () => runMaybe<ThemeConfig>(client.from('theme_config').select('*').single()),
+    // Admin only: the token lives in 'projector_settings', outside the public event_config
+    getProjectorToken: async (): Promise<DataResult<string | null>> => {
+      const result = await runMaybe<{ token: string | null }>(client.from('projector_settings').select('token').eq('id', 1).single());
+      return result.error ? fail(result.error) : ok(result.data?.token ?? null);
+    },
+    saveProjectorToken: (token: string | null) =>
+      run<null>(client.from('projector_settings').upsert({ id: 1, token }), null),
+    // Slideshow content for the venue screen; null when `token` is not the current one
+    getProjectorFeed: (token: string) =>
+      run<ProjectorFeed | null>(client.rpc('projector_feed', { p_token: token }), null),
+    saveEvent: ({ id, ...fields }: EventConfig) =>
+      run<null>(client.from('event_config').update(fields).eq('id', id), null),
+    saveTheme: ({ id, ...fields }: ThemeConfig) =>
+      run<null>(client.from('theme_config').update(fields).eq('id', id), null)
+  };
+
+  return { users, invites, companions, tables, rsvp, guests, photos, messages, songs, timeline, config };
+};
+
+export type Db = ReturnType<typeof createDb>;
+
+export const db: Db = createDb(supabase);
@@ -0,0 +1,49 @@
+import { Photo } from '../types';
+
+// Gallery helpers: ordering, uploader filter options and downloads.
+
+export const GALLERY_PAGE_SIZE = 24;
+
+// Featured photos are pinned first, then newest first.
+export const compareGalleryPhotos = (a: Photo, b: Photo) => {
+  if (a.is_featured !== b.is_featured) return a.is_featured ? -1 : 1;
+  return (b.created_at || '').localeCompare(a.created_at || '');
+};
+
+export interface Uploader {
+  user_id: string;
+  name: string;
+  count: number;
+}
+
+// Distinct uploaders of the given photos, most active first.
+export const getUploaders = (photos: Pick<Photo, 'user_id' | 'users'>[]): Uploader[] => {
+  const byUser = new Map<string, Uploader>();
+  photos.forEach(p => {
+    const entry = byUser.get(p.user_id) || { user_id: p.user_id, name: p.users?.name || 'Invitado', count: 0 };
+    entry.count++;
+    byUser.set(p.user_id, entry);
+  });
+  return [...byUser.values()].sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+};
+
+// File name for a downloaded photo, keeping the original extension.
+export const photoFileName = (photo: Pick<Photo, 'id' | 'storage_path'>) => {
+  const ext = photo.storage_path.match(/\.([a-z0-9]+)$/i)?.[1] || 'jpg';
+  return `gemma15_${photo.id}.${ext}`;
+};
+
+// Downloads via a blob so the browser saves the file instead of navigating to a
+// cross-origin URL (the `download` attribute is ignored for those).
+export const downloadPhoto = async (url: string, fileName: string) => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  const objectUrl = URL.createObjectURL(await response.blob());
+  const a = document.createElement('a');
+  a.href = objectUrl;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(objectUrl);
+};
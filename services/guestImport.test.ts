@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { UserSegment } from '../types';
+import { buildImportedInvites, IMPORT_MAX_PARTY_SIZE, planGuestImport } from './guestImport';
+import { generateInviteCode, hasValidChecksum } from './inviteCodes';
+import { invite, table } from './testFixtures';
+
+describe('planGuestImport', () => {
+  it('reports missing required columns', () => {
+    const plan = planGuestImport([['Mesa', 'Personas'], ['1', '2']], [], []);
+    expect(plan.missingColumns).toEqual(['Nombre', 'Segmento']);
+    expect(plan.rows).toEqual([]);
+  });
+
+  it('matches headers and segments without accents or case', () => {
+    const plan = planGuestImport([['NOMBRE', 'Segmento', 'Código'], ['Ana', 'jovenes', ''], ['Luis', 'ADU', '']], [], []);
+    expect(plan.valid.map(r => [r.label, r.segment, r.partySize])).toEqual([
+      ['Ana', UserSegment.YOUNG, 1],
+      ['Luis', UserSegment.ADULT, 1]
+    ]);
+  });
+
+  it('flags invalid rows with their spreadsheet line', () => {
+    const plan = planGuestImport([
+      ['Nombre', 'Segmento', 'Personas'],
+      ['', 'J', '1'],
+      ['Ana', 'Niños', '1'],
+      ['Luis', 'A', String(IMPORT_MAX_PARTY_SIZE + 1)],
+      ['Eva', 'A', '1.5']
+    ], [], []);
+    expect(plan.valid).toEqual([]);
+    expect(plan.rows.map(r => [r.line, r.errors.length])).toEqual([[2, 1], [3, 1], [4, 1], [5, 1]]);
+    expect(plan.rows[1].errors[0]).toContain('Niños');
+  });
+
+  it('rejects bad checksums and codes that already exist or repeat', () => {
+    const fresh = generateInviteCode(UserSegment.ADULT);
+    const taken = generateInviteCode(UserSegment.ADULT);
+    const typo = fresh.slice(0, -1) + (fresh.endsWith('A') ? 'B' : 'A');
+    const plan = planGuestImport([
+      ['Nombre', 'Segmento', 'Codigo'],
+      ['Ana', 'A', fresh.toLowerCase()],
+      ['Luis', 'A', fresh],
+      ['Eva', 'A', taken],
+      ['Sol', 'A', typo]
+    ], [invite(taken)], []);
+    expect(plan.valid.map(r => r.code)).toEqual([fresh]);
+    expect(plan.rows.map(r => r.errors.length)).toEqual([0, 1, 1, 1]);
+  });
+
+  it('resolves existing tables and lists each new one once', () => {
+    const plan = planGuestImport([
+      ['Nombre', 'Segmento', 'Mesa'],
+      ['Ana', 'J', 'Mesa Uno'],
+      ['Luis', 'J', 'Terraza'],
+      ['Eva', 'J', 'terraza'],
+      ['Sol', 'X', 'Jardín']
+    ], [], [table(7, 'mesa uno')]);
+    expect(plan.valid.map(r => r.tableId)).toEqual([7, null, null]);
+    expect(plan.newTables).toHaveLength(1);
+    expect(plan.newTables[0]).toMatch(/^terraza$/i);
+  });
+});
+
+describe('buildImportedInvites', () => {
+  it('generates missing codes and points rows at existing or new tables', () => {
+    const given = generateInviteCode(UserSegment.YOUNG);
+    const plan = planGuestImport([
+      ['Nombre', 'Segmento', 'Personas', 'Mesa', 'Codigo'],
+      ['Ana', 'J', '3', 'Terraza', given],
+      ['Luis', 'A', '', 'Mesa 1', '']
+    ], [], [table(1, 'Mesa 1')]);
+    const invites = buildImportedInvites(plan, []);
+
+    expect(invites[0]).toMatchObject({ code: given, segment: UserSegment.YOUNG, party_size: 3, label: 'Ana', table_id: null, table_name: 'Terraza', is_used: false });
+    expect(invites[1]).toMatchObject({ segment: UserSegment.ADULT, party_size: 1, label: 'Luis', table_id: 1, table_name: null });
+    expect(invites[1].code).toMatch(/^G15-A-/);
+    expect(hasValidChecksum(invites[1].code)).toBe(true);
+  });
+});
@@ -0,0 +1,135 @@
+import { InviteCode, SeatingTable, UserSegment } from '../types';
+import { generateInviteCode, getCodeFormat, hasValidChecksum, normalizeInviteCode } from './inviteCodes';
+import { GUEST_SEGMENTS } from './segments';
+
+// Guest list import: one spreadsheet row per invite to pre-create, with its
+// label, segment, party size and table. `planGuestImport` is the dry run:
+// nothing is written until the admin confirms the preview.
+
+export const IMPORT_MAX_PARTY_SIZE = 20;
+export const IMPORT_TABLE_CAPACITY = 10;
+
+export interface ImportRow {
+  line: number; // Spreadsheet row number (1 = header)
+  label: string;
+  segment: UserSegment | null;
+  partySize: number;
+  tableName: string | null;
+  tableId: number | null; // Existing table, null when none or still to create
+  code: string | null; // Given in the file; generated on import when null
+  errors: string[];
+}
+
+export interface ImportPlan {
+  rows: ImportRow[];
+  valid: ImportRow[];
+  newTables: string[]; // Table names that don't exist yet
+  missingColumns: string[];
+}
+
+// Header aliases, compared without accents or case
+const COLUMNS = {
+  label: ['nombre', 'etiqueta', 'invitado', 'label'],
+  segment: ['segmento', 'segment', 'tipo'],
+  partySize: ['personas', 'cupo', 'party_size', 'cantidad'],
+  table: ['mesa', 'table'],
+  code: ['codigo', 'code']
+};
+
+const simplify = (value: string) => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+
+const parseSegment = (value: string): UserSegment | null => {
+  const v = simplify(value);
+  return GUEST_SEGMENTS.find(s => [s.id, s.label, s.short, s.codeLetter].some(alias => simplify(alias) === v))?.id ?? null;
+};
+
+// Header row to column indexes (-1 when absent)
+const mapColumns = (header: string[]) => {
+  const simplified = header.map(simplify);
+  const find = (aliases: string[]) => simplified.findIndex(h => aliases.includes(h));
+  return {
+    label: find(COLUMNS.label),
+    segment: find(COLUMNS.segment),
+    partySize: find(COLUMNS.partySize),
+    table: find(COLUMNS.table),
+    code: find(COLUMNS.code)
+  };
+};
+
+export const planGuestImport = (sheet: string[][], existingInvites: InviteCode[], tables: SeatingTable[]): ImportPlan => {
+  const [header = [], ...body] = sheet;
+  const columns = mapColumns(header);
+  const missingColumns = [
+    ...(columns.label < 0 ? ['Nombre'] : []),
+    ...(columns.segment < 0 ? ['Segmento'] : [])
+  ];
+  if (missingColumns.length > 0) return { rows: [], valid: [], newTables: [], missingColumns };
+
+  const takenCodes = new Set(existingInvites.map(i => i.code));
+  const tableByName = new Map(tables.map(t => [simplify(t.name), t]));
+  const cell = (row: string[], index: number) => (index >= 0 ? row[index] ?? '' : '').trim();
+
+  const rows = body.map((raw, i): ImportRow => {
+    const errors: string[] = [];
+    const label = cell(raw, columns.label);
+    if (!label) errors.push('Falta el nombre');
+
+    const segmentText = cell(raw, columns.segment);
+    const segment = parseSegment(segmentText);
+    if (!segment) errors.push(segmentText ? `Segmento desconocido "${segmentText}"` : 'Falta el segmento');
+
+    const sizeText = cell(raw, columns.partySize);
+    const partySize = sizeText ? Number(sizeText) : 1;
+    if (!Number.isInteger(partySize) || partySize < 1 || partySize > IMPORT_MAX_PARTY_SIZE) {
+      errors.push(`Personas inválidas "${sizeText}" (1 a ${IMPORT_MAX_PARTY_SIZE})`);
+    }
+
+    const tableName = cell(raw, columns.table) || null;
+    const table = tableName ? tableByName.get(simplify(tableName)) : undefined;
+
+    const codeText = cell(raw, columns.code);
+    const code = codeText ? normalizeInviteCode(codeText) : null;
+    if (code) {
+      if (getCodeFormat(code) === 'INVALID' || !hasValidChecksum(code)) errors.push(`Código inválido "${codeText}"`);
+      else if (takenCodes.has(code)) errors.push(`El código ${code} ya existe o está repetido`);
+      else takenCodes.add(code);
+    }
+
+    return { line: i + 2, label, segment, partySize, tableName, tableId: table?.id ?? null, code, errors };
+  });
+
+  const valid = rows.filter(r => r.errors.length === 0);
+  // Only tables some importable row needs, once per (simplified) name
+  const newTables = new Map<string, string>();
+  valid.forEach(r => { if (r.tableName && r.tableId === null) newTables.set(simplify(r.tableName), r.tableName); });
+  return { rows, valid, newTables: [...newTables.values()], missingColumns };
+};
+
+// Invite to create on import; rows seated at a table that doesn't exist yet
+// carry its name (as listed in `plan.newTables`) instead of a table_id
+export interface ImportedInvite extends InviteCode {
+  table_name: string | null;
+}
+
+// Invites for the valid rows, with their codes generated where missing
+export const buildImportedInvites = (plan: ImportPlan, existingInvites: InviteCode[]): ImportedInvite[] => {
+  const taken = new Set([...existingInvites.map(i => i.code), ...plan.valid.flatMap(r => r.code ? [r.code] : [])]);
+  const newTables = new Map(plan.newTables.map(name => [simplify(name), name]));
+  return plan.valid.map(row => {
+    let code = row.code;
+    while (!code) {
+      const candidate = generateInviteCode(row.segment!);
+      if (!taken.has(candidate)) code = candidate;
+    }
+    taken.add(code);
+    return {
+      code,
+      segment: row.segment!,
+      is_used: false,
+      party_size: row.partySize,
+      label: row.label,
+      table_id: row.tableId,
+      table_name: row.tableId === null && row.tableName ? newTables.get(simplify(row.tableName)) ?? null : null
+    };
+  });
+};
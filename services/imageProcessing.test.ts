@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { readExifOrientation } from './imageProcessing';
+
+// Big-endian JPEG start with one APP1/Exif segment holding a single IFD entry
+const jpeg = (orientation: number, { ifdOffset = 8, entries = 1 } = {}) => {
+  const tiff = [0x4d, 0x4d, 0x00, 0x2a, 0, 0, 0, ifdOffset];
+  const ifd = [0, entries, 0x01, 0x12, 0, 3, 0, 0, 0, 1, 0, orientation, 0, 0];
+  const app1 = [0x45, 0x78, 0x69, 0x66, 0, 0, ...tiff, ...ifd];
+  const size = app1.length + 2;
+  return new Uint8Array([0xff, 0xd8, 0xff, 0xe1, size >> 8, size & 0xff, ...app1]).buffer;
+};
+
+describe('readExifOrientation', () => {
+  it('reads the orientation tag', () => {
+    expect(readExifOrientation(jpeg(6))).toBe(6);
+  });
+
+  it('returns 1 for other files and out-of-range values', () => {
+    expect(readExifOrientation(new Uint8Array([0x89, 0x50, 0x4e, 0x47]).buffer)).toBe(1);
+    expect(readExifOrientation(jpeg(42))).toBe(1);
+  });
+
+  it('returns 1 instead of throwing on offsets past the end of the file', () => {
+    expect(readExifOrientation(jpeg(6, { ifdOffset: 200 }))).toBe(1);
+    expect(readExifOrientation(jpeg(6, { entries: 40 }))).toBe(6);
+    expect(readExifOrientation(jpeg(6).slice(0, 12))).toBe(1);
+    expect(readExifOrientation(jpeg(6).slice(0, 18))).toBe(1);
+  });
+});
@@ -0,0 +1,130 @@
+// Client-side image pipeline for photo uploads: fixes EXIF orientation,
+// downsizes to a max dimension and re-encodes as JPEG. Re-encoding through a
+// canvas drops every metadata block, GPS coordinates included.
+
+export const MAX_PHOTO_DIMENSION = 2048;
+export const THUMBNAIL_DIMENSION = 400;
+const PHOTO_QUALITY = 0.82;
+const THUMBNAIL_QUALITY = 0.7;
+
+export interface ProcessedImage {
+  full: Blob;
+  thumbnail: Blob;
+  width: number;
+  height: number;
+}
+
+// EXIF orientation (1-8) of a JPEG, 1 when absent or not a JPEG.
+export const readExifOrientation = (buffer: ArrayBuffer): number => {
+  const view = new DataView(buffer);
+  // Truncated or corrupt files point past the end: treat them as unrotated
+  const fits = (offset: number, length: number) => offset >= 0 && offset + length <= view.byteLength;
+  if (!fits(0, 4) || view.getUint16(0) !== 0xffd8) return 1;
+
+  let offset = 2;
+  while (fits(offset, 4)) {
+    const marker = view.getUint16(offset);
+    const size = view.getUint16(offset + 2);
+    // APP1 segment starting with "Exif\0\0"
+    if (marker === 0xffe1 && fits(offset, 8) && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      if (!fits(tiff, 8)) return 1;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      if (!fits(ifd, 2)) return 1;
+      const entries = view.getUint16(ifd, little);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (!fits(entry, 10)) break;
+        if (view.getUint16(entry, little) === 0x0112) {
+          const orientation = view.getUint16(entry + 8, little);
+          return orientation >= 1 && orientation <= 8 ? orientation : 1;
+        }
+      }
+      return 1;
+    }
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) break; // start of scan: no more metadata
+    offset += 2 + size;
+  }
+  return 1;
+};
+
+// Modern browsers already rotate images per EXIF when decoding/drawing them.
+const browserAppliesOrientation = () =>
+  typeof CSS !== 'undefined' && typeof CSS.supports === 'function' && CSS.supports('image-orientation', 'from-image');
+
+const loadImage = (file: Blob) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const url = URL.createObjectURL(file);
+  const img = new Image();
+  img.onload = () => { URL.revokeObjectURL(url); resolve(img); };
+  img.onerror = () => { URL.revokeObjectURL(url); reject(new Error('Formato de imagen no soportado')); };
+  img.src = url;
+});
+
+// Decoded image with its EXIF orientation still to apply (1 when already applied).
+const decode = async (file: Blob): Promise<{ source: CanvasImageSource; width: number; height: number; orientation: number }> => {
+  if (typeof createImageBitmap === 'function') {
+    try {
+      const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+      return { source: bitmap, width: bitmap.width, height: bitmap.height, orientation: 1 };
+    } catch {
+      // Fall through to <img>, which also reports a readable error
+    }
+  }
+  const img = await loadImage(file);
+  const orientation = browserAppliesOrientation() ? 1 : readExifOrientation(await file.arrayBuffer());
+  return { source: img, width: img.naturalWidth, height: img.naturalHeight, orientation };
+};
+
+const toBlob = (canvas: HTMLCanvasElement, quality: number) => new Promise<Blob>((resolve, reject) => {
+  canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('No se pudo procesar la imagen')), 'image/jpeg', quality);
+});
+
+// Draws the (oriented) image scaled so its longest side is at most `maxSize`.
+const render = (image: Awaited<ReturnType<typeof decode>>, maxSize: number) => {
+  const swap = image.orientation >= 5; // 90° rotations swap width and height
+  const srcW = swap ? image.height : image.width;
+  const srcH = swap ? image.width : image.height;
+  const scale = Math.min(1, maxSize / Math.max(srcW, srcH));
+  const outW = Math.round(srcW * scale);
+  const outH = Math.round(srcH * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = outW;
+  canvas.height = outH;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas no disponible');
+
+  // JPEG has no alpha: paint transparent PNGs over white instead of black
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, outW, outH);
+
+  const drawW = swap ? outH : outW;
+  const drawH = swap ? outW : outH;
+  switch (image.orientation) {
+    case 2: ctx.transform(-1, 0, 0, 1, outW, 0); break;
+    case 3: ctx.transform(-1, 0, 0, -1, outW, outH); break;
+    case 4: ctx.transform(1, 0, 0, -1, 0, outH); break;
+    case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.transform(0, 1, -1, 0, outW, 0); break;
+    case 7: ctx.transform(0, -1, -1, 0, outW, outH); break;
+    case 8: ctx.transform(0, -1, 1, 0, 0, outH); break;
+  }
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image.source, 0, 0, drawW, drawH);
+  return canvas;
+};
+
+export const processImage = async (file: Blob): Promise<ProcessedImage> => {
+  const image = await decode(file);
+  try {
+    const fullCanvas = render(image, MAX_PHOTO_DIMENSION);
+    const [full, thumbnail] = await Promise.all([
+      toBlob(fullCanvas, PHOTO_QUALITY),
+      toBlob(render(image, THUMBNAIL_DIMENSION), THUMBNAIL_QUALITY)
+    ]);
+    return { full, thumbnail, width: fullCanvas.width, height: fullCanvas.height };
+  } finally {
+    if ('close' in image.source) (image.source as ImageBitmap).close();
+  }
+};
@@ -0,0 +1,82 @@
+import QRCode from 'qrcode';
+import { EventConfig, InviteCode } from '../types';
+import { getEventStart } from './countdown';
+import { buildInviteLink } from './inviteLink';
+import { getSegmentContent } from './segments';
+
+// Printable invitation cards: one card per invite with the segment's time and
+// dress code and a QR code that opens the app with the code already filled in.
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[ch]!));
+
+const cardHtml = (invite: InviteCode, config: EventConfig, qr: string) => {
+  const date = getEventStart(config, invite.segment).toLocaleDateString('es-AR', { weekday: 'long', day: 'numeric', month: 'long' });
+  const { time, dress_code: dressCode } = getSegmentContent(config, invite.segment);
+  return `
+    <div class="card">
+      <p class="to">${escapeHtml(invite.label || 'Invitado/a')}</p>
+      <h1>Gemma 15</h1>
+      <p class="when">${escapeHtml(date)} · ${escapeHtml(time)} hs</p>
+      <p>${escapeHtml(config.location_name)}</p>
+      <p class="small">Dress code: ${escapeHtml(dressCode)}</p>
+      <img src="${qr}" alt="QR" />
+      <p class="small">Escaneá el QR o ingresá el código</p>
+      <p class="code">${escapeHtml(invite.code)}</p>
+    </div>`;
+};
+
+const SHEET_STYLES = `
+  @page { size: A4; margin: 10mm; }
+  * { box-sizing: border-box; }
+  body { font-family: 'Inter', sans-serif; margin: 0; color: #111; }
+  .sheet { display: grid; grid-template-columns: repeat(2, 1fr); gap: 6mm; }
+  .card { border: 1px dashed #999; border-radius: 4mm; padding: 6mm; text-align: center; break-inside: avoid; height: 88mm; }
+  .card h1 { font-family: 'Pacifico', cursive; color: #ec4899; margin: 1mm 0; font-size: 20pt; }
+  .card p { margin: 1mm 0; font-size: 10pt; }
+  .card .to { font-weight: 800; font-size: 12pt; }
+  .card .when { font-weight: 600; text-transform: capitalize; }
+  .card .small { font-size: 8pt; color: #555; }
+  .card img { width: 30mm; height: 30mm; margin: 2mm auto; display: block; }
+  .card .code { font-family: monospace; font-size: 12pt; font-weight: 700; letter-spacing: 1px; }
+`;
+
+// Full printable HTML document for `invites`.
+export const buildInvitationSheet = async (invites: InviteCode[], config: EventConfig) => {
+  const qrs = await Promise.all(invites.map(i => QRCode.toDataURL(buildInviteLink(i.code), { margin: 1, width: 240 })));
+  return `<!DOCTYPE html>
+<html lang="es">
+<head>
+  <meta charset="UTF-8" />
+  <title>Invitaciones Gemma 15</title>
+  <link href="https://fonts.googleapis.com/css2?family=Inter:wght@400;600;800&family=Pacifico&display=swap" rel="stylesheet">
+  <style>${SHEET_STYLES}</style>
+</head>
+<body>
+  <div class="sheet">${invites.map((invite, i) => cardHtml(invite, config, qrs[i])).join('')}</div>
+</body>
+</html>`;
+};
+
+// Opens the sheet in a new window and launches the print dialog ("Guardar como
+// PDF" there gives the PDF). The window must be opened synchronously from the
+// click, so it is created before the QR codes are generated.
+export const printInvitations = async (invites: InviteCode[], config: EventConfig) => {
+  const win = window.open('', '_blank');
+  if (!win) throw new Error('El navegador bloqueó la ventana emergente');
+  win.document.write('<p style="font-family:sans-serif">Generando invitaciones...</p>');
+  try {
+    const html = await buildInvitationSheet(invites, config);
+    win.document.open();
+    win.document.write(html);
+    win.document.close();
+    // The window's load event can fire before a handler could be attached, so
+    // wait for the QR images and fonts directly before printing
+    await Promise.all(Array.from(win.document.images).map(img => img.decode().catch(() => undefined)));
+    await win.document.fonts.ready;
+    win.print();
+  } catch (e) {
+    win.close();
+    throw e;
+  }
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { UserSegment } from '../types';
+import { CODE_ALPHABET, generateInviteCode, getCodeFormat, hasValidChecksum, normalizeInviteCode } from './inviteCodes';
+
+describe('generateInviteCode', () => {
+  it('builds secure codes with the segment letter and a valid checksum', () => {
+    for (let i = 0; i < 50; i++) {
+      const code = generateInviteCode(UserSegment.ADULT);
+      expect(code).toMatch(/^G15-A-[A-Z2-9]{4}-[A-Z2-9]{4}$/);
+      expect(getCodeFormat(code)).toBe('SECURE');
+      expect(hasValidChecksum(code)).toBe(true);
+    }
+  });
+
+  it('never uses ambiguous characters', () => {
+    const chars = Array.from({ length: 20 }, () => generateInviteCode(UserSegment.YOUNG).slice(6)).join('').replace(/-/g, '');
+    expect(chars).not.toMatch(/[01OIL]/);
+  });
+});
+
+describe('hasValidChecksum', () => {
+  const code = generateInviteCode(UserSegment.YOUNG);
+  const chars = code.slice(6).replace('-', '');
+  const rebuild = (c: string) => `G15-J-${c.slice(0, 4)}-${c.slice(4)}`;
+
+  it('catches any single-character typo', () => {
+    for (let i = 0; i < chars.length; i++) {
+      for (const replacement of CODE_ALPHABET) {
+        if (replacement === chars[i]) continue;
+        const typo = chars.slice(0, i) + replacement + chars.slice(i + 1);
+        expect(hasValidChecksum(rebuild(typo))).toBe(false);
+      }
+    }
+  });
+
+  it('catches swapped neighbours', () => {
+    for (let i = 0; i < chars.length - 1; i++) {
+      if (chars[i] === chars[i + 1]) continue;
+      const swapped = chars.slice(0, i) + chars[i + 1] + chars[i] + chars.slice(i + 2);
+      expect(hasValidChecksum(rebuild(swapped))).toBe(false);
+    }
+  });
+
+  it('lets legacy codes through and rejects unknown formats', () => {
+    expect(hasValidChecksum('G15-J01')).toBe(true);
+    expect(hasValidChecksum('ADMIN-SETUP')).toBe(true);
+    expect(hasValidChecksum('HOLA')).toBe(false);
+  });
+});
+
+describe('normalizeInviteCode', () => {
+  it('restores dashes and case in secure codes', () => {
+    expect(normalizeInviteCode(' g15j7kqm4pxc ')).toBe('G15-J-7KQM-4PXC');
+    expect(normalizeInviteCode('G15 J 7KQM 4PXC')).toBe('G15-J-7KQM-4PXC');
+  });
+
+  it('keeps legacy codes in their original shape', () => {
+    expect(normalizeInviteCode('g15-j01')).toBe('G15-J01');
+    expect(normalizeInviteCode('G15A12')).toBe('G15-A12');
+  });
+});
+
+describe('getCodeFormat', () => {
+  it('classifies codes', () => {
+    expect(getCodeFormat('G15-A07')).toBe('LEGACY');
+    expect(getCodeFormat('ADMIN-SETUP')).toBe('LEGACY');
+    expect(getCodeFormat('G15-J-7KQM-4PXC')).toBe('SECURE');
+    expect(getCodeFormat('G15-J-7KQ0-4PXC')).toBe('INVALID');
+    expect(getCodeFormat('G15-X-7KQM-4PXC')).toBe('INVALID');
+  });
+});
@@ -0,0 +1,74 @@
+import { UserSegment } from '../types';
+import { GUEST_SEGMENTS, getSegmentDefinition } from './segments';
+
+// Invite code format. New codes look like `G15-J-7KQM-4PXC`: a segment letter,
+// seven random characters and a check character. The alphabet skips 0/O/1/I/L
+// so codes read well on paper, and the checksum catches single-character typos
+// and swapped neighbours before anything is sent to the server.
+//
+// Codes already handed out (`G15-J01`, `ADMIN-SETUP`...) stay valid: they are
+// looked up as-is and never checksum-validated.
+
+export const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const RANDOM_LENGTH = 7;
+const SEGMENT_LETTERS = GUEST_SEGMENTS.map(s => s.codeLetter).join('');
+
+const SECURE_RE = new RegExp(`^G15-[${SEGMENT_LETTERS}]-[${CODE_ALPHABET}]{4}-[${CODE_ALPHABET}]{4}$`);
+const LEGACY_RE = /^(G15-[JA]\d+|ADMIN-SETUP)$/;
+
+export type CodeFormat = 'SECURE' | 'LEGACY' | 'INVALID';
+
+// Weighted sum modulo the (prime) alphabet size: every weight is non-zero and
+// distinct, so one wrong character or one adjacent swap always changes it.
+const checkChar = (body: string) => {
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) sum += (i + 1) * CODE_ALPHABET.indexOf(body[i]);
+  return CODE_ALPHABET[sum % CODE_ALPHABET.length];
+};
+
+const randomChars = (length: number) => {
+  // Rejection sampling keeps the distribution uniform over the alphabet
+  const limit = 256 - (256 % CODE_ALPHABET.length);
+  let out = '';
+  while (out.length < length) {
+    const bytes = new Uint8Array(length * 2);
+    crypto.getRandomValues(bytes);
+    for (const b of bytes) {
+      if (b < limit && out.length < length) out += CODE_ALPHABET[b % CODE_ALPHABET.length];
+    }
+  }
+  return out;
+};
+
+export const generateInviteCode = (segment: UserSegment) => {
+  const letter = getSegmentDefinition(segment).codeLetter;
+  const random = randomChars(RANDOM_LENGTH);
+  const chars = random + checkChar(letter + random);
+  return `G15-${letter}-${chars.slice(0, 4)}-${chars.slice(4)}`;
+};
+
+// Uppercases, trims and re-inserts dashes so `g15j7kqm4pxc` or
+// `G15 J 7KQM 4PXC` resolve to the canonical form.
+export const normalizeInviteCode = (input: string) => {
+  const code = input.trim().toUpperCase().replace(/[\s_]+/g, '-');
+  const compact = code.replace(/-/g, '');
+  const legacy = compact.match(/^G15([JA])(\d+)$/);
+  if (legacy) return `G15-${legacy[1]}${legacy[2]}`;
+  const secure = compact.match(new RegExp(`^G15([${SEGMENT_LETTERS}])(.{4})(.{4})$`));
+  if (secure) return `G15-${secure[1]}-${secure[2]}-${secure[3]}`;
+  return code;
+};
+
+export const getCodeFormat = (code: string): CodeFormat => {
+  if (LEGACY_RE.test(code)) return 'LEGACY';
+  if (SECURE_RE.test(code)) return 'SECURE';
+  return 'INVALID';
+};
+
+// Checksum of a canonical secure code; legacy codes have none and pass.
+export const hasValidChecksum = (code: string) => {
+  if (getCodeFormat(code) !== 'SECURE') return getCodeFormat(code) === 'LEGACY';
+  const [, letter, first, second] = code.split('-');
+  const chars = first + second;
+  return checkChar(letter + chars.slice(0, RANDOM_LENGTH)) === chars[RANDOM_LENGTH];
+};
@@ -0,0 +1,52 @@
+import { normalizeInviteCode } from './inviteCodes';
+
+// Deep links into the AUTH view. Both `?code=G15-J01` and `/i/G15-J01` work;
+// the query form is what we hand out (QR, WhatsApp) since it needs no server
+// rewrite rule. The code also rides along the magic-link round-trip, in the
+// redirect URL and in localStorage as a fallback.
+
+export const INVITE_CODE_PARAM = 'code';
+const PATH_RE = /\/i\/([^/?#]+)\/?$/;
+const PENDING_KEY = 'pending_invite_code';
+
+export type InviteErrorReason = 'INVALID' | 'TYPO' | 'USED' | 'REVOKED' | 'LOCKED';
+
+export class InviteCodeError extends Error {
+  constructor(message: string, public reason: InviteErrorReason) {
+    super(message);
+    this.name = 'InviteCodeError';
+  }
+}
+
+export const buildInviteLink = (code: string) =>
+  `${window.location.origin}${window.location.pathname.replace(PATH_RE, '/')}?${INVITE_CODE_PARAM}=${encodeURIComponent(code)}`;
+
+// Normalized invite code carried by the current URL, or null.
+export const readInviteCodeFromUrl = (location: Pick<Location, 'search' | 'pathname'> = window.location) => {
+  const raw = new URLSearchParams(location.search).get(INVITE_CODE_PARAM) ?? location.pathname.match(PATH_RE)?.[1];
+  return raw ? normalizeInviteCode(decodeURIComponent(raw)) : null;
+};
+
+// Drops the code from the address bar once used, so a reload or a logout
+// doesn't submit it again.
+export const clearInviteCodeFromUrl = () => {
+  const url = new URL(window.location.href);
+  if (!url.searchParams.has(INVITE_CODE_PARAM) && !PATH_RE.test(url.pathname)) return;
+  url.searchParams.delete(INVITE_CODE_PARAM);
+  if (PATH_RE.test(url.pathname)) url.pathname = '/';
+  window.history.replaceState(null, '', url.toString());
+};
+
+export const savePendingInviteCode = (code: string) => localStorage.setItem(PENDING_KEY, code);
+
+export const getPendingInviteCode = () => localStorage.getItem(PENDING_KEY);
+
+export const clearPendingInviteCode = () => localStorage.removeItem(PENDING_KEY);
+
+// WhatsApp share sheet (the sender picks the contact) with `text` prefilled
+export const buildWhatsAppUrl = (text: string) => `https://wa.me/?text=${encodeURIComponent(text)}`;
+
+export const buildWhatsAppShareUrl = (code: string, label?: string | null) => {
+  const greeting = label ? `¡Hola ${label}! ` : '¡Hola! ';
+  return buildWhatsAppUrl(`${greeting}Estás invitado/a a los 15 de Gemma 🎉 Entrá con este link para confirmar: ${buildInviteLink(code)}`);
+};
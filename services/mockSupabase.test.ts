@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { memoryStorage } from './testFixtures';
+
+// A fresh module per test: the mock keeps its database in module state
+const loadMock = async () => {
+  vi.resetModules();
+  return import('./mockSupabase');
+};
+
+let storage: ReturnType<typeof memoryStorage>;
+
+beforeEach(() => {
+  storage = memoryStorage();
+  vi.stubGlobal('localStorage', storage);
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('createMockClient', () => {
+  it('reads localStorage only once a client is created', async () => {
+    const { createMockClient } = await loadMock();
+    expect(storage.getItem).not.toHaveBeenCalled();
+    createMockClient();
+    expect(storage.getItem).toHaveBeenCalledWith('gemma15_mock_db');
+  });
+
+  it('persists writes and loads them back', async () => {
+    const first = (await loadMock()).createMockClient();
+    await first.from('seating_tables').insert({ name: 'Terraza', capacity: 8 });
+
+    const second = (await loadMock()).createMockClient();
+    const { data } = await second.from('seating_tables').select('*').eq('name', 'Terraza').single();
+    expect(data).toMatchObject({ name: 'Terraza', capacity: 8 });
+  });
+});
+
+describe('queries', () => {
+  it('filters, orders and pages rows', async () => {
+    const client = (await loadMock()).createMockClient();
+    await client.from('seating_tables').insert([{ name: 'C', capacity: 3 }, { name: 'A', capacity: 3 }, { name: 'B', capacity: 9 }]);
+    const { data } = await client.from('seating_tables').select('name').eq('capacity', 3).order('name', { ascending: false }).range(0, 0);
+    expect(data).toEqual([{ name: 'C' }]);
+  });
+
+  it('reports missing and duplicate rows with the PostgREST codes', async () => {
+    const client = (await loadMock()).createMockClient();
+    const missing = await client.from('invites').select('*').eq('code', 'NOPE').single();
+    expect(missing.error?.code).toBe('PGRST116');
+    const duplicate = await client.from('invites').insert({ code: 'G15-J01', segment: 'YOUNG', is_used: false });
+    expect(duplicate.error?.code).toBe('23505');
+  });
+
+  it('embeds users through select strings', async () => {
+    const client = (await loadMock()).createMockClient();
+    const { data } = await client.from('messages').select('*, users(name)').eq('id', 1).single();
+    expect(data.users).toEqual({ name: 'Bot' });
+  });
+});
+
+describe('row-level security mirror', () => {
+  it('only lets the session user post as themselves', async () => {
+    const client = (await loadMock()).createMockClient();
+    await client.auth.signUp({ email: 'ana@example.com', password: 'secreto' });
+    const { error } = await client.from('messages').insert({ user_id: 'bot', text: 'hola' });
+    expect(error?.code).toBe('42501');
+  });
+});
+
+describe('onMockPersistError', () => {
+  it('reports once when saving starts failing and again after it recovers', async () => {
+    const { createMockClient, onMockPersistError } = await loadMock();
+    const client = createMockClient();
+    const listener = vi.fn();
+    onMockPersistError(listener);
+
+    storage.full = true;
+    await client.from('seating_tables').insert({ name: 'X', capacity: 1 });
+    await client.from('seating_tables').insert({ name: 'Y', capacity: 1 });
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    storage.full = false;
+    await client.from('seating_tables').insert({ name: 'Z', capacity: 1 });
+    storage.full = true;
+    await client.from('seating_tables').insert({ name: 'W', capacity: 1 });
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps the data in memory when it could not be saved', async () => {
+    const client = (await loadMock()).createMockClient();
+    storage.full = true;
+    await client.from('seating_tables').insert({ name: 'Memoria', capacity: 1 });
+    const { data } = await client.from('seating_tables').select('*').eq('name', 'Memoria');
+    expect(data).toHaveLength(1);
+  });
+});
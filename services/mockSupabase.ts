@@ -0,0 +1,831 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { EventConfig, UserSegment } from '../types';
+import { toggleReaction } from './chatModeration';
+import { isRsvpLocked } from './rsvp';
+
+// In-memory stand-in for the Supabase surface used by the app (tables, RPCs,
+// auth, the 'user_photos' bucket and postgres_changes channels). State is persisted
+// to localStorage so the offline demo survives reloads.
+
+type Row = Record<string, any>;
+type MockError = { message: string; code?: string; details?: string; hint?: string };
+type MockResponse = { data: any; error: MockError | null; count?: number | null };
+
+interface MockState {
+  tables: Record<string, Row[]>;
+  sequences: Record<string, number>;
+  files: Record<string, string>; // "bucket/path" -> data URL
+  authUsers: { id: string; email: string; password?: string; user_metadata: Row }[];
+  sessionUserId: string | null;
+}
+
+const STORAGE_KEY = 'gemma15_mock_db';
+
+// Tables whose primary key is not an auto-increment 'id'.
+const PRIMARY_KEYS: Record<string, string> = {
+  users: 'user_id',
+  admins: 'user_id',
+  invites: 'code',
+  hidden_message_texts: 'message_id',
+  invite_code_attempts: 'client_key'
+};
+
+// Foreign keys declared 'on delete set null': deleting a row of the key table
+// clears the listed columns that pointed at it.
+const SET_NULL_ON_DELETE: Record<string, { table: string; column: string }[]> = {
+  seating_tables: [{ table: 'users', column: 'table_id' }, { table: 'invites', column: 'table_id' }]
+};
+
+// Embedded resources in select strings, e.g. '*, users(name)'.
+const RELATIONS: Record<string, { localKey: string; foreignKey: string }> = {
+  users: { localKey: 'user_id', foreignKey: 'user_id' }
+};
+
+const nowIso = () => new Date().toISOString();
+
+const seedState = (): MockState => ({
+  tables: {
+    event_config: [{
+      id: 1,
+      event_date: '2026-03-14T14:00:00-03:00',
+      location_name: 'Espacio de Eventos Mamá Lidia',
+      location_address: 'Roldán, Santa Fé, Argentina',
+      location_maps_url: 'https://maps.app.goo.gl/dqdYRr1XNrJgosyb7',
+      time_young: '14:00',
+      time_adult: '19:00',
+      spotify_playlist_url: 'https://open.spotify.com/',
+      rules_young: 'Barra de tragos sin alcohol. Dress code: Semi-formal divertido.',
+      rules_adult: 'Recepción 19hs. Dress code: Elegante Sport.',
+      dress_code_young: 'Semi-formal',
+      dress_code_adult: 'Elegante Sport',
+      checklist_young: 'Traé traje de baño para la Pool-party!, Ropa para la Noche!',
+      welcome_message: '¡Estás invitado a la mejor noche del año, Gemma 15!'
+    }],
+    theme_config: [{
+      id: 1,
+      font_family: 'Inter, sans-serif',
+      color_bg: '#0f172a',
+      color_card: '#1e293b',
+      color_text: '#f8fafc',
+      color_primary: '#ec4899',
+      color_accent: '#8b5cf6',
+      motion_level: 'medium'
+    }],
+    users: [
+      { user_id: 'bot', name: 'Bot', segment: UserSegment.ADULT, is_celiac: false, created_at: nowIso() }
+    ],
+    invites: [
+      ...['01', '02', '03', '04', '05'].map(n => ({ code: `G15-J${n}`, segment: UserSegment.YOUNG, is_used: false })),
+      ...['01', '02', '03', '04', '05'].map(n => ({ code: `G15-A${n}`, segment: UserSegment.ADULT, is_used: false, party_size: 2 })),
+      { code: 'ADMIN-SETUP', segment: UserSegment.ADMIN, is_used: false }
+    ],
+    admins: [],
+    messages: [
+      { id: 1, user_id: 'bot', text: '¡Bienvenid@s a la demo offline!', created_at: nowIso() }
+    ],
+    companions: [],
+    seating_tables: [
+      { id: 1, name: 'Mesa 1', capacity: 10, created_at: nowIso() },
+      { id: 2, name: 'Mesa 2', capacity: 10, created_at: nowIso() }
+    ],
+    photos: [],
+    song_suggestions: [],
+    timeline_moments: [
+      { id: 1, title: 'Recepción', time: '14:00', segments: [UserSegment.YOUNG], created_at: nowIso() },
+      { id: 2, title: 'Pool party', time: '15:00', segments: [UserSegment.YOUNG], created_at: nowIso() },
+      { id: 3, title: 'Entrada de Gemma', time: '19:30', segments: [], created_at: nowIso() },
+      { id: 4, title: 'Vals', time: '20:00', segments: [], created_at: nowIso() },
+      { id: 5, title: 'Cena', time: '21:00', segments: [], created_at: nowIso() },
+      { id: 6, title: 'Torta', time: '23:30', segments: [], created_at: nowIso() },
+      { id: 7, title: 'DJ set', time: '00:30', segments: [], created_at: nowIso() }
+    ]
+  },
+  sequences: { messages: 1 },
+  files: {},
+  authUsers: [],
+  sessionUserId: null
+});
+
+const loadState = (): MockState => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) return JSON.parse(raw);
+  } catch (e) {
+    console.warn('Mock DB corrupted, reseeding', e);
+  }
+  return seedState();
+};
+
+// Loaded by createMockClient, so importing this module in real-Supabase mode
+// never reads localStorage
+let state: MockState;
+
+type PersistErrorListener = (error: unknown) => void;
+const persistErrorListeners = new Set<PersistErrorListener>();
+let persistFailing = false;
+
+// Notified once each time saving starts to fail (quota exceeded, usually by
+// uploaded files); the demo keeps working from memory until the next reload
+export const onMockPersistError = (listener: PersistErrorListener) => {
+  persistErrorListeners.add(listener);
+  return () => { persistErrorListeners.delete(listener); };
+};
+
+const persist = () => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+    persistFailing = false;
+  } catch (e) {
+    console.error('Mock DB could not be persisted', e);
+    if (!persistFailing) persistErrorListeners.forEach(l => l(e));
+    persistFailing = true;
+  }
+};
+
+const tableRows = (table: string) => (state.tables[table] ||= []);
+
+const nextId = (table: string) => {
+  const current = state.sequences[table] ?? Math.max(0, ...tableRows(table).map(r => Number(r.id) || 0));
+  state.sequences[table] = current + 1;
+  return current + 1;
+};
+
+const isSessionAdmin = () =>
+  tableRows('admins').some(a => a.user_id === state.sessionUserId);
+
+// Mirrors of the row-level security in supabase/migrations: inserts that
+// fail their check are rejected, updates skip the rows the session can't
+// write, and protected columns are only written by admins.
+const INSERT_CHECKS: Record<string, (row: Row) => boolean> = {
+  messages: row => row.user_id === state.sessionUserId && !tableRows('users').find(u => u.user_id === row.user_id)?.is_muted,
+  users: row => isSessionAdmin() || (row.user_id === state.sessionUserId && row.segment !== UserSegment.ADMIN),
+  photos: row => row.user_id === state.sessionUserId && row.status === 'PENDING' && !row.is_featured,
+  rsvp_changes: () => false
+};
+
+const UPDATE_CHECKS: Record<string, (row: Row) => boolean> = {
+  users: row => isSessionAdmin() || row.user_id === state.sessionUserId,
+  photos: () => isSessionAdmin()
+};
+
+const ADMIN_COLUMNS: Record<string, string[]> = {
+  users: ['is_muted', 'segment', 'table_id']
+};
+
+// Writes frozen by the RSVP deadline for non-admins (trigger enforce_rsvp_deadline):
+// the columns whose updates are blocked, and whether inserts and deletes are too
+const RSVP_LOCKS: Record<string, { columns: string[]; rows: boolean }> = {
+  users: { columns: ['rsvp_status'], rows: false },
+  companions: { columns: ['name', 'rsvp_status'], rows: true }
+};
+
+const isRsvpWriteLocked = (table: string, action: 'insert' | 'update' | 'delete', rows: Row[], changes: Row = {}) => {
+  const lock = RSVP_LOCKS[table];
+  if (!lock || isSessionAdmin() || !isRsvpLocked(tableRows('event_config')[0] as EventConfig)) return false;
+  if (action !== 'update') return lock.rows && rows.length > 0;
+  return rows.some(row => lock.columns.some(column => column in changes && changes[column] !== row[column]));
+};
+
+const rlsError = (table: string): MockError => ({ message: `new row violates row-level security policy for table "${table}"`, code: '42501' });
+const rsvpLockError: MockError = { message: 'the RSVP deadline has passed', code: '42501' };
+
+// --- Realtime ---
+
+type ChangeEvent = 'INSERT' | 'UPDATE' | 'DELETE';
+interface Listener { event: ChangeEvent | '*'; table: string; filter?: string; callback: (payload: any) => void }
+
+const channels = new Set<MockChannel>();
+
+class MockChannel {
+  listeners: Listener[] = [];
+  subscribed = false;
+
+  constructor(public name: string) {}
+
+  on(_type: 'postgres_changes', opts: { event: ChangeEvent | '*'; table: string; filter?: string }, callback: (payload: any) => void) {
+    this.listeners.push({ event: opts.event, table: opts.table, filter: opts.filter, callback });
+    return this;
+  }
+
+  subscribe(callback?: (status: string) => void) {
+    this.subscribed = true;
+    channels.add(this);
+    callback?.('SUBSCRIBED');
+    return this;
+  }
+
+  unsubscribe() {
+    this.subscribed = false;
+    channels.delete(this);
+    return Promise.resolve('ok');
+  }
+}
+
+// Supports the 'column=eq.value' filter syntax of postgres_changes.
+const matchesFilter = (filter: string | undefined, row: Row) => {
+  if (!filter) return true;
+  const [column, expr] = filter.split('=');
+  const [, value] = expr.split(/\.(.*)/);
+  return String(row?.[column]) === value;
+};
+
+const emitChange = (table: string, eventType: ChangeEvent, newRow: Row | null, oldRow: Row | null) => {
+  const payload = { schema: 'public', table, eventType, new: newRow ?? {}, old: oldRow ?? {}, commit_timestamp: nowIso(), errors: null };
+  // Deliver async, like a network round-trip
+  setTimeout(() => {
+    channels.forEach(channel => channel.listeners.forEach(l => {
+      if (l.table !== table) return;
+      if (l.event !== '*' && l.event !== eventType) return;
+      if (!matchesFilter(l.filter, newRow ?? oldRow ?? {})) return;
+      l.callback(payload);
+    }));
+  }, 0);
+};
+
+// --- Query builder ---
+
+type Filter = (row: Row) => boolean;
+
+const likeToRegExp = (pattern: string, flags = '') =>
+  new RegExp('^' + pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/%/g, '.*').replace(/_/g, '.') + '$', flags);
+
+// Splits "a, b, users(name, avatar_url)" at top-level commas.
+const splitColumns = (columns: string) => {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const ch of columns) {
+    if (ch === '(') depth++;
+    if (ch === ')') depth--;
+    if (ch === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else current += ch;
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+};
+
+const projectRow = (row: Row, columns: string): Row => {
+  const out: Row = {};
+  splitColumns(columns).forEach(col => {
+    const embed = col.match(/^(\w+)(?:!\w+)?\((.*)\)$/);
+    if (embed) {
+      const [, relTable, relColumns] = embed;
+      const rel = RELATIONS[relTable];
+      const target = rel && tableRows(relTable).find(r => r[rel.foreignKey] === row[rel.localKey]);
+      out[relTable] = target ? projectRow(target, relColumns) : null;
+    } else if (col === '*') {
+      Object.assign(out, row);
+    } else {
+      out[col] = row[col];
+    }
+  });
+  return out;
+};
+
+// Compares numerically when both sides are numbers, as strings otherwise.
+const compareValues = (a: any, b: string) => {
+  if (typeof a === 'number' && b.trim() !== '' && !isNaN(Number(b))) return a - Number(b);
+  const left = String(a ?? '');
+  return left < b ? -1 : left > b ? 1 : 0;
+};
+
+const parseLogicTerm = (term: string): Filter => {
+  const group = term.match(/^(and|or)\((.*)\)$/);
+  if (group) {
+    const inner = splitColumns(group[2]).map(parseLogicTerm);
+    return group[1] === 'and' ? r => inner.every(t => t(r)) : r => inner.some(t => t(r));
+  }
+  const [column, op, ...rest] = term.split('.');
+  const value = rest.join('.').replace(/^"(.*)"$/, '$1');
+  return (r: Row) => {
+    const v = r[column];
+    switch (op) {
+      case 'eq': return compareValues(v, value) === 0;
+      case 'neq': return compareValues(v, value) !== 0;
+      case 'lt': return compareValues(v, value) < 0;
+      case 'lte': return compareValues(v, value) <= 0;
+      case 'gt': return compareValues(v, value) > 0;
+      case 'gte': return compareValues(v, value) >= 0;
+      case 'is': return value === 'null' ? v == null : String(v) === value;
+      default: return false;
+    }
+  };
+};
+
+const insertRow = (table: string, values: Row): Row => {
+  const row: Row = { created_at: nowIso(), ...values };
+  if ((PRIMARY_KEYS[table] || 'id') === 'id' && row.id === undefined) row.id = nextId(table);
+  tableRows(table).push(row);
+  emitChange(table, 'INSERT', row, null);
+  return row;
+};
+
+// Mirrors of the triggers that log RSVP changes (log_rsvp_change), run after
+// every update (`row` set) or delete (`row` null) of the table
+const logRsvpChange = (change: Row) =>
+  insertRow('rsvp_changes', { companion_id: null, ...change, changed_by: state.sessionUserId });
+
+const AFTER_WRITE: Record<string, (old: Row, row: Row | null) => void> = {
+  users: (old, row) => {
+    const previous = old.rsvp_status || 'PENDING';
+    if (row?.rsvp_status && row.rsvp_status !== previous) {
+      logRsvpChange({ user_id: row.user_id, subject_name: row.name, previous_status: previous, status: row.rsvp_status });
+    }
+  },
+  companions: (old, row) => {
+    const holder = tableRows('invites').find(i => i.code === old.invite_code)?.used_by;
+    const status = row ? row.rsvp_status : 'DECLINED';
+    if (!holder || (row ? status === old.rsvp_status : old.rsvp_status !== 'CONFIRMED')) return;
+    logRsvpChange({ user_id: holder, companion_id: old.id, subject_name: old.name, previous_status: old.rsvp_status, status });
+  }
+};
+
+const updateRow = (table: string, row: Row, changes: Row): Row => {
+  const old = { ...row };
+  Object.assign(row, changes);
+  emitChange(table, 'UPDATE', row, old);
+  AFTER_WRITE[table]?.(old, row);
+  return row;
+};
+
+class MockQueryBuilder implements PromiseLike<MockResponse> {
+  private action: 'select' | 'insert' | 'update' | 'delete' | 'upsert' = 'select';
+  private payload: Row[] = [];
+  private filters: Filter[] = [];
+  private orders: { column: string; ascending: boolean }[] = [];
+  private limitCount: number | null = null;
+  private rangeFrom = 0;
+  private columns = '*';
+  private returning = false;
+  private singleMode: 'single' | 'maybeSingle' | null = null;
+  private countMode = false;
+  private headOnly = false;
+  private conflictColumn: string | null = null;
+  private ignoreDuplicates = false;
+
+  constructor(private table: string) {}
+
+  select(columns = '*', opts?: { count?: 'exact' | 'planned' | 'estimated'; head?: boolean }) {
+    this.columns = columns;
+    if (this.action !== 'select') this.returning = true;
+    this.countMode = !!opts?.count;
+    this.headOnly = !!opts?.head;
+    return this;
+  }
+
+  insert(values: Row | Row[]) {
+    this.action = 'insert';
+    this.payload = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  upsert(values: Row | Row[], opts?: { onConflict?: string; ignoreDuplicates?: boolean }) {
+    this.action = 'upsert';
+    this.payload = Array.isArray(values) ? values : [values];
+    this.conflictColumn = opts?.onConflict ?? null;
+    this.ignoreDuplicates = !!opts?.ignoreDuplicates;
+    return this;
+  }
+
+  update(values: Row) {
+    this.action = 'update';
+    this.payload = [values];
+    return this;
+  }
+
+  delete() {
+    this.action = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: any) { this.filters.push(r => r[column] === value); return this; }
+  neq(column: string, value: any) { this.filters.push(r => r[column] !== value); return this; }
+  gt(column: string, value: any) { this.filters.push(r => r[column] > value); return this; }
+  gte(column: string, value: any) { this.filters.push(r => r[column] >= value); return this; }
+  lt(column: string, value: any) { this.filters.push(r => r[column] < value); return this; }
+  lte(column: string, value: any) { this.filters.push(r => r[column] <= value); return this; }
+  in(column: string, values: any[]) { this.filters.push(r => values.includes(r[column])); return this; }
+  is(column: string, value: null | boolean) { this.filters.push(r => (r[column] ?? null) === value); return this; }
+  like(column: string, pattern: string) { const re = likeToRegExp(pattern); this.filters.push(r => re.test(String(r[column] ?? ''))); return this; }
+  ilike(column: string, pattern: string) { const re = likeToRegExp(pattern, 'i'); this.filters.push(r => re.test(String(r[column] ?? ''))); return this; }
+
+  // PostgREST 'or' syntax: 'col.op.value' terms and nested 'and(...)' groups
+  or(expression: string) {
+    const terms = splitColumns(expression).map(parseLogicTerm);
+    this.filters.push(r => terms.some(t => t(r)));
+    return this;
+  }
+
+  order(column: string, opts?: { ascending?: boolean }) {
+    this.orders.push({ column, ascending: opts?.ascending ?? true });
+    return this;
+  }
+
+  limit(count: number) { this.limitCount = count; return this; }
+
+  range(from: number, to: number) {
+    this.rangeFrom = from;
+    this.limitCount = to - from + 1;
+    return this;
+  }
+
+  single() { this.singleMode = 'single'; return this; }
+  maybeSingle() { this.singleMode = 'maybeSingle'; return this; }
+
+  then<T1 = MockResponse, T2 = never>(onFulfilled?: ((value: MockResponse) => T1 | PromiseLike<T1>) | null, onRejected?: ((reason: any) => T2 | PromiseLike<T2>) | null): PromiseLike<T1 | T2> {
+    return Promise.resolve().then(() => this.execute()).then(onFulfilled, onRejected);
+  }
+
+  private matching() {
+    return tableRows(this.table).filter(r => this.filters.every(f => f(r)));
+  }
+
+  private execute(): MockResponse {
+    let rows: Row[];
+    switch (this.action) {
+      case 'insert': {
+        const pk = PRIMARY_KEYS[this.table] || 'id';
+        for (const values of this.payload) {
+          if (values[pk] !== undefined && tableRows(this.table).some(r => r[pk] === values[pk])) {
+            return { data: null, error: { message: `duplicate key value violates unique constraint "${this.table}_pkey"`, code: '23505' } };
+          }
+          if (INSERT_CHECKS[this.table] && !INSERT_CHECKS[this.table](values)) return { data: null, error: rlsError(this.table) };
+        }
+        if (isRsvpWriteLocked(this.table, 'insert', this.payload)) return { data: null, error: rsvpLockError };
+        rows = this.payload.map(values => insertRow(this.table, values));
+        break;
+      }
+      case 'upsert': {
+        const key = this.conflictColumn || PRIMARY_KEYS[this.table] || 'id';
+        if (INSERT_CHECKS[this.table] && !this.payload.every(INSERT_CHECKS[this.table])) return { data: null, error: rlsError(this.table) };
+        rows = [];
+        this.payload.forEach(values => {
+          const existing = tableRows(this.table).find(r => values[key] !== undefined && r[key] === values[key]);
+          if (!existing) rows.push(insertRow(this.table, values));
+          else if (!this.ignoreDuplicates) rows.push(updateRow(this.table, existing, values));
+        });
+        break;
+      }
+      case 'update': {
+        const changes = { ...this.payload[0] };
+        if (!isSessionAdmin()) (ADMIN_COLUMNS[this.table] || []).forEach(column => delete changes[column]);
+        const writable = this.matching().filter(row => !UPDATE_CHECKS[this.table] || UPDATE_CHECKS[this.table](row));
+        if (isRsvpWriteLocked(this.table, 'update', writable, changes)) return { data: null, error: rsvpLockError };
+        rows = writable.map(row => updateRow(this.table, row, changes));
+        break;
+      }
+      case 'delete':
+        rows = this.matching();
+        if (isRsvpWriteLocked(this.table, 'delete', rows)) return { data: null, error: rsvpLockError };
+        state.tables[this.table] = tableRows(this.table).filter(r => !rows.includes(r));
+        rows.forEach(row => {
+          emitChange(this.table, 'DELETE', null, row);
+          AFTER_WRITE[this.table]?.(row, null);
+        });
+        (SET_NULL_ON_DELETE[this.table] || []).forEach(({ table, column }) => {
+          const ids = rows.map(row => row.id);
+          tableRows(table).filter(r => ids.includes(r[column])).forEach(r => updateRow(table, r, { [column]: null }));
+        });
+        break;
+      default:
+        rows = this.matching();
+    }
+
+    if (this.action !== 'select') {
+      persist();
+      if (!this.returning) return { data: null, error: null };
+    }
+
+    const total = rows.length;
+    if (this.orders.length > 0) {
+      rows = [...rows].sort((a, b) => {
+        for (const { column, ascending } of this.orders) {
+          if (a[column] === b[column]) continue;
+          const cmp = (a[column] ?? '') < (b[column] ?? '') ? -1 : 1;
+          return ascending ? cmp : -cmp;
+        }
+        return 0;
+      });
+    }
+    if (this.limitCount !== null) rows = rows.slice(this.rangeFrom, this.rangeFrom + this.limitCount);
+
+    const data = rows.map(r => projectRow(JSON.parse(JSON.stringify(r)), this.columns));
+    const count = this.countMode ? total : null;
+    if (this.headOnly) return { data: null, error: null, count };
+
+    if (this.singleMode) {
+      if (data.length === 1) return { data: data[0], error: null, count };
+      if (data.length === 0 && this.singleMode === 'maybeSingle') return { data: null, error: null, count };
+      return { data: null, error: { message: 'JSON object requested, multiple (or no) rows returned', code: 'PGRST116' }, count };
+    }
+    return { data, error: null, count };
+  }
+}
+
+// --- RPC ---
+
+// JS versions of the database functions in supabase/migrations. Each one runs
+// synchronously, which makes it as atomic as its SQL counterpart.
+type RpcHandler = (args: Row) => MockResponse;
+
+const rpcError = (message: string, code: string): MockResponse => ({ data: null, error: { message, code } });
+const adminOnly = (handler: RpcHandler): RpcHandler => args =>
+  isSessionAdmin() ? handler(args) : rpcError('only admins can do this', '42501');
+
+const hasDuplicateCode = (rows: Row[]) =>
+  new Set(rows.map(r => r.code)).size < rows.length || rows.some(r => tableRows('invites').some(i => i.code === r.code));
+const duplicateCodeError = () => rpcError('duplicate key value violates unique constraint "invites_pkey"', '23505');
+
+const RPC_FUNCTIONS: Record<string, RpcHandler> = {
+  toggle_reaction: ({ p_message_id, p_emoji }) => {
+    if (!state.sessionUserId) return rpcError('not authenticated', '42501');
+    const message = tableRows('messages').find(m => m.id === p_message_id && !m.is_hidden);
+    if (!message) return rpcError(`message ${p_message_id} not found`, 'P0002');
+    updateRow('messages', message, { reactions: toggleReaction(message.reactions, p_emoji, state.sessionUserId) });
+    return { data: message.reactions, error: null };
+  },
+  hide_message: adminOnly(({ p_message_id, p_reason }) => {
+    const message = tableRows('messages').find(m => m.id === p_message_id);
+    if (!message) return { data: null, error: null };
+    if (!message.is_hidden) insertRow('hidden_message_texts', { message_id: message.id, text: message.text });
+    updateRow('messages', message, { is_hidden: true, hidden_reason: p_reason, text: '' });
+    return { data: null, error: null };
+  }),
+  unhide_message: adminOnly(({ p_message_id }) => {
+    const message = tableRows('messages').find(m => m.id === p_message_id);
+    const hidden = tableRows('hidden_message_texts').find(h => h.message_id === p_message_id);
+    if (!message || !hidden) return { data: null, error: null };
+    updateRow('messages', message, { is_hidden: false, hidden_reason: null, text: hidden.text });
+    state.tables.hidden_message_texts = tableRows('hidden_message_texts').filter(h => h !== hidden);
+    return { data: null, error: null };
+  }),
+  moderate_photos: adminOnly(({ p_photo_ids, p_status }) => {
+    const moderatedAt = nowIso();
+    tableRows('photos').filter(p => p_photo_ids.includes(p.id) && p.status !== p_status).forEach(photo => {
+      insertRow('photo_moderation_log', { photo_id: photo.id, user_id: state.sessionUserId, from_status: photo.status, to_status: p_status });
+      updateRow('photos', photo, { status: p_status, moderated_by: state.sessionUserId, moderated_at: moderatedAt });
+    });
+    return { data: null, error: null };
+  }),
+  projector_feed: ({ p_token }) => {
+    const settings = tableRows('projector_settings').find(r => r.id === 1);
+    if (!p_token || settings?.token !== p_token) return { data: null, error: null };
+    const withUser = (row: Row, columns: string) => projectRow(JSON.parse(JSON.stringify(row)), `*, users(${columns})`);
+    const photos = tableRows('photos')
+      .filter(p => p.status === 'APPROVED')
+      .sort((a, b) => Number(b.is_featured) - Number(a.is_featured) || b.created_at.localeCompare(a.created_at))
+      .slice(0, 500);
+    const messages = tableRows('messages')
+      .filter(m => !m.is_hidden)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at) || b.id - a.id)
+      .slice(0, 30);
+    return {
+      data: { photos: photos.map(p => withUser(p, 'name')), messages: messages.map(m => withUser(m, 'name, avatar_url')) },
+      error: null
+    };
+  },
+  claim_admin_invite: ({ p_code }) => {
+    if (!state.sessionUserId) return rpcError('not authenticated', '42501');
+    const invite = tableRows('invites').find(i => i.code === p_code && i.segment === UserSegment.ADMIN && !i.is_revoked);
+    if (!invite) return rpcError('not an admin invite', '42501');
+    if (!isSessionAdmin()) insertRow('admins', { user_id: state.sessionUserId });
+    return { data: null, error: null };
+  },
+  // No proxy offline: every attempt counts against the same 'unknown' client
+  validate_invite_code: ({ p_code }) => {
+    const key = 'unknown';
+    const now = Date.now();
+    let attempt = tableRows('invite_code_attempts').find(a => a.client_key === key);
+    if (attempt?.locked_until && Date.parse(attempt.locked_until) > now) {
+      return { data: { status: 'LOCKED', retry_after_seconds: Math.ceil((Date.parse(attempt.locked_until) - now) / 1000) }, error: null };
+    }
+    const invite = tableRows('invites').find(i => i.code === p_code);
+    if (!invite) {
+      if (!attempt) attempt = insertRow('invite_code_attempts', { client_key: key, failures: 0, lockouts: 0, locked_until: null, updated_at: nowIso() });
+      const stale = Date.parse(attempt.updated_at) < now - 3600000;
+      updateRow('invite_code_attempts', attempt, { failures: stale ? 1 : attempt.failures + 1, updated_at: nowIso() });
+      if (attempt.failures >= 5) {
+        const lockoutSeconds = Math.min(15 * 60, 30 * 2 ** attempt.lockouts);
+        updateRow('invite_code_attempts', attempt, { failures: 0, lockouts: attempt.lockouts + 1, locked_until: new Date(now + lockoutSeconds * 1000).toISOString() });
+        return { data: { status: 'LOCKED', retry_after_seconds: lockoutSeconds }, error: null };
+      }
+      return { data: { status: 'INVALID', remaining_attempts: 5 - attempt.failures }, error: null };
+    }
+    if (invite.is_revoked) return { data: { status: 'REVOKED' }, error: null };
+    if (invite.is_used && invite.used_by !== state.sessionUserId) return { data: { status: 'USED' }, error: null };
+    return { data: { status: 'VALID', segment: invite.segment }, error: null };
+  },
+  redeem_invite: ({ p_code }) => {
+    if (!state.sessionUserId) return rpcError('not authenticated', '42501');
+    const { status } = RPC_FUNCTIONS.validate_invite_code({ p_code }).data;
+    if (status === 'USED' || status === 'REVOKED') return rpcError(`invite ${p_code} is ${status.toLowerCase()}`, '55000');
+    if (status !== 'VALID') return rpcError(`invite ${p_code} is not valid`, 'P0002');
+    const invite = tableRows('invites').find(i => i.code === p_code)!;
+    if (invite.segment === UserSegment.ADMIN) return rpcError('admin invites are claimed with claim_admin_invite()', '42501');
+    updateRow('invites', invite, { is_used: true, used_by: state.sessionUserId });
+    return { data: { ...invite }, error: null };
+  },
+  chat_activity: adminOnly(() => {
+    const hours = new Map<string, number>();
+    tableRows('messages').forEach(m => {
+      const hour = new Date(m.created_at);
+      hour.setUTCMinutes(0, 0, 0);
+      hours.set(hour.toISOString(), (hours.get(hour.toISOString()) || 0) + 1);
+    });
+    return { data: [...hours].sort(([a], [b]) => a.localeCompare(b)).map(([time, count]) => ({ time, count })), error: null };
+  }),
+  rotate_invite_codes: adminOnly(({ p_rotations }) => {
+    let rotated = 0;
+    (p_rotations as { code: string; new_code: string }[]).forEach(({ code, new_code }) => {
+      const old = tableRows('invites').find(i => i.code === code && !i.is_used && !i.is_revoked);
+      if (!old) return;
+      insertRow('invites', { code: new_code, segment: old.segment, is_used: false, party_size: old.party_size, label: old.label ?? null, table_id: old.table_id ?? null });
+      updateRow('invites', old, { is_revoked: true });
+      insertRow('invite_events', { invite_code: code, user_id: state.sessionUserId, action: 'ROTATED', details: new_code });
+      insertRow('invite_events', { invite_code: new_code, user_id: state.sessionUserId, action: 'ROTATED', details: code });
+      rotated++;
+    });
+    return { data: rotated, error: null };
+  }),
+  create_invites: adminOnly(({ p_invites }) => {
+    const rows = p_invites as Row[];
+    if (hasDuplicateCode(rows)) return duplicateCodeError();
+    rows.forEach(r => {
+      insertRow('invites', { code: r.code, segment: r.segment, is_used: false, party_size: r.party_size ?? 1, label: r.label ?? null, table_id: r.table_id ?? null });
+      insertRow('invite_events', { invite_code: r.code, user_id: state.sessionUserId, action: 'CREATED', details: null });
+    });
+    return { data: null, error: null };
+  }),
+  import_guests: adminOnly(({ p_tables, p_invites }) => {
+    // Checked before creating the tables, which the real function rolls back
+    if (hasDuplicateCode(p_invites)) return duplicateCodeError();
+    const tableIds = new Map((p_tables as Row[]).map(t => [t.name, insertRow('seating_tables', { name: t.name, capacity: t.capacity }).id]));
+    const rows = (p_invites as Row[]).map(r => ({ ...r, table_id: r.table_id ?? tableIds.get(r.table_name) ?? null }));
+    return RPC_FUNCTIONS.create_invites({ p_invites: rows });
+  }),
+  invite_action: adminOnly(({ p_code, p_action, p_changes, p_details, p_only_unused }) => {
+    const invite = tableRows('invites').find(i => i.code === p_code);
+    if (!invite) return rpcError(`invite ${p_code} not found`, 'P0002');
+    if (p_only_unused && invite.is_used) return rpcError(`invite ${p_code} is already used`, '55000');
+    const previousUserId = invite.used_by ?? null;
+    const changes: Row = {};
+    ['label', 'is_revoked', 'is_used', 'used_by'].forEach(column => { if (column in p_changes) changes[column] = p_changes[column]; });
+    updateRow('invites', invite, changes);
+    insertRow('invite_events', { invite_code: p_code, user_id: state.sessionUserId, action: p_action, details: p_details ?? null, previous_user_id: previousUserId });
+    return { data: null, error: null };
+  })
+};
+
+const rpc = (fn: string, args: Row = {}): PromiseLike<MockResponse> =>
+  Promise.resolve().then(() => {
+    const handler = RPC_FUNCTIONS[fn];
+    if (!handler) return rpcError(`Could not find the function public.${fn}`, 'PGRST202');
+    const result = handler(args);
+    persist();
+    return result;
+  });
+
+// --- Storage ---
+
+const fileToDataUrl = (file: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+const storageBucket = (bucket: string) => ({
+  upload: async (path: string, file: Blob, opts?: { upsert?: boolean }) => {
+    const key = `${bucket}/${path}`;
+    if (state.files[key] && !opts?.upsert) return { data: null, error: { message: 'The resource already exists' } };
+    state.files[key] = await fileToDataUrl(file);
+    persist();
+    return { data: { path, fullPath: key }, error: null };
+  },
+  // Signed upload URLs only make sense for the real storage API: uploading to
+  // one here is a plain upsert
+  createSignedUploadUrl: async (path: string) =>
+    ({ data: { signedUrl: `mock-storage://${bucket}/${path}?token=mock`, token: 'mock', path }, error: null }),
+  uploadToSignedUrl: (path: string, _token: string, file: Blob) => storageBucket(bucket).upload(path, file, { upsert: true }),
+  download: async (path: string) => {
+    const url = state.files[`${bucket}/${path}`];
+    if (!url) return { data: null, error: { message: 'Object not found' } };
+    return { data: await (await fetch(url)).blob(), error: null };
+  },
+  remove: async (paths: string[]) => {
+    paths.forEach(path => delete state.files[`${bucket}/${path}`]);
+    persist();
+    return { data: paths.map(name => ({ name })), error: null };
+  },
+  getPublicUrl: (path: string) => ({
+    data: { publicUrl: state.files[`${bucket}/${path}`] || 'https://via.placeholder.com/300' }
+  })
+});
+
+// --- Auth ---
+
+type AuthListener = (event: string, session: any) => void;
+const authListeners = new Set<AuthListener>();
+
+const sessionFor = (userId: string | null) => {
+  const authUser = state.authUsers.find(u => u.id === userId);
+  if (!authUser) return null;
+  return {
+    access_token: `mock-token-${authUser.id}`,
+    token_type: 'bearer',
+    user: { id: authUser.id, email: authUser.email, user_metadata: authUser.user_metadata }
+  };
+};
+
+const setSession = (userId: string | null, event: string) => {
+  state.sessionUserId = userId;
+  persist();
+  const session = sessionFor(userId);
+  authListeners.forEach(l => setTimeout(() => l(event, session), 0));
+  return session;
+};
+
+const findOrCreateAuthUser = (email: string, metadata: Row = {}) => {
+  let authUser = state.authUsers.find(u => u.email === email);
+  if (!authUser) {
+    authUser = { id: crypto.randomUUID(), email, user_metadata: metadata };
+    state.authUsers.push(authUser);
+  } else {
+    authUser.user_metadata = { ...authUser.user_metadata, ...metadata };
+  }
+  return authUser;
+};
+
+// Mirrors the database trigger that turns a magic-link signup carrying an
+// invite_code into a 'users' row and marks the invite as used.
+const provisionInvitedUser = (userId: string, inviteCode?: string) => {
+  if (!inviteCode || tableRows('users').some(u => u.user_id === userId)) return;
+  const invite = tableRows('invites').find(i => i.code === inviteCode && !i.is_used && !i.is_revoked && i.segment !== UserSegment.ADMIN);
+  if (!invite) return;
+  const profile = { user_id: userId, name: '', segment: invite.segment, is_celiac: false, table_id: invite.table_id ?? null, created_at: nowIso() };
+  tableRows('users').push(profile);
+  emitChange('users', 'INSERT', profile, null);
+  const old = { ...invite };
+  Object.assign(invite, { is_used: true, used_by: userId });
+  emitChange('invites', 'UPDATE', invite, old);
+};
+
+const auth = {
+  getSession: async () => ({ data: { session: sessionFor(state.sessionUserId) }, error: null }),
+  getUser: async () => ({ data: { user: sessionFor(state.sessionUserId)?.user ?? null }, error: null }),
+  signInWithPassword: async ({ email, password }: { email: string; password: string }) => {
+    const authUser = state.authUsers.find(u => u.email === email && u.password === password);
+    if (!authUser) return { data: { user: null, session: null }, error: { message: 'Invalid login credentials', status: 400 } };
+    const session = setSession(authUser.id, 'SIGNED_IN');
+    return { data: { user: session!.user, session }, error: null };
+  },
+  signUp: async ({ email, password }: { email: string; password: string }) => {
+    if (state.authUsers.some(u => u.email === email)) return { data: { user: null, session: null }, error: { message: 'User already registered', status: 422 } };
+    const authUser = findOrCreateAuthUser(email);
+    authUser.password = password;
+    const session = setSession(authUser.id, 'SIGNED_IN');
+    return { data: { user: session!.user, session }, error: null };
+  },
+  // No mailbox offline: the "link" is considered clicked as soon as it is requested.
+  signInWithOtp: async ({ email, options }: { email: string; options?: { data?: Row; shouldCreateUser?: boolean } }) => {
+    if (options?.shouldCreateUser === false && !state.authUsers.some(u => u.email === email)) {
+      return { data: { user: null, session: null }, error: { message: 'Signups not allowed for otp', status: 422 } };
+    }
+    const authUser = findOrCreateAuthUser(email, options?.data);
+    provisionInvitedUser(authUser.id, authUser.user_metadata.invite_code);
+    setSession(authUser.id, 'SIGNED_IN');
+    return { data: { user: null, session: null }, error: null };
+  },
+  signOut: async () => {
+    setSession(null, 'SIGNED_OUT');
+    return { error: null };
+  },
+  onAuthStateChange: (callback: AuthListener) => {
+    authListeners.add(callback);
+    return { data: { subscription: { unsubscribe: () => authListeners.delete(callback) } } };
+  }
+};
+
+// Wipes the offline database back to the seed data.
+export const resetMockDatabase = () => {
+  localStorage.removeItem(STORAGE_KEY);
+  state = seedState();
+};
+
+export const createMockClient = (): SupabaseClient => {
+  state ??= loadState();
+  const client = {
+    from: (table: string) => new MockQueryBuilder(table),
+    rpc,
+    channel: (name: string) => new MockChannel(name),
+    removeChannel: async (channel: MockChannel) => {
+      await channel.unsubscribe();
+      return 'ok';
+    },
+    storage: { from: storageBucket },
+    auth
+  };
+  return client as unknown as SupabaseClient;
+};
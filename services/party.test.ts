@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { UserSegment } from '../types';
+import { getPartyHeadcount, getPartySize } from './party';
+import { companion, invite } from './testFixtures';
+
+describe('getPartySize', () => {
+  it('defaults to a party of one', () => {
+    expect(getPartySize(null)).toBe(1);
+    expect(getPartySize(invite('A'))).toBe(1);
+    expect(getPartySize(invite('A', { party_size: 0 }))).toBe(1);
+    expect(getPartySize(invite('A', { party_size: 3 }))).toBe(3);
+  });
+});
+
+describe('getPartyHeadcount', () => {
+  const family = invite('A', { segment: UserSegment.ADULT, is_used: true, party_size: 4 });
+
+  it('counts unnamed seats as pending', () => {
+    expect(getPartyHeadcount({ rsvp_status: 'CONFIRMED' }, family, [companion(1, { rsvp_status: 'DECLINED' })]))
+      .toEqual({ capacity: 4, confirmed: 1, declined: 1, pending: 2 });
+  });
+
+  it('treats a missing holder status as pending', () => {
+    expect(getPartyHeadcount({}, family, [companion(1, { rsvp_status: 'CONFIRMED' })]))
+      .toEqual({ capacity: 4, confirmed: 1, declined: 0, pending: 3 });
+  });
+
+  it('never reports negative pending seats when the party outgrew the invite', () => {
+    const companions = [companion(1, { rsvp_status: 'CONFIRMED' }), companion(2, { rsvp_status: 'DECLINED' })];
+    expect(getPartyHeadcount({ rsvp_status: 'CONFIRMED' }, null, companions))
+      .toEqual({ capacity: 1, confirmed: 2, declined: 1, pending: 0 });
+  });
+});
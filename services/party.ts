@@ -0,0 +1,26 @@
+import { Companion, InviteCode, UserProfile } from '../types';
+
+// Headcount helpers for invites that cover more than one person.
+
+export interface PartyHeadcount {
+  capacity: number;  // Seats granted by the invite
+  confirmed: number; // Holder + companions who confirmed
+  declined: number;
+  pending: number;
+}
+
+export const getPartySize = (invite?: InviteCode | null) => Math.max(1, invite?.party_size ?? 1);
+
+export const getPartyHeadcount = (holder: Pick<UserProfile, 'rsvp_status'>, invite: InviteCode | null | undefined, companions: Companion[]): PartyHeadcount => {
+  const statuses = [holder.rsvp_status || 'PENDING', ...companions.map(c => c.rsvp_status || 'PENDING')];
+  const capacity = getPartySize(invite);
+  const confirmed = statuses.filter(s => s === 'CONFIRMED').length;
+  const declined = statuses.filter(s => s === 'DECLINED').length;
+  return {
+    capacity,
+    confirmed,
+    declined,
+    // Unnamed seats count as pending too
+    pending: Math.max(0, capacity - confirmed - declined)
+  };
+};
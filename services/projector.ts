@@ -0,0 +1,41 @@
+import { Photo, ChatMessage } from '../types';
+
+// Projector (venue screen) mode: access token, link and slide playlist.
+
+export const PROJECTOR_PARAM = 'projector';
+export const PROJECTOR_SLIDE_SECONDS = 8;
+// The screen has no session (so no realtime): it polls for new photos
+export const PROJECTOR_REFRESH_SECONDS = 15;
+// One chat highlight after every N photos
+const CHAT_EVERY = 4;
+
+export type Slide =
+  | { kind: 'PHOTO'; photo: Photo }
+  | { kind: 'CHAT'; message: ChatMessage };
+
+// 128 random bits, hex encoded
+export const generateProjectorToken = () => {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const buildProjectorUrl = (token: string) =>
+  `${window.location.origin}${window.location.pathname}?${PROJECTOR_PARAM}=${token}`;
+
+export const getProjectorToken = (search: string = window.location.search) =>
+  new URLSearchParams(search).get(PROJECTOR_PARAM);
+
+// Photos in gallery order (featured first) with chat highlights interleaved.
+export const buildSlides = (photos: Photo[], messages: ChatMessage[], showChat: boolean): Slide[] => {
+  const highlights = showChat ? messages.filter(m => !m.is_hidden && m.text.trim()) : [];
+  const slides: Slide[] = [];
+  photos.forEach((photo, i) => {
+    slides.push({ kind: 'PHOTO', photo });
+    const highlight = highlights[Math.floor(i / CHAT_EVERY) % Math.max(1, highlights.length)];
+    if (highlight && (i + 1) % CHAT_EVERY === 0) slides.push({ kind: 'CHAT', message: highlight });
+  });
+  // No photos yet: keep the screen alive with messages alone
+  if (photos.length === 0) highlights.forEach(message => slides.push({ kind: 'CHAT', message }));
+  return slides;
+};
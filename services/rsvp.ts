@@ -0,0 +1,38 @@
+import { EventConfig, InviteCode, UserProfile } from '../types';
+import { buildInviteLink } from './inviteLink';
+
+// RSVP deadline and reminder messages. The lock is enforced in the guest UI
+// and by the database (supabase/migrations/*_rsvp_deadline.sql); admins can
+// still change any RSVP from the panel after the deadline.
+
+const deadlineOf = (config: EventConfig) => {
+  if (!config.rsvp_deadline) return null;
+  const date = new Date(config.rsvp_deadline);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+export const isRsvpLocked = (config: EventConfig, now: Date = new Date()) => {
+  const deadline = deadlineOf(config);
+  return !!deadline && now >= deadline;
+};
+
+// "viernes 20 de febrero", or null without a deadline
+export const formatRsvpDeadline = (config: EventConfig) =>
+  deadlineOf(config)?.toLocaleDateString('es-AR', { weekday: 'long', day: 'numeric', month: 'long' }) ?? null;
+
+const deadlineSentence = (config: EventConfig) => {
+  const deadline = formatRsvpDeadline(config);
+  return deadline ? ` antes del ${deadline}` : '';
+};
+
+// Registered guest who hasn't answered yet. The link logs them back in with their code.
+export const buildRsvpReminder = (guest: Pick<UserProfile, 'name'>, invite: InviteCode | null, config: EventConfig) => {
+  const link = invite ? buildInviteLink(invite.code) : `${window.location.origin}${window.location.pathname}`;
+  return `¡Hola ${guest.name}! Te recordamos confirmar tu asistencia a los 15 de Gemma${deadlineSentence(config)} 🎉 Entrá acá: ${link}`;
+};
+
+// Invite that was handed out but never redeemed
+export const buildInviteReminder = (invite: InviteCode, config: EventConfig) => {
+  const greeting = invite.label ? `¡Hola ${invite.label}!` : '¡Hola!';
+  return `${greeting} Todavía no confirmaste tu lugar en los 15 de Gemma. Registrate${deadlineSentence(config)} con este link: ${buildInviteLink(invite.code)}`;
+};
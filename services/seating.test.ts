@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { UserSegment } from '../types';
+import { getTableName, getTableOccupancy, getUnseatedGuests, seatsForGuest } from './seating';
+import { companion, guest, table } from './testFixtures';
+
+const tables = [table(1, 'Mesa 1', 8), table(2, 'Mesa 2', 8)];
+
+describe('seating', () => {
+  const family = guest('fam', { table_id: 1, rsvp_status: 'DECLINED', companions: [companion(1, { rsvp_status: 'CONFIRMED' }), companion(2, { rsvp_status: 'CONFIRMED' })] });
+  const ana = guest('ana', { table_id: 1 });
+  const lost = guest('lost', { table_id: 99 });
+  const away = guest('away', { rsvp_status: 'DECLINED' });
+
+  it('seats confirmed members only', () => {
+    expect(seatsForGuest(family)).toBe(2);
+    expect(seatsForGuest(away)).toBe(0);
+  });
+
+  it('computes occupancy per table', () => {
+    expect(getTableOccupancy(tables, [family, ana, lost]).map(o => [o.table.id, o.guests.length, o.seats])).toEqual([[1, 2, 3], [2, 0, 0]]);
+  });
+
+  it('lists confirmed guests whose table is missing', () => {
+    const admin = guest('admin', { segment: UserSegment.ADMIN });
+    expect(getUnseatedGuests(tables, [family, ana, lost, away, admin, guest('new')]).map(g => g.user_id)).toEqual(['lost', 'new']);
+  });
+
+  it('falls back to the legacy table name', () => {
+    expect(getTableName({ table_id: 2 }, tables)).toBe('Mesa 2');
+    expect(getTableName({ table_id: null, table: 'Vieja' }, tables)).toBe('Vieja');
+    expect(getTableName({}, tables)).toBeNull();
+  });
+});
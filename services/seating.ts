@@ -0,0 +1,29 @@
+import { Guest, SeatingTable } from '../types';
+import { getPartyHeadcount } from './party';
+
+// Seating planner helpers: who sits where and how full each table is.
+
+export interface TableOccupancy {
+  table: SeatingTable;
+  guests: Guest[];
+  seats: number; // Confirmed people (holders + companions) seated at the table
+}
+
+// Seats a guest's party takes: the confirmed holder plus confirmed companions.
+export const seatsForGuest = (guest: Guest) => getPartyHeadcount(guest, guest.invite, guest.companions).confirmed;
+
+export const getTableOccupancy = (tables: SeatingTable[], guests: Guest[]): TableOccupancy[] =>
+  tables.map(table => {
+    const seated = guests.filter(g => g.table_id === table.id);
+    return { table, guests: seated, seats: seated.reduce((sum, g) => sum + seatsForGuest(g), 0) };
+  });
+
+// Confirmed guests (or parties with at least one confirmed member) without a valid table.
+export const getUnseatedGuests = (tables: SeatingTable[], guests: Guest[]): Guest[] => {
+  const tableIds = new Set(tables.map(t => t.id));
+  return guests.filter(g => g.segment !== 'ADMIN' && seatsForGuest(g) > 0 && (g.table_id == null || !tableIds.has(g.table_id)));
+};
+
+// Display name of a guest's table, falling back to the legacy free-text value.
+export const getTableName = (guest: Pick<Guest, 'table_id' | 'table'>, tables: SeatingTable[]): string | null =>
+  tables.find(t => t.id === guest.table_id)?.name ?? guest.table ?? null;
@@ -0,0 +1,64 @@
+import { EventConfig, UserSegment, SegmentContent } from '../types';
+
+// Per-segment guest content (schedule, dress code, rules, checklist, info
+// blocks). Everything that differs between YOUNG and ADULT guests goes through
+// `getSegmentContent`, so a new segment only needs an entry in GUEST_SEGMENTS.
+//
+// Content lives in EventConfig.segment_content (jsonb). The older paired
+// columns (time_young, rules_adult...) are still read as defaults and kept in
+// sync on save, since the countdown and existing rows rely on them.
+
+export interface SegmentDefinition {
+  id: UserSegment;
+  label: string;
+  short: string;      // Compact badge for admin tables
+  codeLetter: string; // Letter in invite codes (G15-J-...)
+}
+
+export const GUEST_SEGMENTS: SegmentDefinition[] = [
+  { id: UserSegment.YOUNG, label: 'Jóvenes', short: 'JOV', codeLetter: 'J' },
+  { id: UserSegment.ADULT, label: 'Adultos', short: 'ADU', codeLetter: 'A' }
+];
+
+// Unknown segments (ADMIN included) see the first guest segment's content.
+export const getSegmentDefinition = (segment?: UserSegment | null): SegmentDefinition =>
+  GUEST_SEGMENTS.find(s => s.id === segment) || GUEST_SEGMENTS[0];
+
+export const EMPTY_SEGMENT_CONTENT: SegmentContent = {
+  time: '',
+  dress_code: '',
+  rules: '',
+  checklist: [],
+  schedule: [],
+  info_blocks: []
+};
+
+const splitList = (raw?: string | null) => (raw || '').split(',').map(s => s.trim()).filter(Boolean);
+
+// Content stored in the legacy paired columns
+const legacyContent = (config: EventConfig, segment: UserSegment): Partial<SegmentContent> => {
+  if (segment === UserSegment.YOUNG) {
+    return { time: config.time_young, dress_code: config.dress_code_young, rules: config.rules_young, checklist: splitList(config.checklist_young) };
+  }
+  if (segment === UserSegment.ADULT) {
+    return { time: config.time_adult, dress_code: config.dress_code_adult, rules: config.rules_adult };
+  }
+  return {};
+};
+
+export const getSegmentContent = (config: EventConfig, segment?: UserSegment | null): SegmentContent => {
+  const id = getSegmentDefinition(segment).id;
+  return { ...EMPTY_SEGMENT_CONTENT, ...legacyContent(config, id), ...(config.segment_content?.[id] || {}) };
+};
+
+// Returns `config` with `content` stored for `segment`, mirrored into the legacy columns.
+export const withSegmentContent = (config: EventConfig, segment: UserSegment, content: SegmentContent): EventConfig => {
+  const next: EventConfig = { ...config, segment_content: { ...(config.segment_content || {}), [segment]: content } };
+  if (segment === UserSegment.YOUNG) {
+    Object.assign(next, { time_young: content.time, dress_code_young: content.dress_code, rules_young: content.rules, checklist_young: content.checklist.map(item => item.trim()).filter(Boolean).join(', ') });
+  }
+  if (segment === UserSegment.ADULT) {
+    Object.assign(next, { time_adult: content.time, dress_code_adult: content.dress_code, rules_adult: content.rules });
+  }
+  return next;
+};
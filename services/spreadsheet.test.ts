@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { escapeFormula, parseCsv, toCsv } from './spreadsheet';
+
+describe('toCsv', () => {
+  it('writes a BOM, CRLF line endings and RFC 4180 quoting', () => {
+    const csv = toCsv(['Nombre', 'Nota'], [['Ana', 'dijo "hola", chau'], ['Juan', 2]]);
+    expect(csv).toBe('\uFEFFNombre,Nota\r\nAna,"dijo ""hola"", chau"\r\nJuan,2\r\n');
+  });
+
+  it('quotes embedded line breaks', () => {
+    expect(toCsv(['a'], [['uno\ndos']])).toBe('\uFEFFa\r\n"uno\ndos"\r\n');
+  });
+});
+
+describe('escapeFormula', () => {
+  it('prefixes text that a spreadsheet would run as a formula', () => {
+    expect(['=HYPERLINK("x")', '+54 9 11', '-2+3', '@SUM(A1)', '\tx'].map(escapeFormula))
+      .toEqual(['\'=HYPERLINK("x")', '\'+54 9 11', '\'-2+3', '\'@SUM(A1)', '\'\tx']);
+  });
+
+  it('leaves plain text and numbers alone', () => {
+    expect(['Ana', 'a=b', '', -3, 0].map(escapeFormula)).toEqual(['Ana', 'a=b', '', -3, 0]);
+  });
+
+  it('is applied to every CSV cell', () => {
+    expect(toCsv(['=x'], [['=1+1', -1]])).toBe('\uFEFF\'=x\r\n\'=1+1,-1\r\n');
+  });
+});
+
+describe('parseCsv', () => {
+  it('reads back what toCsv writes', () => {
+    const rows = [['Nombre', 'Nota'], ['Ana', 'dijo "hola", chau'], ['Juan', 'uno\r\ndos']];
+    expect(parseCsv(toCsv(rows[0], rows.slice(1)))).toEqual(rows);
+  });
+
+  it('detects semicolon-delimited files', () => {
+    expect(parseCsv('Nombre;Mesa\nAna;"1;2"\n')).toEqual([['Nombre', 'Mesa'], ['Ana', '1;2']]);
+  });
+
+  it('ignores delimiters inside a quoted first field when detecting', () => {
+    expect(parseCsv('"a,b";c\n1;2')).toEqual([['a,b', 'c'], ['1', '2']]);
+  });
+
+  it('keeps empty fields and handles a missing final newline', () => {
+    expect(parseCsv('a,,c\r\n,b,')).toEqual([['a', '', 'c'], ['', 'b', '']]);
+  });
+});
@@ -0,0 +1,101 @@
+import { readSheet } from 'read-excel-file/browser';
+import writeXlsxFile from 'write-excel-file/browser';
+
+// Spreadsheet export / import. CSV follows RFC 4180 (quoted fields, CRLF) with
+// a UTF-8 BOM so Excel opens accents correctly; XLSX goes through
+// write-excel-file / read-excel-file.
+
+export type Cell = string | number;
+export type ExportFormat = 'csv' | 'xlsx';
+
+// A selectable column of an export
+export interface ExportColumn<T> {
+  key: string;
+  label: string;
+  value: (row: T) => Cell;
+}
+
+const BOM = '\uFEFF';
+
+// Text a spreadsheet would run as a formula (guest names and labels are user
+// input) gets a leading apostrophe, so it shows as plain text
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+export const escapeFormula = (value: Cell): Cell =>
+  typeof value === 'string' && FORMULA_START.test(value) ? `'${value}` : value;
+
+const quoteCsv = (value: Cell) => {
+  const text = String(escapeFormula(value));
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (headers: string[], rows: Cell[][]) =>
+  BOM + [headers, ...rows].map(row => row.map(quoteCsv).join(',')).join('\r\n') + '\r\n';
+
+const toXlsx = (headers: string[], rows: Cell[][]) =>
+  writeXlsxFile([headers, ...rows].map(row => row.map(escapeFormula)), { sheet: 'Datos' }).toBlob();
+
+const downloadBlob = (fileName: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+// Downloads `rows` as `<baseName>.csv` or `<baseName>.xlsx`
+export const exportRows = async (baseName: string, format: ExportFormat, headers: string[], rows: Cell[][]) => {
+  if (format === 'xlsx') {
+    downloadBlob(`${baseName}.xlsx`, await toXlsx(headers, rows));
+  } else {
+    downloadBlob(`${baseName}.csv`, new Blob([toCsv(headers, rows)], { type: 'text/csv;charset=utf-8' }));
+  }
+};
+
+export const exportColumns = <T>(baseName: string, format: ExportFormat, columns: ExportColumn<T>[], data: T[]) =>
+  exportRows(baseName, format, columns.map(c => c.label), data.map(row => columns.map(c => c.value(row))));
+
+// RFC 4180 parser. Excel in Spanish locales saves with ';', so the delimiter
+// is whichever of ',' / ';' shows up first outside quotes.
+export const parseCsv = (input: string): string[][] => {
+  const text = input.startsWith(BOM) ? input.slice(1) : input;
+  const delimiter = text.match(/^(?:"(?:[^"]|"")*"|[^",;\r\n])*([,;])/)?.[1] ?? ',';
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      rows.push([...row, field]);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) rows.push([...row, field]);
+  return rows;
+};
+
+// First sheet of a .xlsx / .csv file as rows of trimmed strings, blank rows dropped.
+export const readSpreadsheet = async (file: File): Promise<string[][]> => {
+  const rows: unknown[][] = /\.csv$/i.test(file.name) || file.type === 'text/csv'
+    ? parseCsv(await file.text())
+    : await readSheet(file);
+  return rows.map(r => r.map(c => String(c ?? '').trim())).filter(r => r.some(Boolean));
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { UserSegment } from '../types';
+import { bucketByTime, buildEventStats, isHourlyActivity } from './stats';
+import { companion, guest, invite, table } from './testFixtures';
+
+// Local-time instants, since buckets follow the viewer's clock
+const at = (day: number, hour: number, minute = 0) => new Date(2025, 10, day, hour, minute).toISOString();
+const once = (...times: string[]) => times.map(time => ({ time, count: 1 }));
+
+describe('bucketByTime', () => {
+  it('is empty without valid timestamps', () => {
+    expect(bucketByTime([])).toEqual([]);
+    expect(bucketByTime(once('nope'))).toEqual([]);
+  });
+
+  it('buckets short spans per hour, filling the gaps', () => {
+    const buckets = bucketByTime(once(at(15, 22, 40), at(15, 21, 5), at(15, 21, 59), at(16, 0, 10)));
+    expect(buckets.map(b => [b.start.getHours(), b.count])).toEqual([[21, 2], [22, 1], [23, 0], [0, 1]]);
+    expect(isHourlyActivity(buckets)).toBe(true);
+  });
+
+  it('buckets long spans per day', () => {
+    const buckets = bucketByTime(once(at(1, 10), at(1, 23), at(4, 8)));
+    expect(buckets.map(b => [b.start.getDate(), b.count])).toEqual([[1, 2], [2, 0], [3, 0], [4, 1]]);
+    expect(isHourlyActivity(buckets)).toBe(false);
+  });
+
+  it('adds up counts already summed per hour', () => {
+    const buckets = bucketByTime([{ time: at(1, 10), count: 1500 }, { time: at(1, 11), count: 20 }, { time: at(5, 9), count: 3 }]);
+    expect(buckets.map(b => [b.start.getDate(), b.count])).toEqual([[1, 1520], [2, 0], [3, 0], [4, 0], [5, 3]]);
+  });
+});
+
+describe('buildEventStats', () => {
+  it('counts people, invites and seats, leaving admins out', () => {
+    const family = invite('F', { is_used: true, party_size: 3, segment: UserSegment.ADULT });
+    const stats = buildEventStats({
+      guests: [
+        guest('ana', { rsvp_status: 'CONFIRMED', table_id: 1, is_celiac: true, invite: invite('A', { is_used: true }) }),
+        guest('fam', {
+          segment: UserSegment.ADULT,
+          rsvp_status: 'CONFIRMED',
+          invite: family,
+          companions: [companion(1, { invite_code: 'F', name: 'Hijo', rsvp_status: 'DECLINED' })]
+        }),
+        guest('admin', { segment: UserSegment.ADMIN, rsvp_status: 'CONFIRMED' })
+      ],
+      invites: [invite('A', { is_used: true }), family, invite('R', { is_revoked: true }), invite('U'), invite('ADM', { segment: UserSegment.ADMIN })],
+      tables: [table(1)],
+      photos: [{ status: 'PENDING' }, { status: 'APPROVED' }, { status: 'APPROVED' }],
+      chatActivity: []
+    });
+
+    expect(stats.attendance).toEqual({ confirmed: 2, declined: 1, pending: 1 });
+    expect(stats.bySegment.map(s => s.counts.confirmed)).toEqual([1, 1]);
+    expect(stats.invites).toEqual({ total: 4, used: 2, unused: 1, revoked: 1 });
+    expect(stats.seating).toEqual({ seated: 1, unseated: 1 });
+    expect(stats.diet.total).toBe(2);
+    expect(stats.diet.celiac).toBe(1);
+    expect(stats.photos).toEqual({ PENDING: 1, APPROVED: 2, REJECTED: 0 });
+    expect(stats.redemptions.map(b => b.count)).toEqual([2]);
+  });
+});
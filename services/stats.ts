@@ -0,0 +1,122 @@
+import { ChatActivityHour, Guest, InviteCode, Photo, SeatingTable, UserSegment } from '../types';
+import { buildCateringReport, RequirementCounts } from './catering';
+import { getPartyHeadcount } from './party';
+import { getUnseatedGuests, seatsForGuest } from './seating';
+import { GUEST_SEGMENTS, SegmentDefinition } from './segments';
+
+// Admin overview numbers, derived from the same tables the other tabs load.
+// Attendance counts people (holders + companions + unnamed seats), not invites.
+
+export interface AttendanceCounts {
+  confirmed: number;
+  declined: number;
+  pending: number;
+}
+
+export interface ActivityBucket {
+  start: Date;
+  count: number;
+}
+
+export interface EventStats {
+  bySegment: { segment: SegmentDefinition; counts: AttendanceCounts }[];
+  attendance: AttendanceCounts;
+  invites: { total: number; used: number; unused: number; revoked: number };
+  diet: RequirementCounts;
+  seating: { seated: number; unseated: number };
+  photos: Record<Photo['status'], number>;
+  chatActivity: ActivityBucket[];
+  redemptions: ActivityBucket[]; // Cumulative registered guests
+}
+
+export interface StatsInput {
+  guests: Guest[];
+  invites: InviteCode[];
+  tables: SeatingTable[];
+  photos: Pick<Photo, 'status'>[];
+  chatActivity: ChatActivityHour[];
+}
+
+const HOUR = 3600000;
+const DAY = 24 * HOUR;
+// Spans up to this long are bucketed per hour, longer ones per day
+const HOURLY_SPAN = 2 * DAY;
+
+const addCounts = (a: AttendanceCounts, b: AttendanceCounts): AttendanceCounts => ({
+  confirmed: a.confirmed + b.confirmed,
+  declined: a.declined + b.declined,
+  pending: a.pending + b.pending
+});
+
+const ZERO: AttendanceCounts = { confirmed: 0, declined: 0, pending: 0 };
+
+const countAttendance = (guests: Guest[]) =>
+  guests.reduce((sum, g) => addCounts(sum, getPartyHeadcount(g, g.invite, g.companions)), ZERO);
+
+// Counts per hour or per day (local time), with empty buckets filled in.
+// `counts` are events at an instant (1 each) or already summed per hour.
+export const bucketByTime = (counts: { time: string; count: number }[]): ActivityBucket[] => {
+  const entries = counts
+    .map(c => ({ t: new Date(c.time).getTime(), count: c.count }))
+    .filter(c => !isNaN(c.t))
+    .sort((a, b) => a.t - b.t);
+  if (entries.length === 0) return [];
+  const times = entries.map(e => e.t);
+  const hourly = times[times.length - 1] - times[0] <= HOURLY_SPAN;
+  const floor = (t: number) => {
+    const d = new Date(t);
+    if (hourly) d.setMinutes(0, 0, 0);
+    else d.setHours(0, 0, 0, 0);
+    return d;
+  };
+  const next = (d: Date) => {
+    const n = new Date(d);
+    if (hourly) n.setHours(n.getHours() + 1);
+    else n.setDate(n.getDate() + 1);
+    return n;
+  };
+
+  const buckets: ActivityBucket[] = [];
+  const last = floor(times[times.length - 1]).getTime();
+  for (let start = floor(times[0]); start.getTime() <= last; start = next(start)) buckets.push({ start, count: 0 });
+  let i = 0;
+  entries.forEach(({ t, count }) => {
+    while (i < buckets.length - 1 && buckets[i + 1].start.getTime() <= t) i++;
+    buckets[i].count += count;
+  });
+  return buckets;
+};
+
+export const isHourlyActivity = (buckets: ActivityBucket[]) =>
+  buckets.length > 1 && buckets[1].start.getTime() - buckets[0].start.getTime() < DAY;
+
+export const buildEventStats = ({ guests, invites, tables, photos, chatActivity }: StatsInput): EventStats => {
+  const attendees = guests.filter(g => g.segment !== UserSegment.ADMIN);
+  const guestInvites = invites.filter(i => i.segment !== UserSegment.ADMIN);
+  const unseated = getUnseatedGuests(tables, attendees);
+  const confirmedSeats = attendees.reduce((sum, g) => sum + seatsForGuest(g), 0);
+  const unseatedSeats = unseated.reduce((sum, g) => sum + seatsForGuest(g), 0);
+
+  let registered = 0;
+  const redemptions = bucketByTime(attendees.map(g => ({ time: g.created_at, count: 1 }))).map(b => ({ ...b, count: (registered += b.count) }));
+
+  return {
+    bySegment: GUEST_SEGMENTS.map(segment => ({ segment, counts: countAttendance(attendees.filter(g => g.segment === segment.id)) })),
+    attendance: countAttendance(attendees),
+    invites: {
+      total: guestInvites.length,
+      used: guestInvites.filter(i => i.is_used).length,
+      unused: guestInvites.filter(i => !i.is_used && !i.is_revoked).length,
+      revoked: guestInvites.filter(i => i.is_revoked).length
+    },
+    diet: buildCateringReport(attendees, tables).totals,
+    seating: { seated: confirmedSeats - unseatedSeats, unseated: unseatedSeats },
+    photos: {
+      PENDING: photos.filter(p => p.status === 'PENDING').length,
+      APPROVED: photos.filter(p => p.status === 'APPROVED').length,
+      REJECTED: photos.filter(p => p.status === 'REJECTED').length
+    },
+    chatActivity: bucketByTime(chatActivity),
+    redemptions
+  };
+};
@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
+import { createMockClient } from './mockSupabase';
 
 // Access environment variables safely
 const env = (import.meta as any).env;
@@ -10,14 +11,13 @@ const key = env?.VITE_SUPABASE_ANON_KEY;
 // This happens if variables are missing or are the placeholders
 export const isMockMode = !url || !key || url.includes('placeholder');
 
-// Use placeholders to initialize the client so it doesn't crash, 
-// but we will gate the calls in App.tsx using `isMockMode`.
-const supabaseUrl = url || 'https://placeholder.supabase.co';
-const supabaseAnonKey = key || 'placeholder-key';
-
-export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
-    auth: {
-        persistSession: true,
-        autoRefreshToken: true,
-    }
-});
\ No newline at end of file
+// In Mock Mode the app talks to an in-memory, localStorage-backed client
+// exposing the same tables, storage bucket, auth and realtime channels.
+export const supabase = isMockMode
+    ? createMockClient()
+    : createClient(url, key, {
+        auth: {
+            persistSession: true,
+            autoRefreshToken: true,
+        }
+    });
\ No newline at end of file
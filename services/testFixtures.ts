@@ -0,0 +1,42 @@
+import { vi } from 'vitest';
+import { Companion, Guest, InviteCode, SeatingTable, UserSegment } from '../types';
+
+// Fixture factories shared by the unit tests. Defaults describe a confirmed
+// YOUNG guest with no invite; tests pass only the fields they care about.
+
+export const FIXTURE_DATE = '2025-01-01T00:00:00Z';
+
+export const guest = (user_id: string, extra: Partial<Guest> = {}): Guest => ({
+  user_id,
+  name: user_id,
+  segment: UserSegment.YOUNG,
+  is_celiac: false,
+  created_at: FIXTURE_DATE,
+  rsvp_status: 'CONFIRMED',
+  invite: null,
+  companions: [],
+  ...extra
+});
+
+export const invite = (code: string, extra: Partial<InviteCode> = {}): InviteCode =>
+  ({ code, segment: UserSegment.YOUNG, is_used: false, ...extra });
+
+export const companion = (id: number, extra: Partial<Companion> = {}): Companion =>
+  ({ id, invite_code: 'X', name: `C${id}`, rsvp_status: 'PENDING', is_celiac: false, created_at: FIXTURE_DATE, ...extra });
+
+export const table = (id: number, name = `Mesa ${id}`, capacity = 10): SeatingTable =>
+  ({ id, name, capacity, created_at: FIXTURE_DATE });
+
+// localStorage stand-in for the mock client; `full` makes writes fail like an exceeded quota
+export const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    full: false,
+    getItem: vi.fn((key: string) => items.get(key) ?? null),
+    setItem(key: string, value: string) {
+      if (this.full) throw new DOMException('Quota exceeded', 'QuotaExceededError');
+      items.set(key, value);
+    },
+    removeItem: (key: string) => { items.delete(key); }
+  };
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { EventConfig, TimelineMoment, UserSegment } from '../types';
+import { getScheduledStart, getTimelineState, isMomentVisible, sortMoments } from './timeline';
+
+const config = {
+  id: 1,
+  event_date: '2025-11-15T21:00:00-03:00',
+  time_young: '21:00',
+  time_adult: '22:00'
+} as EventConfig;
+
+const moment = (id: number, time: string, extra: Partial<TimelineMoment> = {}): TimelineMoment =>
+  ({ id, title: `#${id}`, time, segments: [], created_at: '2025-01-01T00:00:00Z', ...extra });
+
+// Buenos Aires wall-clock time on the event night
+const local = (time: string, day = 15) => new Date(`2025-11-${day}T${time}:00-03:00`);
+
+describe('getScheduledStart', () => {
+  it('moves times before the party start to the next day', () => {
+    expect(getScheduledStart(config, moment(1, '23:00'))).toEqual(local('23:00'));
+    expect(getScheduledStart(config, moment(1, '02:00'))).toEqual(local('02:00', 16));
+  });
+
+  it('is null for invalid times', () => {
+    expect(getScheduledStart(config, moment(1, 'luego'))).toBeNull();
+  });
+});
+
+describe('sortMoments', () => {
+  it('orders by actual start, invalid times last', () => {
+    const moments = [moment(1, '01:00'), moment(2, 'x'), moment(3, '23:00'), moment(4, '00:30', { started_at: local('22:00').toISOString() })];
+    expect(sortMoments(config, moments).map(m => m.id)).toEqual([4, 3, 1, 2]);
+  });
+});
+
+describe('getTimelineState', () => {
+  const moments = [moment(1, '21:30'), moment(2, '23:00'), moment(3, '01:00')];
+
+  it('has no current moment before the first one starts', () => {
+    const state = getTimelineState(config, moments, local('21:10'));
+    expect(state.current).toBeNull();
+    expect(state.upcoming.map(m => m.id)).toEqual([1, 2, 3]);
+  });
+
+  it('picks the latest started moment', () => {
+    const state = getTimelineState(config, moments, local('00:15', 16));
+    expect(state.current?.id).toBe(2);
+    expect(state.upcoming.map(m => m.id)).toEqual([3]);
+  });
+
+  it('lets an admin start a moment early', () => {
+    const early = [moments[0], { ...moments[1], started_at: local('22:15').toISOString() }, moments[2]];
+    expect(getTimelineState(config, early, local('22:20')).current?.id).toBe(2);
+  });
+
+  it('clears the current moment once the party is over', () => {
+    // Adults arrive last, at 22:00, and the party lasts 8 hours
+    expect(getTimelineState(config, moments, local('05:59', 16)).current?.id).toBe(3);
+    expect(getTimelineState(config, moments, local('06:00', 16)).current).toBeNull();
+  });
+});
+
+describe('isMomentVisible', () => {
+  it('shows untargeted moments to everyone and targeted ones to their segment', () => {
+    const adults = moment(1, '23:00', { segments: [UserSegment.ADULT] });
+    expect(isMomentVisible(moment(2, '23:00'), UserSegment.YOUNG)).toBe(true);
+    expect(isMomentVisible(adults, UserSegment.YOUNG)).toBe(false);
+    expect(isMomentVisible(adults, UserSegment.ADULT)).toBe(true);
+    expect(isMomentVisible(adults, UserSegment.ADMIN)).toBe(true);
+    expect(isMomentVisible(adults, null)).toBe(false);
+  });
+});
@@ -0,0 +1,45 @@
+import { EventConfig, TimelineMoment, UserSegment } from '../types';
+import { EVENT_DURATION_HOURS, getEventDayTime, getEventStart } from './countdown';
+import { GUEST_SEGMENTS } from './segments';
+
+// Party agenda: when each moment happens and which one is on right now. A
+// moment starts at its scheduled time unless an admin marked it as started,
+// in which case that instant wins (things rarely run on time).
+
+export interface TimelineState {
+  current: TimelineMoment | null;
+  upcoming: TimelineMoment[];
+}
+
+// Earliest arrival among the guest segments: the agenda can't start before it.
+const getPartyStart = (config: EventConfig) =>
+  new Date(Math.min(...GUEST_SEGMENTS.map(s => getEventStart(config, s.id).getTime())));
+
+const getPartyEnd = (config: EventConfig) =>
+  new Date(Math.max(...GUEST_SEGMENTS.map(s => getEventStart(config, s.id).getTime())) + EVENT_DURATION_HOURS * 3600000);
+
+// Scheduled instant of a moment; `02:00` after a `14:00` start is the next day.
+export const getScheduledStart = (config: EventConfig, moment: TimelineMoment): Date | null => {
+  const date = getEventDayTime(config, moment.time);
+  if (!date) return null;
+  if (date < getPartyStart(config)) date.setDate(date.getDate() + 1);
+  return date;
+};
+
+export const getMomentStart = (config: EventConfig, moment: TimelineMoment): Date | null =>
+  moment.started_at ? new Date(moment.started_at) : getScheduledStart(config, moment);
+
+export const isMomentVisible = (moment: TimelineMoment, segment?: UserSegment | null) =>
+  segment === UserSegment.ADMIN || moment.segments.length === 0 || (!!segment && moment.segments.includes(segment));
+
+// Moments in the order they happen (or are expected to)
+export const sortMoments = (config: EventConfig, moments: TimelineMoment[]) =>
+  [...moments].sort((a, b) => (getMomentStart(config, a)?.getTime() ?? Infinity) - (getMomentStart(config, b)?.getTime() ?? Infinity));
+
+// The latest moment that already started is the current one, until the party ends.
+export const getTimelineState = (config: EventConfig, moments: TimelineMoment[], now: Date = new Date()): TimelineState => {
+  const sorted = sortMoments(config, moments);
+  const started = sorted.filter(m => (getMomentStart(config, m)?.getTime() ?? Infinity) <= now.getTime());
+  const current = now < getPartyEnd(config) ? started[started.length - 1] ?? null : null;
+  return { current, upcoming: sorted.filter(m => !started.includes(m)) };
+};
@@ -0,0 +1,303 @@
+import { db } from './db';
+import { processImage } from './imageProcessing';
+import {
+  processVideo, isVideoFile, checkVideoSize, checkVideoDuration,
+  VideoLimits, DEFAULT_VIDEO_MAX_MB, DEFAULT_VIDEO_MAX_SECONDS
+} from './videoProcessing';
+
+// Persistent photo upload queue. Files are stored in IndexedDB as soon as they
+// are picked, uploaded one at a time and retried with exponential backoff, so
+// a dropped connection or a page reload never loses a photo.
+
+export type UploadStatus = 'QUEUED' | 'PROCESSING' | 'UPLOADING' | 'SAVING' | 'DONE' | 'FAILED';
+
+export interface UploadItem {
+  id: string;
+  user_id: string;
+  name: string;
+  size: number;
+  media_type: 'IMAGE' | 'VIDEO';
+  status: UploadStatus;
+  progress: number; // 0-100: the stage, and the bytes sent while UPLOADING
+  attempts: number;
+  next_attempt_at: number | null;
+  error: string | null;
+}
+
+type StoredUpload = UploadItem & { file: Blob };
+
+export const MAX_UPLOAD_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 30000;
+
+// Where each stage starts; UPLOADING fills the range up to SAVING as bytes go out
+const STAGE_PROGRESS: Record<UploadStatus, number> = {
+  QUEUED: 0, PROCESSING: 5, UPLOADING: 10, SAVING: 95, DONE: 100, FAILED: 0
+};
+
+// Stages during which the uploader holds the item
+const IN_FLIGHT: UploadStatus[] = ['PROCESSING', 'UPLOADING', 'SAVING'];
+
+export const getRetryDelay = (attempts: number) =>
+  Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1));
+
+// Files that can never succeed (too long, undecodable): not worth retrying
+class UploadRejectedError extends Error {}
+
+// --- IndexedDB persistence ---
+
+const DB_NAME = 'gemma15_uploads';
+const STORE = 'uploads';
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+// Resolves null where IndexedDB is unavailable (private mode): the queue still
+// works, it just doesn't survive reloads.
+const openStore = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') return resolve(null);
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: 'id' });
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => { console.warn('Upload queue persistence unavailable', request.error); resolve(null); };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T | null> => {
+  const idb = await openStore();
+  if (!idb) return null;
+  return new Promise(resolve => {
+    const request = fn(idb.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => { console.warn('Upload queue storage error', request.error); resolve(null); };
+  });
+};
+
+// --- Queue ---
+
+const createUploadQueue = () => {
+  let items: StoredUpload[] = [];
+  let activeUser: string | null = null;
+  let running = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let videoLimits: VideoLimits = { maxMb: DEFAULT_VIDEO_MAX_MB, maxSeconds: DEFAULT_VIDEO_MAX_SECONDS };
+  const listeners = new Set<(items: UploadItem[]) => void>();
+  // Last emitted snapshot, kept stable between changes for useSyncExternalStore
+  let current: UploadItem[] = [];
+
+  const snapshot = (): UploadItem[] =>
+    items.filter(i => i.user_id === activeUser).map(({ file, ...item }) => item);
+
+  const emit = () => {
+    current = snapshot();
+    listeners.forEach(l => l(current));
+  };
+
+  const save = (item: StoredUpload) => withStore('readwrite', s => s.put(item));
+
+  const update = (id: string, changes: Partial<UploadItem>) => {
+    items = items.map(i => i.id === id ? { ...i, ...changes } : i);
+    const item = items.find(i => i.id === id);
+    // Finished uploads don't need their file anymore
+    if (item?.status === 'DONE') withStore('readwrite', s => s.delete(id));
+    else if (item) save(item);
+    emit();
+  };
+
+  const setStage = (id: string, status: UploadStatus) => update(id, { status, progress: STAGE_PROGRESS[status] });
+
+  // In memory only: byte progress changes too often to rewrite the stored file
+  const setProgress = (id: string, progress: number) => {
+    if (items.find(i => i.id === id)?.progress === progress) return;
+    items = items.map(i => i.id === id ? { ...i, progress } : i);
+    emit();
+  };
+
+  // Images are re-encoded (see imageProcessing); videos go up as recorded
+  // with a poster frame as their thumbnail.
+  const prepare = async (item: StoredUpload) => {
+    if (item.media_type === 'IMAGE') {
+      const { full, thumbnail } = await processImage(item.file).catch(e => { throw new UploadRejectedError(e.message); });
+      return { full, thumbnail, ext: 'jpg', durationSeconds: null };
+    }
+    const { poster, durationSeconds } = await processVideo(item.file).catch(e => { throw new UploadRejectedError(e.message); });
+    const tooLong = checkVideoDuration(durationSeconds, videoLimits);
+    if (tooLong) throw new UploadRejectedError(tooLong);
+    const ext = item.name.match(/\.([a-z0-9]+)$/i)?.[1].toLowerCase() || 'mp4';
+    return { full: item.file, thumbnail: poster, ext, durationSeconds: Math.round(durationSeconds) };
+  };
+
+  const uploadOne = async (item: StoredUpload) => {
+    setStage(item.id, 'PROCESSING');
+    const { full, thumbnail, ext, durationSeconds } = await prepare(item);
+
+    // Paths come from the item id: every attempt overwrites the same objects
+    // instead of leaving the ones of a failed try behind
+    const baseName = `${item.id}_${item.name.replace(/\.[^.]+$/, '').replace(/[^a-zA-Z0-9]/g, '_')}`;
+    const fileName = `${item.user_id}/${baseName}.${ext}`;
+    const thumbName = `${item.user_id}/thumbs/${baseName}.jpg`;
+
+    setStage(item.id, 'UPLOADING');
+    // Both files share the UPLOADING range in proportion to their size
+    const sent = { full: 0, thumbnail: 0 };
+    const total = full.size + thumbnail.size || 1;
+    const track = (part: keyof typeof sent) => (fraction: number) => {
+      sent[part] = fraction * (part === 'full' ? full.size : thumbnail.size);
+      const range = STAGE_PROGRESS.SAVING - STAGE_PROGRESS.UPLOADING;
+      setProgress(item.id, Math.round(STAGE_PROGRESS.UPLOADING + range * (sent.full + sent.thumbnail) / total));
+    };
+    const [{ error: uploadError }, { error: thumbError }] = await Promise.all([
+      db.photos.upload(fileName, full, track('full')),
+      db.photos.upload(thumbName, thumbnail, track('thumbnail'))
+    ]);
+    if (uploadError) {
+      if (!thumbError) await db.photos.removeFiles([thumbName]);
+      throw uploadError;
+    }
+
+    setStage(item.id, 'SAVING');
+    // Keyed on storage_path, so a retry after a lost response keeps one row
+    const { error: dbError } = await db.photos.create({
+      user_id: item.user_id,
+      storage_path: fileName,
+      // A failed thumbnail is not fatal: grids fall back to the original
+      thumbnail_path: thumbError ? null : thumbName,
+      media_type: item.media_type,
+      duration_seconds: durationSeconds
+    });
+    // The files stay: the row may exist even though the response was lost,
+    // and the next attempt overwrites them anyway
+    if (dbError) throw dbError;
+  };
+
+  const schedule = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    const waiting = items.filter(i => i.user_id === activeUser && i.status === 'QUEUED' && i.next_attempt_at);
+    if (waiting.length === 0) return;
+    const wait = Math.max(0, Math.min(...waiting.map(i => i.next_attempt_at!)) - Date.now());
+    timer = setTimeout(() => { timer = null; pump(); }, wait);
+  };
+
+  // Uploads due items one by one (venue Wi-Fi rarely benefits from parallelism)
+  const pump = async () => {
+    if (running) return;
+    running = true;
+    try {
+      while (true) {
+        const next = items.find(i => i.user_id === activeUser && i.status === 'QUEUED' && (i.next_attempt_at ?? 0) <= Date.now());
+        if (!next) break;
+        try {
+          await uploadOne(next);
+          update(next.id, { status: 'DONE', progress: 100, error: null, next_attempt_at: null });
+        } catch (e: any) {
+          const attempts = next.attempts + 1;
+          const message = e?.message || 'Error al subir';
+          const permanent = e instanceof UploadRejectedError || e?.code === 'BUCKET_NOT_FOUND';
+          if (permanent || attempts >= MAX_UPLOAD_ATTEMPTS) {
+            update(next.id, { status: 'FAILED', progress: 0, attempts, error: message, next_attempt_at: null });
+          } else {
+            update(next.id, { status: 'QUEUED', progress: 0, attempts, error: message, next_attempt_at: Date.now() + getRetryDelay(attempts) });
+          }
+        }
+      }
+    } finally {
+      running = false;
+      schedule();
+    }
+  };
+
+  // Loads the persisted queue for `userId` and resumes it. Uploads that were
+  // mid-flight when the page closed start over.
+  const resume = async (userId: string) => {
+    activeUser = userId;
+    const stored = await withStore<StoredUpload[]>('readonly', s => s.getAll());
+    const known = new Set(items.map(i => i.id));
+    (stored || []).forEach(item => {
+      if (known.has(item.id)) return;
+      const restored = { media_type: 'IMAGE' as const, ...item };
+      items.push(restored.status === 'FAILED' ? restored : { ...restored, status: 'QUEUED', progress: 0, next_attempt_at: null });
+    });
+    emit();
+    pump();
+  };
+
+  const enqueue = async (userId: string, files: File[]) => {
+    activeUser = userId;
+    const added: StoredUpload[] = files.map(file => {
+      const isVideo = isVideoFile(file);
+      // Oversized clips are rejected up front instead of burning bandwidth
+      const tooBig = isVideo ? checkVideoSize(file.size, videoLimits) : null;
+      return {
+        id: `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+        user_id: userId,
+        name: file.name,
+        size: file.size,
+        media_type: isVideo ? 'VIDEO' : 'IMAGE',
+        status: tooBig ? 'FAILED' : 'QUEUED',
+        progress: 0,
+        attempts: 0,
+        next_attempt_at: null,
+        error: tooBig,
+        file
+      };
+    });
+    items = [...items, ...added];
+    emit();
+    // Rejected files stay visible but aren't kept across reloads
+    await Promise.all(added.filter(i => i.status !== 'FAILED').map(save));
+    pump();
+  };
+
+  const setVideoLimits = (limits: VideoLimits) => { videoLimits = limits; };
+
+  const retry = (id: string) => {
+    update(id, { status: 'QUEUED', attempts: 0, error: null, next_attempt_at: null });
+    pump();
+  };
+
+  // Items the uploader is working on can't be removed: it would save them back
+  const remove = (id: string) => {
+    const item = items.find(i => i.id === id);
+    if (!item || IN_FLIGHT.includes(item.status)) return;
+    items = items.filter(i => i.id !== id);
+    withStore('readwrite', s => s.delete(id));
+    emit();
+  };
+
+  const clearFinished = () => {
+    items = items.filter(i => i.user_id !== activeUser || i.status !== 'DONE');
+    emit();
+  };
+
+  // Stops processing on logout; persisted items wait for the next login
+  const stop = () => {
+    activeUser = null;
+    if (timer) clearTimeout(timer);
+    timer = null;
+    emit();
+  };
+
+  const getSnapshot = () => current;
+
+  const subscribe = (listener: (items: UploadItem[]) => void) => {
+    listeners.add(listener);
+    listener(snapshot());
+    return () => { listeners.delete(listener); };
+  };
+
+  if (typeof window !== 'undefined') {
+    // Back online: retry everything that is waiting for its backoff
+    window.addEventListener('online', () => {
+      items = items.map(i => i.status === 'QUEUED' ? { ...i, next_attempt_at: null } : i);
+      pump();
+    });
+  }
+
+  return { resume, enqueue, retry, remove, clearFinished, stop, subscribe, getSnapshot, setVideoLimits };
+};
+
+export const uploadQueue = createUploadQueue();
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { EventConfig, ThemeConfig } from '../types';
+import { isPositiveNumber, isValidHexColor, isValidIsoDate, isValidTime, isValidUrl, validateEventConfig, validateThemeConfig } from './validation';
+
+const event: EventConfig = {
+  id: 1,
+  event_date: '2025-11-15T21:00:00-03:00',
+  location_name: 'Salón',
+  location_address: 'Calle 123',
+  location_maps_url: 'https://maps.example.com/salon',
+  time_young: '21:00',
+  time_adult: '22:30',
+  spotify_playlist_url: '',
+  rules_young: '',
+  rules_adult: '',
+  dress_code_young: '',
+  dress_code_adult: '',
+  checklist_young: '',
+  welcome_message: '¡Bienvenidos!'
+};
+
+const theme: ThemeConfig = {
+  id: 1,
+  font_family: 'Inter',
+  color_bg: '#000',
+  color_card: '#111111',
+  color_text: '#fff',
+  color_primary: '#ec4899',
+  color_accent: '#8B5CF6',
+  motion_level: 'medium'
+};
+
+describe('field validators', () => {
+  it('requires an offset on ISO dates', () => {
+    expect(isValidIsoDate('2026-03-14T14:00:00-03:00')).toBe(true);
+    expect(isValidIsoDate('2026-03-14T14:00Z')).toBe(true);
+    expect(isValidIsoDate('2026-03-14T14:00:00')).toBe(false);
+    expect(isValidIsoDate('2026-13-45T14:00:00Z')).toBe(false);
+  });
+
+  it('checks HH:MM times, hex colors, positive numbers and http(s) URLs', () => {
+    expect(['00:00', '23:59'].every(isValidTime)).toBe(true);
+    expect(['24:00', '9:30', '12:60'].some(isValidTime)).toBe(false);
+    expect(['#abc', '#A1B2C3'].every(isValidHexColor)).toBe(true);
+    expect(['abc', '#abcd', '#ggg'].some(isValidHexColor)).toBe(false);
+    expect([1, 0.5].every(isPositiveNumber)).toBe(true);
+    expect([0, -1, NaN, Infinity, '3'].some(isPositiveNumber)).toBe(false);
+    expect(isValidUrl('https://open.spotify.com/x')).toBe(true);
+    expect(isValidUrl('javascript:alert(1)')).toBe(false);
+    expect(isValidUrl('not a url')).toBe(false);
+  });
+});
+
+describe('validateEventConfig', () => {
+  it('accepts a complete config', () => {
+    expect(validateEventConfig(event)).toEqual({});
+  });
+
+  it('reports each invalid field', () => {
+    const errors = validateEventConfig({
+      ...event,
+      event_date: 'mañana',
+      rsvp_deadline: '2026-03-01',
+      location_name: ' ',
+      location_maps_url: 'maps',
+      spotify_playlist_url: 'spotify',
+      welcome_message: '',
+      video_max_mb: 0,
+      video_max_seconds: -5
+    });
+    expect(Object.keys(errors).sort()).toEqual([
+      'event_date', 'location_maps_url', 'location_name', 'rsvp_deadline',
+      'spotify_playlist_url', 'video_max_mb', 'video_max_seconds', 'welcome_message'
+    ]);
+  });
+
+  it('checks the arrival time and schedule of every segment', () => {
+    expect(validateEventConfig({ ...event, time_adult: '10pm' }).segment_content).toMatch(/^Adultos/);
+    const schedule = [{ time: '23:00', title: '' }];
+    expect(validateEventConfig({ ...event, segment_content: { YOUNG: { time: '21:00', dress_code: '', rules: '', checklist: [], schedule, info_blocks: [] } } }).segment_content).toMatch(/^Jóvenes/);
+  });
+});
+
+describe('validateThemeConfig', () => {
+  it('accepts a complete theme', () => {
+    expect(validateThemeConfig(theme)).toEqual({});
+  });
+
+  it('reports bad colors, an empty font and unknown motion levels', () => {
+    const errors = validateThemeConfig({ ...theme, color_bg: 'black', font_family: '', motion_level: 'max' as ThemeConfig['motion_level'] });
+    expect(Object.keys(errors).sort()).toEqual(['color_bg', 'font_family', 'motion_level']);
+  });
+});
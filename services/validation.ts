@@ -0,0 +1,61 @@
+import { EventConfig, ThemeConfig } from '../types';
+import { GUEST_SEGMENTS, getSegmentContent } from './segments';
+
+// Field-level validators shared by the admin forms.
+// Each returns an error message (es-AR) or null when the value is valid.
+
+const ISO_DATE_RE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+const TIME_RE = /^([01]\d|2[0-3]):[0-5]\d$/;
+const HEX_COLOR_RE = /^#([0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/;
+
+export const isValidIsoDate = (value: string) => ISO_DATE_RE.test(value) && !isNaN(Date.parse(value));
+
+export const isValidTime = (value: string) => TIME_RE.test(value);
+
+export const isValidHexColor = (value: string) => HEX_COLOR_RE.test(value);
+
+export const isPositiveNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+export const isValidUrl = (value: string) => {
+  try {
+    const parsed = new URL(value);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+export type FieldErrors<T> = Partial<Record<keyof T, string>>;
+
+export const validateEventConfig = (config: EventConfig): FieldErrors<EventConfig> => {
+  const errors: FieldErrors<EventConfig> = {};
+
+  if (!isValidIsoDate(config.event_date)) errors.event_date = 'Fecha ISO inválida (Ej: 2026-03-14T14:00:00-03:00)';
+  if (config.rsvp_deadline && !isValidIsoDate(config.rsvp_deadline)) errors.rsvp_deadline = 'Fecha ISO inválida (Ej: 2026-03-01T23:59:00-03:00)';
+  if (!config.location_name.trim()) errors.location_name = 'Requerido';
+  if (!isValidUrl(config.location_maps_url)) errors.location_maps_url = 'URL inválida';
+  if (config.spotify_playlist_url && !isValidUrl(config.spotify_playlist_url)) errors.spotify_playlist_url = 'URL inválida';
+  if (!config.welcome_message.trim()) errors.welcome_message = 'Requerido';
+  if (config.video_max_mb != null && !isPositiveNumber(config.video_max_mb)) errors.video_max_mb = 'Número mayor a 0';
+  if (config.video_max_seconds != null && !isPositiveNumber(config.video_max_seconds)) errors.video_max_seconds = 'Número mayor a 0';
+  const invalidSegment = GUEST_SEGMENTS.find(({ id }) => {
+    const content = getSegmentContent(config, id);
+    return !isValidTime(content.time) || content.schedule.some(item => !isValidTime(item.time) || !item.title.trim());
+  });
+  if (invalidSegment) errors.segment_content = `${invalidSegment.label}: revisá los horarios (HH:MM) del itinerario`;
+
+  return errors;
+};
+
+export const validateThemeConfig = (theme: ThemeConfig): FieldErrors<ThemeConfig> => {
+  const errors: FieldErrors<ThemeConfig> = {};
+  const colorFields: (keyof ThemeConfig)[] = ['color_bg', 'color_card', 'color_text', 'color_primary', 'color_accent'];
+
+  colorFields.forEach(field => {
+    if (!isValidHexColor(String(theme[field]))) errors[field] = 'Color hex inválido (Ej: #ec4899)';
+  });
+  if (!theme.font_family.trim()) errors.font_family = 'Requerido';
+  if (!['low', 'medium', 'high'].includes(theme.motion_level)) errors.motion_level = 'Valor inválido';
+
+  return errors;
+};
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { checkVideoDuration, checkVideoSize, DEFAULT_VIDEO_MAX_MB, DEFAULT_VIDEO_MAX_SECONDS, getVideoLimits } from './videoProcessing';
+
+const limits = { maxMb: 10, maxSeconds: 30 };
+
+describe('getVideoLimits', () => {
+  it('falls back to the defaults when unset', () => {
+    expect(getVideoLimits({ video_max_mb: null, video_max_seconds: undefined })).toEqual({ maxMb: DEFAULT_VIDEO_MAX_MB, maxSeconds: DEFAULT_VIDEO_MAX_SECONDS });
+    expect(getVideoLimits({ video_max_mb: 5, video_max_seconds: 12 })).toEqual({ maxMb: 5, maxSeconds: 12 });
+  });
+});
+
+describe('video checks', () => {
+  it('rejects oversized files', () => {
+    expect(checkVideoSize(10 * 1024 * 1024, limits)).toBeNull();
+    expect(checkVideoSize(10 * 1024 * 1024 + 1, limits)).toContain('10 MB');
+  });
+
+  it('rejects long clips', () => {
+    expect(checkVideoDuration(30, limits)).toBeNull();
+    expect(checkVideoDuration(30.5, limits)).toContain('30 segundos');
+  });
+
+  it('never lets an unknown duration through', () => {
+    expect(checkVideoDuration(Infinity, limits)).not.toBeNull();
+    expect(checkVideoDuration(NaN, limits)).not.toBeNull();
+  });
+});
@@ -0,0 +1,100 @@
+import { EventConfig } from '../types';
+import { THUMBNAIL_DIMENSION } from './imageProcessing';
+
+// Video clip support for the photo pipeline: admin-configurable limits and
+// poster-frame extraction. Clips are uploaded as recorded (browsers can't
+// re-encode video cheaply), only the poster goes through a canvas.
+
+export const DEFAULT_VIDEO_MAX_MB = 50;
+export const DEFAULT_VIDEO_MAX_SECONDS = 30;
+
+export interface VideoLimits {
+  maxMb: number;
+  maxSeconds: number;
+}
+
+export const getVideoLimits = (config: Pick<EventConfig, 'video_max_mb' | 'video_max_seconds'>): VideoLimits => ({
+  maxMb: config.video_max_mb || DEFAULT_VIDEO_MAX_MB,
+  maxSeconds: config.video_max_seconds || DEFAULT_VIDEO_MAX_SECONDS
+});
+
+export const isVideoFile = (file: Pick<File, 'type'>) => file.type.startsWith('video/');
+
+// Error message (es-AR) when the clip exceeds the limits, null otherwise.
+export const checkVideoSize = (sizeBytes: number, limits: VideoLimits) =>
+  sizeBytes > limits.maxMb * 1024 * 1024 ? `El video supera los ${limits.maxMb} MB` : null;
+
+// An unknown duration (NaN, Infinity) never passes: it could be any length.
+export const checkVideoDuration = (seconds: number, limits: VideoLimits) => {
+  if (!Number.isFinite(seconds) || seconds < 0) return 'No se pudo leer la duración del video';
+  return seconds > limits.maxSeconds ? `El video supera los ${limits.maxSeconds} segundos` : null;
+};
+
+export interface ProcessedVideo {
+  poster: Blob;
+  durationSeconds: number;
+}
+
+// Some files never fire 'loadeddata' or 'seeked'; the upload queue is serial,
+// so a stuck clip would hold back every upload after it.
+const LOAD_TIMEOUT_MS = 15000;
+const SEEK_TIMEOUT_MS = 10000;
+// Seeking past the end makes browsers work out the duration of clips that
+// don't declare one (MediaRecorder WebM reports Infinity until then)
+const SEEK_TO_END = 1e101;
+
+const once = (el: HTMLVideoElement, event: string, timeoutMs: number) => new Promise<void>((resolve, reject) => {
+  const onError = () => { cleanup(); reject(new Error('Formato de video no soportado')); };
+  const onEvent = () => { cleanup(); resolve(); };
+  const timer = setTimeout(() => { cleanup(); reject(new Error('El video tardó demasiado en procesarse')); }, timeoutMs);
+  const cleanup = () => { clearTimeout(timer); el.removeEventListener(event, onEvent); el.removeEventListener('error', onError); };
+  el.addEventListener(event, onEvent);
+  el.addEventListener('error', onError);
+});
+
+const readDuration = async (video: HTMLVideoElement) => {
+  if (Number.isFinite(video.duration)) return video.duration;
+  const seeked = once(video, 'seeked', SEEK_TIMEOUT_MS);
+  video.currentTime = SEEK_TO_END;
+  await seeked;
+  const duration = Number.isFinite(video.duration) ? video.duration : video.currentTime;
+  if (!Number.isFinite(duration) || duration <= 0) throw new Error('No se pudo leer la duración del video');
+  return duration;
+};
+
+// Reads the duration and grabs a frame (1s in, or the middle of very short
+// clips) as a JPEG poster sized like photo thumbnails.
+export const processVideo = async (file: Blob): Promise<ProcessedVideo> => {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+  try {
+    const loaded = once(video, 'loadeddata', LOAD_TIMEOUT_MS);
+    video.src = url;
+    await loaded;
+
+    const durationSeconds = await readDuration(video);
+    const seeked = once(video, 'seeked', SEEK_TIMEOUT_MS);
+    video.currentTime = Math.min(1, durationSeconds / 2);
+    await seeked;
+
+    const scale = Math.min(1, THUMBNAIL_DIMENSION / Math.max(video.videoWidth, video.videoHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas no disponible');
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+    const poster = await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('No se pudo generar la portada')), 'image/jpeg', 0.7);
+    });
+    return { poster, durationSeconds };
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+};
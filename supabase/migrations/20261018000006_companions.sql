@@ -0,0 +1,15 @@
+-- Party invites: an invite covers `party_size` seats (holder included) and the
+-- holder names the rest as companions, each with their own RSVP.
+
+alter table invites add column if not exists party_size integer not null default 1 check (party_size >= 1);
+
+create table if not exists companions (
+  id bigint generated by default as identity primary key,
+  invite_code text not null references invites (code) on delete cascade,
+  name text not null,
+  rsvp_status text not null default 'PENDING' check (rsvp_status in ('PENDING', 'CONFIRMED', 'DECLINED')),
+  is_celiac boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists companions_invite_code_idx on companions (invite_code);
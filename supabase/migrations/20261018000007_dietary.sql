@@ -0,0 +1,5 @@
+-- Catering needs beyond is_celiac, per guest and per companion
+-- ({ vegetarian, vegan, lactose_free, kids_menu, allergies }, see DietaryProfile in types.ts).
+
+alter table users add column if not exists dietary jsonb;
+alter table companions add column if not exists dietary jsonb;
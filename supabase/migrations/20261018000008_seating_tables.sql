@@ -0,0 +1,27 @@
+-- Seating planner: tables with a capacity, replacing the free-text users."table".
+-- Deleting a table unseats its guests (on delete set null).
+
+create table if not exists seating_tables (
+  id bigint generated by default as identity primary key,
+  name text not null,
+  capacity integer not null default 10 check (capacity >= 1),
+  created_at timestamptz not null default now()
+);
+
+alter table users add column if not exists table_id bigint references seating_tables (id) on delete set null;
+
+-- One table per distinct legacy name, big enough for everyone already sitting there;
+-- users."table" is kept as a fallback label and no longer written by the app
+insert into seating_tables (name, capacity)
+  select legacy.name, greatest(10, legacy.guests)
+    from (
+      select trim("table") as name, count(*)::integer as guests
+        from users
+       where nullif(trim("table"), '') is not null
+       group by trim("table")
+    ) legacy
+   where not exists (select 1 from seating_tables t where t.name = legacy.name);
+
+update users u
+   set table_id = (select min(t.id) from seating_tables t where t.name = trim(u."table"))
+ where u.table_id is null and nullif(trim(u."table"), '') is not null;
@@ -0,0 +1,4 @@
+-- Downscaled copy stored next to each upload (poster frame for videos);
+-- null on photos uploaded before thumbnails existed.
+
+alter table photos add column if not exists thumbnail_path text;
@@ -0,0 +1,10 @@
+-- One row per uploaded file: the upload queue creates photos with
+-- `on conflict (storage_path) do nothing`, so retrying after a lost response
+-- doesn't duplicate them.
+
+-- Duplicates left by earlier retries point at the same file: keep the first
+delete from photos p
+ using photos first
+ where first.storage_path = p.storage_path and first.id < p.id;
+
+create unique index if not exists photos_storage_path_key on photos (storage_path);
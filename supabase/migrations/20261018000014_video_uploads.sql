@@ -0,0 +1,8 @@
+-- Short video clips share the photos table; existing rows are images.
+-- Upload limits are set from the admin panel (null = app defaults).
+
+alter table photos add column if not exists media_type text not null default 'IMAGE' check (media_type in ('IMAGE', 'VIDEO'));
+alter table photos add column if not exists duration_seconds integer;
+
+alter table event_config add column if not exists video_max_mb integer check (video_max_mb > 0);
+alter table event_config add column if not exists video_max_seconds integer check (video_max_seconds > 0);
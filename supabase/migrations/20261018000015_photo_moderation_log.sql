@@ -0,0 +1,17 @@
+-- Photo moderation history: one row per status change, so decisions can be
+-- reviewed and reverted, plus who made the last decision on each photo.
+-- Written by moderate_photos() (20261019000002_photo_moderation.sql).
+
+alter table photos add column if not exists moderated_by text;
+alter table photos add column if not exists moderated_at timestamptz;
+
+create table if not exists photo_moderation_log (
+  id bigint generated by default as identity primary key,
+  photo_id bigint not null references photos (id) on delete cascade,
+  user_id text references users (user_id) on delete set null, -- Admin who decided
+  from_status text not null,
+  to_status text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists photo_moderation_log_created_at_idx on photo_moderation_log (created_at desc);
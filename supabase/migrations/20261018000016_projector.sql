@@ -0,0 +1,5 @@
+-- Venue projector settings. The token starts out in event_config and is moved
+-- to the admin-only projector_settings by 20261019000003_projector_token.sql.
+
+alter table event_config add column if not exists projector_token text;
+alter table event_config add column if not exists projector_show_chat boolean not null default false;
@@ -0,0 +1,16 @@
+-- Invite lifecycle: a label naming who the code is for, revocation, and an
+-- audit trail of every admin action on a code (see InviteAction in types.ts).
+
+alter table invites add column if not exists label text;
+alter table invites add column if not exists is_revoked boolean not null default false;
+
+create table if not exists invite_events (
+  id bigint generated by default as identity primary key,
+  invite_code text not null references invites (code) on delete cascade,
+  user_id text references users (user_id) on delete set null, -- Admin who acted
+  action text not null,
+  details text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists invite_events_invite_code_idx on invite_events (invite_code, created_at desc);
@@ -0,0 +1,5 @@
+-- Per-segment invitation content (arrival time, dress code, rules, checklist,
+-- schedule and info blocks), keyed by segment; see services/segments.ts.
+-- Null falls back to the older time_/rules_/dress_code_ columns.
+
+alter table event_config add column if not exists segment_content jsonb;
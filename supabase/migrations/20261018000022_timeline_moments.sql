@@ -0,0 +1,12 @@
+-- Event-day timeline shown to guests; `segments` lists who sees each moment
+-- (empty = everyone) and `started_at` is set when an admin starts it.
+
+create table if not exists timeline_moments (
+  id bigint generated by default as identity primary key,
+  title text not null,
+  description text,
+  time text not null check (time ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  segments text[] not null default '{}',
+  started_at timestamptz,
+  created_at timestamptz not null default now()
+);
@@ -0,0 +1,17 @@
+-- RSVP deadline and history. rsvp_changes is written by triggers on users and
+-- companions (20261019000006_rsvp_deadline.sql), never by the app.
+
+alter table event_config add column if not exists rsvp_deadline timestamptz;
+
+create table if not exists rsvp_changes (
+  id bigint generated by default as identity primary key,
+  user_id text not null, -- Invite holder whose party changed
+  companion_id bigint, -- Set for companions; no foreign key, removed companions stay in the history
+  subject_name text not null,
+  previous_status text not null,
+  status text not null,
+  changed_by text, -- Null for changes made outside the app (SQL editor)
+  created_at timestamptz not null default now()
+);
+
+create index if not exists rsvp_changes_created_at_idx on rsvp_changes (created_at desc);
@@ -0,0 +1,4 @@
+-- Table pre-assigned to an invite (set by the guest list import), copied to
+-- the guest's profile when the code is redeemed. Deleting the table clears it.
+
+alter table invites add column if not exists table_id bigint references seating_tables (id) on delete set null;
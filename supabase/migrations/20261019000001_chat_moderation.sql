@@ -0,0 +1,215 @@
+-- Chat moderation enforced by the database instead of the client:
+-- reactions are toggled in a single statement, muted users can't post and the
+-- text of a hidden message is moved out of 'messages', so guests never
+-- receive it (neither through selects nor through realtime payloads). Admin
+-- status comes from the 'admins' table, which guests can't write.
+-- Mirrored by the RPC handlers in services/mockSupabase.ts.
+
+-- Columns used below, for databases created before chat moderation
+alter table messages add column if not exists reactions jsonb;
+alter table messages add column if not exists is_hidden boolean not null default false;
+alter table messages add column if not exists hidden_reason text;
+alter table messages add column if not exists reply_to bigint references messages (id) on delete set null;
+alter table users add column if not exists is_muted boolean not null default false;
+alter table event_config add column if not exists chat_banned_words text;
+
+-- --- Admins ---
+
+-- Who is an admin. Not readable or writable through the API (RLS without
+-- policies): rows are added by claim_admin_invite() or from the SQL editor.
+-- users.segment = 'ADMIN' only picks the admin screens.
+create table if not exists admins (
+  user_id text primary key,
+  created_at timestamptz not null default now()
+);
+
+alter table admins enable row level security;
+
+-- Admins so far were whoever had segment 'ADMIN'; review this list after migrating
+insert into admins (user_id)
+  select user_id from users where segment = 'ADMIN'
+  on conflict (user_id) do nothing;
+
+create or replace function public.is_admin()
+returns boolean
+language sql stable security definer set search_path = public
+as $$
+  select exists (select 1 from admins where user_id = auth.uid()::text);
+$$;
+
+-- Makes the caller an admin with an invite of segment 'ADMIN'. Admin invites
+-- are not used up, so several organizers can share one; revoke it to stop that.
+create or replace function public.claim_admin_invite(p_code text)
+returns void
+language plpgsql security definer set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'not authenticated' using errcode = '42501';
+  end if;
+  if not exists (
+    select 1 from invites where code = p_code and segment = 'ADMIN' and not coalesce(is_revoked, false)
+  ) then
+    raise exception 'not an admin invite' using errcode = '42501';
+  end if;
+
+  insert into admins (user_id) values (auth.uid()::text) on conflict (user_id) do nothing;
+end;
+$$;
+
+-- --- Messages ---
+
+alter table messages enable row level security;
+
+drop policy if exists "messages_select" on messages;
+create policy "messages_select" on messages for select to authenticated using (true);
+
+-- Guests post as themselves, and only while not muted
+drop policy if exists "messages_insert" on messages;
+create policy "messages_insert" on messages for insert to authenticated with check (
+  user_id = auth.uid()::text
+  and not exists (select 1 from users u where u.user_id = auth.uid()::text and coalesce(u.is_muted, false))
+);
+
+-- Reactions go through toggle_reaction(); everything else is moderation
+drop policy if exists "messages_update" on messages;
+create policy "messages_update" on messages for update to authenticated using (is_admin()) with check (is_admin());
+
+drop policy if exists "messages_delete" on messages;
+create policy "messages_delete" on messages for delete to authenticated using (is_admin());
+
+-- --- Users ---
+
+alter table users enable row level security;
+
+drop policy if exists "users_select" on users;
+create policy "users_select" on users for select to authenticated using (true);
+
+drop policy if exists "users_insert" on users;
+create policy "users_insert" on users for insert to authenticated with check (user_id = auth.uid()::text or is_admin());
+
+drop policy if exists "users_update" on users;
+create policy "users_update" on users for update to authenticated
+  using (user_id = auth.uid()::text or is_admin()) with check (user_id = auth.uid()::text or is_admin());
+
+drop policy if exists "users_delete" on users;
+create policy "users_delete" on users for delete to authenticated using (is_admin());
+
+-- Guests edit their own profile but can't make themselves admins, lift their
+-- own mute or change their table. Without auth.uid() (SQL editor, auth
+-- triggers) the write is trusted.
+create or replace function public.protect_user_moderation()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+begin
+  if auth.uid() is null or is_admin() then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    if new.segment = 'ADMIN' then
+      raise exception 'only admins can create admin profiles' using errcode = '42501';
+    end if;
+    new.is_muted := false;
+  else
+    new.segment := old.segment;
+    new.is_muted := old.is_muted;
+    new.table_id := old.table_id;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists protect_user_moderation on users;
+create trigger protect_user_moderation before insert or update on users
+  for each row execute function protect_user_moderation();
+
+-- --- Reactions ---
+
+-- Adds or removes the caller from `p_emoji` in one UPDATE, so concurrent
+-- toggles on the same message serialize on its row lock instead of
+-- overwriting each other. Returns the new reactions map.
+create or replace function public.toggle_reaction(p_message_id bigint, p_emoji text)
+returns jsonb
+language plpgsql security definer set search_path = public
+as $$
+declare
+  uid text := auth.uid()::text;
+  result jsonb;
+begin
+  if uid is null then
+    raise exception 'not authenticated' using errcode = '42501';
+  end if;
+
+  update messages m
+     set reactions = case
+       when coalesce(m.reactions -> p_emoji, '[]'::jsonb) ? uid then
+         case
+           when jsonb_array_length(m.reactions -> p_emoji) = 1 then m.reactions - p_emoji
+           else jsonb_set(m.reactions, array[p_emoji], (m.reactions -> p_emoji) - uid)
+         end
+       else jsonb_set(coalesce(m.reactions, '{}'::jsonb), array[p_emoji], coalesce(m.reactions -> p_emoji, '[]'::jsonb) || to_jsonb(uid))
+     end
+   where m.id = p_message_id and not coalesce(m.is_hidden, false)
+   returning m.reactions into result;
+
+  if not found then
+    raise exception 'message % not found', p_message_id using errcode = 'P0002';
+  end if;
+  return result;
+end;
+$$;
+
+-- --- Hidden messages ---
+
+-- Original text of hidden messages, readable by admins only
+create table if not exists hidden_message_texts (
+  message_id bigint primary key references messages(id) on delete cascade,
+  text text not null,
+  created_at timestamptz not null default now()
+);
+
+alter table hidden_message_texts enable row level security;
+
+drop policy if exists "hidden_message_texts_admin" on hidden_message_texts;
+create policy "hidden_message_texts_admin" on hidden_message_texts for select to authenticated using (is_admin());
+
+-- Messages hidden before this migration
+insert into hidden_message_texts (message_id, text)
+  select id, text from messages where is_hidden
+  on conflict (message_id) do nothing;
+update messages set text = '' where is_hidden and text <> '';
+
+create or replace function public.hide_message(p_message_id bigint, p_reason text)
+returns void
+language plpgsql security definer set search_path = public
+as $$
+begin
+  if not is_admin() then
+    raise exception 'only admins can hide messages' using errcode = '42501';
+  end if;
+
+  insert into hidden_message_texts (message_id, text)
+    select id, text from messages where id = p_message_id and not coalesce(is_hidden, false)
+    on conflict (message_id) do nothing;
+  update messages set is_hidden = true, hidden_reason = p_reason, text = '' where id = p_message_id;
+end;
+$$;
+
+create or replace function public.unhide_message(p_message_id bigint)
+returns void
+language plpgsql security definer set search_path = public
+as $$
+begin
+  if not is_admin() then
+    raise exception 'only admins can unhide messages' using errcode = '42501';
+  end if;
+
+  update messages m
+     set is_hidden = false, hidden_reason = null, text = h.text
+    from hidden_message_texts h
+   where h.message_id = m.id and m.id = p_message_id;
+  delete from hidden_message_texts where message_id = p_message_id;
+end;
+$$;
@@ -0,0 +1,36 @@
+-- Photo moderation as one transaction: the status change and its
+-- 'photo_moderation_log' rows are written together, and the previous status
+-- is read under a row lock instead of being taken from the client.
+
+create or replace function public.moderate_photos(p_photo_ids bigint[], p_status text)
+returns void
+language plpgsql security definer set search_path = public
+as $$
+begin
+  if not is_admin() then
+    raise exception 'only admins can moderate photos' using errcode = '42501';
+  end if;
+  if p_status not in ('PENDING', 'APPROVED', 'REJECTED') then
+    raise exception 'invalid photo status %', p_status using errcode = '22023';
+  end if;
+
+  with changed as (
+    select id, status from photos
+     where id = any(p_photo_ids) and status <> p_status
+     for update
+  ), logged as (
+    insert into photo_moderation_log (photo_id, user_id, from_status, to_status)
+    select id, auth.uid()::text, status, p_status from changed
+  )
+  update photos p
+     set status = p_status, moderated_by = auth.uid()::text, moderated_at = now()
+    from changed
+   where p.id = changed.id;
+end;
+$$;
+
+-- The log is read by admins only and written only by moderate_photos()
+alter table photo_moderation_log enable row level security;
+
+drop policy if exists "photo_moderation_log_admin" on photo_moderation_log;
+create policy "photo_moderation_log_admin" on photo_moderation_log for select to authenticated using (is_admin());
@@ -0,0 +1,47 @@
+-- The projector token used to live in event_config, which every client reads.
+-- It moves to an admin-only table; the anonymous venue screen sends it to
+-- projector_feed(), which checks it and returns the slideshow content.
+
+create table if not exists projector_settings (
+  id int primary key default 1 check (id = 1),
+  token text
+);
+
+alter table projector_settings enable row level security;
+
+drop policy if exists "projector_settings_admin" on projector_settings;
+create policy "projector_settings_admin" on projector_settings for all to authenticated using (is_admin()) with check (is_admin());
+
+insert into projector_settings (id, token)
+  select 1, projector_token from event_config where projector_token is not null order by id limit 1
+  on conflict (id) do update set token = excluded.token;
+
+alter table event_config drop column if exists projector_token;
+
+-- Approved photos (featured first) and the latest visible chat messages, or
+-- null when the token is wrong or the projector is disabled.
+create or replace function public.projector_feed(p_token text)
+returns jsonb
+language plpgsql stable security definer set search_path = public
+as $$
+begin
+  if coalesce(p_token, '') = '' or not exists (select 1 from projector_settings where id = 1 and token = p_token) then
+    return null;
+  end if;
+
+  return jsonb_build_object(
+    'photos', coalesce((
+      select jsonb_agg(to_jsonb(p) || jsonb_build_object('users', jsonb_build_object('name', u.name)) order by p.is_featured desc, p.created_at desc)
+        from (select * from photos where status = 'APPROVED' order by is_featured desc, created_at desc limit 500) p
+        left join users u on u.user_id = p.user_id
+    ), '[]'::jsonb),
+    'messages', coalesce((
+      select jsonb_agg(to_jsonb(m) || jsonb_build_object('users', jsonb_build_object('name', u.name, 'avatar_url', u.avatar_url)) order by m.created_at desc, m.id desc)
+        from (select * from messages where not coalesce(is_hidden, false) order by created_at desc, id desc limit 30) m
+        left join users u on u.user_id = m.user_id
+    ), '[]'::jsonb)
+  );
+end;
+$$;
+
+grant execute on function public.projector_feed(text) to anon, authenticated;
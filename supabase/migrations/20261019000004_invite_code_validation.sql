@@ -0,0 +1,153 @@
+-- Invite codes are checked by the database, which also counts wrong guesses
+-- per client IP address: 5 wrong codes lock that client out for 30 s, doubling
+-- up to 15 min. 'invites' is no longer readable anonymously, so this function
+-- is the only way to probe it, and it answers with a status, never the row.
+-- Guests bind a code to their account with redeem_invite(), which goes
+-- through the same check.
+
+create table if not exists invite_code_attempts (
+  client_key text primary key,
+  failures int not null default 0, -- wrong codes since the last lockout
+  lockouts int not null default 0, -- each one doubles the next wait
+  locked_until timestamptz,
+  updated_at timestamptz not null default now()
+);
+
+-- No policies: only reachable through validate_invite_code()
+alter table invite_code_attempts enable row level security;
+
+alter table invites enable row level security;
+
+drop policy if exists "invites_admin" on invites;
+create policy "invites_admin" on invites for all to authenticated using (is_admin()) with check (is_admin());
+
+drop policy if exists "invites_own" on invites;
+create policy "invites_own" on invites for select to authenticated using (used_by = auth.uid()::text);
+
+-- Status of `p_code`: VALID (with its segment), USED, REVOKED, INVALID (with
+-- the attempts left) or LOCKED (with the seconds to wait). A code already
+-- bound to the caller is VALID. A valid code does not reset the count, so
+-- knowing one code doesn't buy extra guesses.
+create or replace function public.validate_invite_code(p_code text)
+returns jsonb
+language plpgsql volatile security definer set search_path = public
+as $$
+declare
+  headers json := nullif(current_setting('request.headers', true), '')::json;
+  -- The client controls every X-Forwarded-For entry except the last one,
+  -- which the API gateway appends; nothing the client sends is trusted
+  client text := coalesce(
+    nullif(trim(regexp_replace(headers ->> 'x-forwarded-for', '^.*,', '')), ''),
+    'unknown'
+  );
+  attempt invite_code_attempts;
+  invite invites;
+  lockout interval;
+begin
+  select * into attempt from invite_code_attempts where client_key = client for update;
+  if attempt.locked_until > now() then
+    return jsonb_build_object('status', 'LOCKED', 'retry_after_seconds', ceil(extract(epoch from attempt.locked_until - now()))::int);
+  end if;
+
+  select * into invite from invites where code = p_code;
+  if not found then
+    -- Failures older than an hour are forgiven
+    insert into invite_code_attempts as a (client_key, failures) values (client, 1)
+      on conflict (client_key) do update
+        set failures = case when a.updated_at < now() - interval '1 hour' then 1 else a.failures + 1 end,
+            updated_at = now()
+      returning * into attempt;
+    if attempt.failures >= 5 then
+      lockout := least(interval '15 minutes', interval '30 seconds' * power(2, attempt.lockouts));
+      update invite_code_attempts
+         set failures = 0, lockouts = lockouts + 1, locked_until = now() + lockout
+       where client_key = client;
+      return jsonb_build_object('status', 'LOCKED', 'retry_after_seconds', extract(epoch from lockout)::int);
+    end if;
+    return jsonb_build_object('status', 'INVALID', 'remaining_attempts', 5 - attempt.failures);
+  end if;
+
+  if coalesce(invite.is_revoked, false) then return jsonb_build_object('status', 'REVOKED'); end if;
+  if invite.is_used and invite.used_by is distinct from auth.uid()::text then
+    return jsonb_build_object('status', 'USED');
+  end if;
+  return jsonb_build_object('status', 'VALID', 'segment', invite.segment);
+end;
+$$;
+
+grant execute on function public.validate_invite_code(text) to anon, authenticated;
+
+-- Binds a guest code to the caller and returns the invite. Checked (and
+-- counted) like validate_invite_code(); the row is locked so two accounts
+-- can't redeem the same code at once. Admin invites use claim_admin_invite().
+create or replace function public.redeem_invite(p_code text)
+returns jsonb
+language plpgsql volatile security definer set search_path = public
+as $$
+declare
+  status text;
+  invite invites;
+begin
+  if auth.uid() is null then
+    raise exception 'not authenticated' using errcode = '42501';
+  end if;
+
+  status := validate_invite_code(p_code) ->> 'status';
+  if status in ('USED', 'REVOKED') then
+    raise exception 'invite % is %', p_code, lower(status) using errcode = '55000';
+  elsif status <> 'VALID' then
+    raise exception 'invite % is not valid', p_code using errcode = 'P0002';
+  end if;
+
+  select * into invite from invites where code = p_code for update;
+  if invite.segment = 'ADMIN' then
+    raise exception 'admin invites are claimed with claim_admin_invite()' using errcode = '42501';
+  end if;
+  if invite.is_used and invite.used_by is distinct from auth.uid()::text then
+    raise exception 'invite % is used', p_code using errcode = '55000';
+  end if;
+
+  update invites set is_used = true, used_by = auth.uid()::text where code = p_code
+    returning * into invite;
+  return to_jsonb(invite);
+end;
+$$;
+
+grant execute on function public.redeem_invite(text) to authenticated;
+
+-- Replaces unused legacy codes (G15-J01...), which are easy to guess, with the
+-- given new ones: same segment, party size, label and table; the old code is
+-- revoked. Codes redeemed or revoked in the meantime are skipped. Returns how
+-- many were rotated.
+create or replace function public.rotate_invite_codes(p_rotations jsonb)
+returns int
+language plpgsql security definer set search_path = public
+as $$
+declare
+  rotation jsonb;
+  old invites;
+  new_code text;
+  rotated int := 0;
+begin
+  if not is_admin() then
+    raise exception 'only admins can rotate invite codes' using errcode = '42501';
+  end if;
+
+  for rotation in select * from jsonb_array_elements(p_rotations) loop
+    new_code := rotation ->> 'new_code';
+    select * into old from invites
+     where code = rotation ->> 'code' and not is_used and not coalesce(is_revoked, false)
+     for update;
+    continue when not found;
+
+    insert into invites (code, segment, is_used, party_size, label, table_id)
+      values (new_code, old.segment, false, old.party_size, old.label, old.table_id);
+    update invites set is_revoked = true where code = old.code;
+    insert into invite_events (invite_code, user_id, action, details) values
+      (old.code, auth.uid()::text, 'ROTATED', new_code),
+      (new_code, auth.uid()::text, 'ROTATED', old.code);
+    rotated := rotated + 1;
+  end loop;
+  return rotated;
+end;
+$$;
@@ -0,0 +1,66 @@
+-- Admin actions on invites and their 'invite_events' audit rows are written in
+-- the same transaction, and every event records who held the code before.
+
+alter table invite_events add column if not exists previous_user_id text;
+
+-- Read by admins only; rows are written by the functions below
+alter table invite_events enable row level security;
+
+drop policy if exists "invite_events_admin" on invite_events;
+create policy "invite_events_admin" on invite_events for select to authenticated using (is_admin());
+
+-- Creates the invites (code, segment, party_size, label, table_id) and one
+-- CREATED event each; a duplicate code rolls the whole batch back.
+create or replace function public.create_invites(p_invites jsonb)
+returns void
+language plpgsql security definer set search_path = public
+as $$
+begin
+  if not is_admin() then
+    raise exception 'only admins can create invites' using errcode = '42501';
+  end if;
+
+  insert into invites (code, segment, is_used, party_size, label, table_id)
+    select code, segment, false, coalesce(party_size, 1), label, table_id
+      from jsonb_populate_recordset(null::invites, p_invites);
+  insert into invite_events (invite_code, user_id, action)
+    select code, auth.uid()::text, 'CREATED'
+      from jsonb_populate_recordset(null::invites, p_invites);
+end;
+$$;
+
+-- Applies `p_changes` (label, is_revoked, is_used, used_by) to one invite and
+-- logs `p_action`. With `p_only_unused` the update only matches an unused code,
+-- so a code redeemed a moment ago can't be revoked from under its guest.
+create or replace function public.invite_action(
+  p_code text, p_action text, p_changes jsonb, p_details text default null, p_only_unused boolean default false
+)
+returns void
+language plpgsql security definer set search_path = public
+as $$
+declare
+  old invites;
+begin
+  if not is_admin() then
+    raise exception 'only admins can change invites' using errcode = '42501';
+  end if;
+
+  select * into old from invites where code = p_code for update;
+  if not found then
+    raise exception 'invite % not found', p_code using errcode = 'P0002';
+  end if;
+
+  update invites set
+    label = case when p_changes ? 'label' then p_changes ->> 'label' else label end,
+    is_revoked = case when p_changes ? 'is_revoked' then (p_changes ->> 'is_revoked')::boolean else is_revoked end,
+    is_used = case when p_changes ? 'is_used' then (p_changes ->> 'is_used')::boolean else is_used end,
+    used_by = case when p_changes ? 'used_by' then p_changes ->> 'used_by' else used_by end
+  where code = p_code and (not p_only_unused or not is_used);
+  if not found then
+    raise exception 'invite % is already used', p_code using errcode = '55000';
+  end if;
+
+  insert into invite_events (invite_code, user_id, action, details, previous_user_id)
+    values (p_code, auth.uid()::text, p_action, p_details, old.used_by);
+end;
+$$;
@@ -0,0 +1,97 @@
+-- RSVP lock: after event_config.rsvp_deadline only admins can change an RSVP,
+-- add or remove companions, or rename them. Menu changes stay open.
+-- Every RSVP change is logged to 'rsvp_changes' by triggers, in the same
+-- statement as the change and with the status it replaced.
+
+create or replace function public.rsvp_is_closed()
+returns boolean
+language sql stable security definer set search_path = public
+as $$
+  select not is_admin() and coalesce(
+    (select nullif(rsvp_deadline::text, '')::timestamptz <= now() from event_config limit 1), false
+  );
+$$;
+
+create or replace function public.enforce_rsvp_deadline()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+begin
+  if rsvp_is_closed() then
+    raise exception 'the RSVP deadline has passed' using errcode = '42501';
+  end if;
+  return coalesce(new, old);
+end;
+$$;
+
+drop trigger if exists enforce_rsvp_deadline on users;
+create trigger enforce_rsvp_deadline
+  before update of rsvp_status on users
+  for each row when (old.rsvp_status is distinct from new.rsvp_status)
+  execute function enforce_rsvp_deadline();
+
+drop trigger if exists enforce_rsvp_deadline on companions;
+create trigger enforce_rsvp_deadline
+  before insert or delete on companions
+  for each row execute function enforce_rsvp_deadline();
+
+drop trigger if exists enforce_rsvp_deadline_update on companions;
+create trigger enforce_rsvp_deadline_update
+  before update of name, rsvp_status on companions
+  for each row when (old.name is distinct from new.name or old.rsvp_status is distinct from new.rsvp_status)
+  execute function enforce_rsvp_deadline();
+
+-- --- History ---
+
+-- Admins read the history; nobody writes it directly
+alter table rsvp_changes enable row level security;
+revoke insert, update, delete on rsvp_changes from anon, authenticated;
+
+drop policy if exists "rsvp_changes_admin" on rsvp_changes;
+create policy "rsvp_changes_admin" on rsvp_changes for select to authenticated using (is_admin());
+
+create or replace function public.log_user_rsvp_change()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+begin
+  insert into rsvp_changes (user_id, subject_name, previous_status, status, changed_by)
+    values (new.user_id, new.name, coalesce(old.rsvp_status, 'PENDING'), new.rsvp_status, auth.uid()::text);
+  return null;
+end;
+$$;
+
+drop trigger if exists log_rsvp_change on users;
+create trigger log_rsvp_change
+  after update of rsvp_status on users
+  for each row when (coalesce(old.rsvp_status, 'PENDING') is distinct from new.rsvp_status)
+  execute function log_user_rsvp_change();
+
+-- Logged under the invite holder; a confirmed companion leaving the party is
+-- logged as declining
+create or replace function public.log_companion_rsvp_change()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+begin
+  insert into rsvp_changes (user_id, companion_id, subject_name, previous_status, status, changed_by)
+    select i.used_by, old.id, old.name, old.rsvp_status,
+           case when tg_op = 'DELETE' then 'DECLINED' else new.rsvp_status end,
+           auth.uid()::text
+      from invites i
+     where i.code = old.invite_code and i.used_by is not null;
+  return null;
+end;
+$$;
+
+drop trigger if exists log_rsvp_change on companions;
+create trigger log_rsvp_change
+  after update of rsvp_status on companions
+  for each row when (old.rsvp_status is distinct from new.rsvp_status)
+  execute function log_companion_rsvp_change();
+
+drop trigger if exists log_rsvp_change_delete on companions;
+create trigger log_rsvp_change_delete
+  after delete on companions
+  for each row when (old.rsvp_status = 'CONFIRMED')
+  execute function log_companion_rsvp_change();
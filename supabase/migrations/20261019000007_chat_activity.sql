@@ -0,0 +1,22 @@
+-- Chat messages per hour for the admin overview. Counted in the database and
+-- returned as one jsonb array, so it isn't cut off by the API row limit.
+
+create or replace function public.chat_activity()
+returns jsonb
+language plpgsql stable security definer set search_path = public
+as $$
+begin
+  if not is_admin() then
+    raise exception 'only admins can read chat activity' using errcode = '42501';
+  end if;
+
+  return coalesce((
+    select jsonb_agg(jsonb_build_object('time', hour, 'count', total) order by hour)
+      from (
+        select date_trunc('hour', created_at) as hour, count(*) as total
+          from messages
+         group by 1
+      ) hours
+  ), '[]'::jsonb);
+end;
+$$;
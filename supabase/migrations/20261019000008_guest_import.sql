@@ -0,0 +1,29 @@
+-- Guest list import in one transaction: the missing tables and every invite
+-- are created together, so a failed import leaves nothing behind and can be
+-- retried without duplicating tables.
+
+-- p_tables: [{name, capacity}]; p_invites: create_invites rows, where
+-- `table_name` points at one of p_tables instead of a table_id.
+create or replace function public.import_guests(p_tables jsonb, p_invites jsonb)
+returns void
+language plpgsql security definer set search_path = public
+as $$
+declare
+  t record;
+  new_id bigint;
+  rows jsonb := p_invites;
+begin
+  if not is_admin() then
+    raise exception 'only admins can import guests' using errcode = '42501';
+  end if;
+
+  for t in select * from jsonb_to_recordset(p_tables) as x(name text, capacity int) loop
+    insert into seating_tables (name, capacity) values (t.name, t.capacity) returning id into new_id;
+    select jsonb_agg(case when r ->> 'table_name' = t.name then r || jsonb_build_object('table_id', new_id) else r end)
+      into rows
+      from jsonb_array_elements(rows) r;
+  end loop;
+
+  perform create_invites(rows);
+end;
+$$;
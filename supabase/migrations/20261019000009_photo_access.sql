@@ -0,0 +1,21 @@
+-- Photos: guests see approved photos and their own uploads, and can only add
+-- pending, non-featured photos of their own. Status and featured changes are
+-- admin work (moderate_photos() and the gallery star).
+
+alter table photos enable row level security;
+
+drop policy if exists "photos_select" on photos;
+create policy "photos_select" on photos for select to authenticated using (
+  status = 'APPROVED' or user_id = auth.uid()::text or is_admin()
+);
+
+drop policy if exists "photos_insert" on photos;
+create policy "photos_insert" on photos for insert to authenticated with check (
+  user_id = auth.uid()::text and status = 'PENDING' and not coalesce(is_featured, false)
+);
+
+drop policy if exists "photos_update" on photos;
+create policy "photos_update" on photos for update to authenticated using (is_admin()) with check (is_admin());
+
+drop policy if exists "photos_delete" on photos;
+create policy "photos_delete" on photos for delete to authenticated using (is_admin());
@@ -5,16 +5,40 @@ export enum UserSegment {
   ADMIN = 'ADMIN'
 }
 
+export type RsvpStatus = 'CONFIRMED' | 'DECLINED' | 'PENDING';
+
+// Catering needs beyond celiac (stored as jsonb 'dietary')
+export interface DietaryProfile {
+  vegetarian: boolean;
+  vegan: boolean;
+  lactose_free: boolean;
+  kids_menu: boolean;
+  allergies: string; // Free text, e.g. "maní, mariscos"
+}
+
 export interface UserProfile {
   user_id: string; // Matches 'user_id' in public.users
   name: string;
   segment: UserSegment;
   is_celiac: boolean;
+  dietary?: DietaryProfile | null;
   avatar_url?: string;
   created_at: string;
-  table?: string; // Mesa asignada
-  rsvp_status?: 'CONFIRMED' | 'DECLINED' | 'PENDING'; // Integrated RSVP
+  table?: string; // Legacy free-text table, superseded by table_id
+  table_id?: number | null; // Matches 'id' in public.seating_tables
+  rsvp_status?: RsvpStatus; // Integrated RSVP
   rsvp_updated_at?: string;
+  is_muted?: boolean; // Muted by an admin: cannot post in the chat
+}
+
+// Subset of UserProfile embedded through joins like 'users(name, avatar_url)'
+export type UserSummary = Pick<UserProfile, 'name'> & Partial<Pick<UserProfile, 'avatar_url'>>;
+
+export interface SeatingTable {
+  id: number;
+  name: string;
+  capacity: number;
+  created_at: string;
 }
 
 export interface EventConfig {
@@ -32,6 +56,49 @@ export interface EventConfig {
   dress_code_adult: string;
   checklist_young: string;
   welcome_message: string;
+  chat_banned_words?: string | null; // Comma-separated, masked in the chat
+  video_max_mb?: number | null; // Upload limits for video clips; defaults when null
+  video_max_seconds?: number | null;
+  projector_show_chat?: boolean | null; // Interleave chat highlights in the projector
+  segment_content?: Partial<Record<UserSegment, SegmentContent>> | null; // jsonb, see services/segments.ts
+  rsvp_deadline?: string | null; // ISO date; after it guests can no longer change their RSVP
+}
+
+export interface SegmentInfoBlock {
+  title: string;
+  body: string;
+}
+
+export interface SegmentScheduleItem {
+  time: string; // HH:MM
+  title: string;
+}
+
+// Everything a guest segment sees that differs from the others
+export interface SegmentContent {
+  time: string; // Arrival time, HH:MM
+  dress_code: string;
+  rules: string;
+  checklist: string[];
+  schedule: SegmentScheduleItem[];
+  info_blocks: SegmentInfoBlock[];
+}
+
+// Result of the 'projector_feed' database function: what the venue screen shows
+export interface ProjectorFeed {
+  photos: Photo[]; // Approved, featured first then newest
+  messages: ChatMessage[]; // Latest visible chat messages, newest first
+}
+
+// A moment of the party agenda (table 'timeline_moments')
+export interface TimelineMoment {
+  id: number;
+  title: string;
+  description?: string | null;
+  time: string; // HH:MM on the event day; times before the party starts fall after midnight
+  segments: UserSegment[]; // Who sees it; empty means everyone
+  started_at?: string | null; // Set when an admin marks it as started
+  created_at: string;
 }
 
 export interface ThemeConfig {
@@ -52,18 +119,34 @@ export interface SongSuggestion {
   comment: string;
   status: 'PENDING' | 'APPROVED' | 'REJECTED';
   created_at: string;
-  users?: UserProfile; // Joined table 'users'
+  users?: UserSummary | null; // Joined table 'users'
 }
 
 export interface Photo {
   id: number;
   user_id: string;
   storage_path: string;
+  thumbnail_path?: string | null; // Downscaled copy (poster frame for videos); null on legacy uploads
+  media_type?: 'IMAGE' | 'VIDEO'; // Legacy rows are images
+  duration_seconds?: number | null;
+  moderated_by?: string | null; // Admin user_id of the last decision
+  moderated_at?: string | null;
   status: 'PENDING' | 'APPROVED' | 'REJECTED';
   is_featured: boolean;
   created_at: string;
   url?: string;
-  users?: UserProfile; // Joined table 'users'
+  users?: UserSummary | null; // Joined table 'users'
+}
+
+// Table 'photo_moderation_log': one row per status change. `user_id` is the admin.
+export interface PhotoModerationEntry {
+  id: number;
+  photo_id: number;
+  user_id: string;
+  from_status: Photo['status'];
+  to_status: Photo['status'];
+  created_at: string;
+  users?: UserSummary | null; // Joined table 'users'
 }
 
 export interface ChatMessage {
@@ -71,12 +154,89 @@ export interface ChatMessage {
   user_id: string;
   text: string;
   created_at: string;
-  users?: UserProfile; // Joined table 'users'
+  reply_to?: number | null; // Matches 'id' of the quoted message
+  reactions?: Record<string, string[]> | null; // emoji -> user_ids
+  is_hidden?: boolean;
+  hidden_reason?: string | null;
+  users?: UserSummary | null; // Joined table 'users'
+}
+
+// Table 'hidden_message_texts': original text of a hidden message, readable by admins only
+export interface HiddenMessageText {
+  message_id: number;
+  text: string;
 }
 
 export interface InviteCode {
   code: string;
   segment: UserSegment;
   is_used: boolean;
-  used_by?: string;
+  used_by?: string | null;
+  party_size?: number; // Total seats including the holder (defaults to 1)
+  label?: string | null; // Intended recipient, e.g. "Familia Pérez"
+  is_revoked?: boolean; // Revoked codes can't be redeemed
+  table_id?: number | null; // Pre-assigned table, copied to the profile on redemption
+}
+
+export type InviteAction = 'CREATED' | 'LABELED' | 'REVOKED' | 'RESTORED' | 'UNBOUND' | 'REASSIGNED' | 'ROTATED';
+
+// Result of the 'validate_invite_code' database function
+export interface InviteCodeCheck {
+  status: 'VALID' | 'USED' | 'REVOKED' | 'INVALID' | 'LOCKED';
+  segment?: UserSegment; // VALID only
+  remaining_attempts?: number; // INVALID only
+  retry_after_seconds?: number; // LOCKED only
+}
+
+// Chat messages sent in one hour (rpc chat_activity)
+export interface ChatActivityHour {
+  time: string; // Start of the hour
+  count: number;
+}
+
+// Replacement of a legacy code by a new secure one
+export interface InviteRotation {
+  code: string;
+  new_code: string;
+}
+
+// Table 'invite_events': audit trail of admin actions on a code. `user_id` is the admin.
+export interface InviteEvent {
+  id: number;
+  invite_code: string;
+  user_id: string;
+  action: InviteAction;
+  details?: string | null; // Label, new holder or counterpart code, depending on the action
+  previous_user_id?: string | null; // Holder before the action
+  created_at: string;
+  users?: UserSummary | null; // Joined table 'users'
+}
+
+// Named companion of an invite holder (plus-one, family member)
+export interface Companion {
+  id: number;
+  invite_code: string; // Matches 'code' in public.invites
+  name: string;
+  rsvp_status: RsvpStatus;
+  is_celiac: boolean;
+  dietary?: DietaryProfile | null;
+  created_at: string;
+}
+
+// RSVP change of a guest or one of their companions (table 'rsvp_changes')
+export interface RsvpChange {
+  id: number;
+  user_id: string; // Invite holder whose party changed
+  companion_id?: number | null; // Set when the change was for a companion
+  subject_name: string; // Holder or companion name at the time of the change
+  previous_status: RsvpStatus;
+  status: RsvpStatus;
+  changed_by: string | null; // user_id of the guest or the admin who made the change; null outside the app
+  created_at: string;
+}
+
+// Admin guest list row: a user merged with the invite they redeemed
+export interface Guest extends UserProfile {
+  invite: InviteCode | null;
+  companions: Companion[];
 }